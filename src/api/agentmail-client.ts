@@ -1,8 +1,12 @@
 /**
  * AgentMail API Client
  *
- * SDK wrapper for sending emails through AgentMail API.
+ * SDK wrapper for sending emails through AgentMail API and for verifying
+ * credentials against it (AUTH_MODE=api).
  * Includes proper error handling with HTTP→SMTP error mapping.
+ *
+ * Raw MIME sends (POST /v0/inboxes/{inbox_id}/messages/send-raw) are not
+ * covered by the SDK and use fetch directly.
  */
 
 import { AgentMailClient as SDKClient, AgentMailError, AgentMailTimeoutError } from 'agentmail';
@@ -31,6 +35,12 @@ export class SMTPAgentMailError extends Error {
   }
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_API_BASE_URL = 'https://api.agentmail.to';
+
 // ============================================================================
 // SDK WRAPPER CLIENT
 // ============================================================================
@@ -43,23 +53,72 @@ export class SMTPAgentMailError extends Error {
 export class SMTPAgentMailClient {
   private sdkClient: SDKClient;
 
-  constructor(apiKey: string, timeoutInSeconds: number = 30) {
+  /**
+   * @param baseUrl - API base URL (defaults to the SDK's production URL;
+   *                  point it at the fake API in mock/agentmail-api.ts for tests)
+   */
+  constructor(
+    private apiKey: string,
+    private timeoutInSeconds: number = 30,
+    private baseUrl: string = DEFAULT_API_BASE_URL
+  ) {
     this.sdkClient = new SDKClient({
       apiKey,
       timeoutInSeconds,
       maxRetries: 2,  // SDK handles exponential backoff
+      baseUrl,
     });
   }
 
+  /**
+   * Fetch an inbox visible to this API key
+   *
+   * @throws SMTPAgentMailError on API error (401 bad key, 404 unknown inbox)
+   */
+  async getInbox(inboxId: string): Promise<AgentMail.inboxes.Inbox> {
+    try {
+      return await this.sdkClient.inboxes.get(inboxId);
+    } catch (error) {
+      throw this.toApiError(error, { inbox_id: inboxId });
+    }
+  }
+
+  /**
+   * Fetch the organization that owns this API key
+   *
+   * @throws SMTPAgentMailError on API error
+   */
+  async getOrganization(): Promise<AgentMail.Organization> {
+    try {
+      return await this.sdkClient.organizations.get();
+    } catch (error) {
+      throw this.toApiError(error, { endpoint: '/v0/organizations' });
+    }
+  }
+
+  /**
+   * Fetch a message of an inbox
+   *
+   * @throws SMTPAgentMailError on API error (404 unknown message)
+   */
+  async getMessage(inboxId: string, messageId: string): Promise<AgentMail.Message> {
+    try {
+      return await this.sdkClient.inboxes.messages.get(inboxId, messageId);
+    } catch (error) {
+      throw this.toApiError(error, { inbox_id: inboxId, message_id: messageId });
+    }
+  }
+
   /**
    * Send a message through the AgentMail API
    *
    * @param message - TransformedMessage with inbox_id
+   * @param idempotencyKey - Sent as Idempotency-Key; a repeated key returns the original message
    * @returns SendMessageResponse on success
    * @throws SMTPAgentMailError on API error
    */
-  async sendMessage(message: TransformedMessage): Promise<AgentMail.SendMessageResponse> {
-    const { inbox_id, ...requestBody } = message;
+  async sendMessage(message: TransformedMessage, idempotencyKey?: string): Promise<AgentMail.SendMessageResponse> {
+    const { inbox_id, draft: _draft, ...requestBody } = message;
 
     Logger.info('Sending message via SDK', {
       inbox_id,
@@ -71,7 +130,8 @@ export class SMTPAgentMailClient {
       // SDK returns HttpResponsePromise, await gets the data directly
       const response = await this.sdkClient.inboxes.messages.send(
         inbox_id,
-        requestBody
+        requestBody,
+        { idempotencyKey }
       );
 
       Logger.info('Message sent successfully', {
@@ -82,43 +142,215 @@ export class SMTPAgentMailClient {
       return response;
 
     } catch (error) {
-      // Handle SDK timeout error
-      if (error instanceof AgentMailTimeoutError) {
-        Logger.error('SDK timeout error', {
-          message: error.message,
-          inbox_id,
-          recipients: requestBody.to,
-          subject: requestBody.subject,
-        });
-        const smtpError = mapHttpToSmtp(504);  // Gateway Timeout
-        throw new SMTPAgentMailError(504, smtpError, { error: 'timeout' });
-      }
-
-      // Handle SDK API errors (ValidationError, NotFoundError, MessageRejectedError all extend AgentMailError)
-      if (error instanceof AgentMailError) {
-        const httpStatus = error.statusCode || 500;
-        Logger.error('SDK API error', {
-          httpStatus,
-          errorMessage: error.message,
-          errorBody: error.body,
-          inbox_id,
-          recipients: requestBody.to,
-          subject: requestBody.subject,
-        });
-        const smtpError = mapHttpToSmtp(httpStatus);
-        throw new SMTPAgentMailError(httpStatus, smtpError, error.body);
-      }
-
-      // Handle network/unknown errors
-      Logger.error('Unknown SDK error', {
+      throw this.toApiError(error, {
+        inbox_id,
+        recipients: requestBody.to,
+        subject: requestBody.subject,
+      });
+    }
+  }
+
+  /**
+   * Send the original RFC 5322 bytes of a message unchanged
+   *
+   * @param inboxId - Sending inbox
+   * @param raw - Message as received in DATA
+   * @param recipients - Envelope recipients (the delivery list; Bcc included)
+   * @param idempotencyKey - Sent as Idempotency-Key
+   * @returns SendMessageResponse on success
+   * @throws SMTPAgentMailError on API error (404/405/501 if raw sends are not offered)
+   */
+  async sendRawMessage(
+    inboxId: string,
+    raw: Buffer,
+    recipients: string[],
+    idempotencyKey?: string
+  ): Promise<AgentMail.SendMessageResponse> {
+    const url = `${this.baseUrl.replace(/\/$/, '')}/v0/inboxes/${encodeURIComponent(inboxId)}/messages/send-raw`;
+
+    Logger.info('Sending raw message', {
+      inbox_id: inboxId,
+      recipients: recipients.join(', '),
+      size: raw.length,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+        },
+        body: JSON.stringify({ raw: raw.toString('base64'), recipients }),
+        signal: AbortSignal.timeout(this.timeoutInSeconds * 1000),
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      Logger.error(timedOut ? 'Raw send timeout' : 'Raw send network error', {
         error: String(error),
+        inbox_id: inboxId,
+      });
+      const status = timedOut ? 504 : 502;
+      throw new SMTPAgentMailError(status, mapHttpToSmtp(status), { error: String(error) });
+    }
+
+    const text = await response.text();
+    let body: Record<string, unknown> = {};
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = { error: text };
+    }
+
+    if (!response.ok) {
+      Logger.error('Raw send API error', {
+        httpStatus: response.status,
+        errorBody: body,
+        inbox_id: inboxId,
+      });
+      throw new SMTPAgentMailError(response.status, mapHttpToSmtp(response.status), body);
+    }
+
+    const result = { messageId: String(body.message_id), threadId: String(body.thread_id) };
+    Logger.info('Raw message sent successfully', result);
+    return result;
+  }
+
+  /**
+   * Create a draft from a message, scheduled for message.draft.sendAt if set
+   * (X-AgentMail-Draft / X-AgentMail-Send-At)
+   *
+   * @param message - TransformedMessage with inbox_id
+   * @returns The created draft
+   * @throws SMTPAgentMailError on API error
+   */
+  async createDraft(message: TransformedMessage): Promise<AgentMail.Draft> {
+    const { inbox_id, draft, headers: _headers, trackOpens: _trackOpens, ...requestBody } = message;
+    const toList = (addresses?: string | string[]) => addresses === undefined ? undefined : ([] as string[]).concat(addresses);
+
+    Logger.info('Creating draft via SDK', {
+      inbox_id,
+      to: requestBody.to,
+      subject: requestBody.subject,
+      sendAt: draft?.sendAt?.toISOString(),
+    });
+
+    try {
+      const response = await this.sdkClient.inboxes.drafts.create(inbox_id, {
+        ...requestBody,
+        to: toList(requestBody.to),
+        cc: toList(requestBody.cc),
+        bcc: toList(requestBody.bcc),
+        replyTo: toList(requestBody.replyTo),
+        ...(draft?.sendAt ? { sendAt: draft.sendAt } : {}),
+      });
+
+      Logger.info('Draft created successfully', {
+        draftId: response.draftId,
+        sendStatus: response.sendStatus,
+      });
+
+      return response;
+
+    } catch (error) {
+      throw this.toApiError(error, {
         inbox_id,
         recipients: requestBody.to,
+        subject: requestBody.subject,
       });
-      const smtpError = mapHttpToSmtp(502);  // Bad Gateway
-      throw new SMTPAgentMailError(502, smtpError, { error: String(error) });
     }
   }
+
+  /**
+   * Send a message as a reply to an existing message, in its thread.
+   * The API derives the subject and the In-Reply-To/References headers
+   * from the original, so those are not passed on.
+   *
+   * @param messageId - Message being replied to (must belong to the inbox)
+   * @param message - TransformedMessage with inbox_id
+   * @param idempotencyKey - Sent as Idempotency-Key
+   * @returns SendMessageResponse on success
+   * @throws SMTPAgentMailError on API error
+   */
+  async replyToMessage(
+    messageId: string,
+    message: TransformedMessage,
+    idempotencyKey?: string
+  ): Promise<AgentMail.SendMessageResponse> {
+    const { inbox_id, subject, headers, draft: _draft, ...requestBody } = message;
+
+    const replyHeaders = Object.fromEntries(
+      Object.entries(headers || {}).filter(([key]) => !['in-reply-to', 'references'].includes(key.toLowerCase()))
+    );
+
+    Logger.info('Sending reply via SDK', {
+      inbox_id,
+      in_reply_to: messageId,
+      to: requestBody.to,
+      subject,
+    });
+
+    try {
+      const response = await this.sdkClient.inboxes.messages.reply(inbox_id, messageId, {
+        ...requestBody,
+        ...(Object.keys(replyHeaders).length > 0 ? { headers: replyHeaders } : {}),
+      }, { idempotencyKey });
+
+      Logger.info('Reply sent successfully', {
+        messageId: response.messageId,
+        threadId: response.threadId,
+      });
+
+      return response;
+
+    } catch (error) {
+      throw this.toApiError(error, {
+        inbox_id,
+        in_reply_to: messageId,
+        recipients: requestBody.to,
+      });
+    }
+  }
+
+  /**
+   * Convert an SDK error into SMTPAgentMailError
+   *
+   * @param context - Request details included in the error log
+   */
+  private toApiError(error: unknown, context: Record<string, unknown>): SMTPAgentMailError {
+    // Handle SDK timeout error
+    if (error instanceof AgentMailTimeoutError) {
+      Logger.error('SDK timeout error', {
+        message: error.message,
+        ...context,
+      });
+      const smtpError = mapHttpToSmtp(504);  // Gateway Timeout
+      return new SMTPAgentMailError(504, smtpError, { error: 'timeout' });
+    }
+
+    // Handle SDK API errors (ValidationError, NotFoundError, MessageRejectedError all extend AgentMailError)
+    if (error instanceof AgentMailError) {
+      const httpStatus = error.statusCode || 500;
+      Logger.error('SDK API error', {
+        httpStatus,
+        errorMessage: error.message,
+        errorBody: error.body,
+        ...context,
+      });
+      const smtpError = mapHttpToSmtp(httpStatus);
+      return new SMTPAgentMailError(httpStatus, smtpError, error.body);
+    }
+
+    // Handle network/unknown errors
+    Logger.error('Unknown SDK error', {
+      error: String(error),
+      ...context,
+    });
+    const smtpError = mapHttpToSmtp(502);  // Bad Gateway
+    return new SMTPAgentMailError(502, smtpError, { error: String(error) });
+  }
 }
 
 // ============================================================================
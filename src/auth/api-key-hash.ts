@@ -0,0 +1,75 @@
+/**
+ * API Key Hashing
+ *
+ * API keys are stored as salted SHA-256 hashes, never as raw secrets.
+ * Each stored key also carries a short non-secret prefix of the raw key
+ * (e.g. "am_validkey1") that indexes the lookup, so the validator only
+ * hashes against a handful of candidates instead of every key.
+ *
+ * Stored hash format: sha256$<salt hex>$<digest hex>
+ * where digest = SHA-256(salt || apiKey).
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Number of leading characters of the raw key used as the lookup index.
+ * "am_" plus 9 characters: enough to spread keys, far too little to guess from.
+ */
+export const API_KEY_PREFIX_LENGTH = 12;
+
+const HASH_ALGORITHM = 'sha256';
+const SALT_BYTES = 16;
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+function digest(apiKey: string, salt: Buffer): Buffer {
+  return crypto.createHash(HASH_ALGORITHM).update(salt).update(apiKey, 'utf8').digest();
+}
+
+/**
+ * Lookup prefix for a raw API key.
+ */
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.substring(0, API_KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Hash a raw API key with a fresh random salt.
+ *
+ * @returns Stored hash string (sha256$<salt>$<digest>)
+ */
+export function hashApiKey(apiKey: string): string {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  return `${HASH_ALGORITHM}$${salt.toString('hex')}$${digest(apiKey, salt).toString('hex')}`;
+}
+
+/**
+ * Check whether a stored hash string is well-formed.
+ */
+export function isApiKeyHash(storedHash: string): boolean {
+  return /^sha256\$[0-9a-f]{32}\$[0-9a-f]{64}$/.test(storedHash);
+}
+
+/**
+ * Compare a raw API key against a stored hash in constant time.
+ *
+ * @returns false for a mismatch or a malformed stored hash
+ */
+export function verifyApiKey(apiKey: string, storedHash: string): boolean {
+  if (!isApiKeyHash(storedHash)) {
+    return false;
+  }
+
+  const [, saltHex, digestHex] = storedHash.split('$');
+  const expected = Buffer.from(digestHex, 'hex');
+  const actual = digest(apiKey, Buffer.from(saltHex, 'hex'));
+
+  return crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,145 @@
+/**
+ * API Key Vault
+ *
+ * Holds the raw API key of each authenticated session between AUTH and
+ * DATA, when it is needed again for the AgentMail API call. Sessions only
+ * carry an opaque handle, so the raw key never ends up in the session
+ * store (which may be Redis), in logs, or in session dumps.
+ *
+ * Keys are kept encrypted with AES-256-GCM under a random per-process key.
+ * Like the session, a key expires after SESSION_TIMEOUT_MS without
+ * activity: every use and every touch() on a command restarts the clock,
+ * and onClose releases it. The handle is only meaningful to
+ * the process that issued it; SMTP connections never move between
+ * processes, so that is the process that handles DATA.
+ */
+
+import crypto from 'crypto';
+import { SESSION_TIMEOUT_MS } from '../session/session-state';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface VaultEntry {
+  iv: Buffer;
+  ciphertext: Buffer;
+  authTag: Buffer;
+  expiresAt: number;
+}
+
+// ============================================================================
+// VAULT
+// ============================================================================
+
+export class ApiKeyVault {
+  private entries: Map<string, VaultEntry> = new Map();
+  private encryptionKey: Buffer = crypto.randomBytes(32);
+
+  constructor(private ttlMs: number = SESSION_TIMEOUT_MS) {}
+
+  /**
+   * Encrypt and store an API key.
+   *
+   * @returns Opaque handle to store on the session
+   */
+  store(apiKey: string): string {
+    this.sweep();
+
+    const handle = `akh_${crypto.randomBytes(16).toString('hex')}`;
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    // The handle is bound as AAD so an entry cannot be replayed under another handle
+    cipher.setAAD(Buffer.from(handle));
+    const ciphertext = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+
+    this.entries.set(handle, {
+      iv,
+      ciphertext,
+      authTag: cipher.getAuthTag(),
+      expiresAt: Date.now() + this.ttlMs
+    });
+
+    return handle;
+  }
+
+  /**
+   * Decrypt the API key for a handle.
+   *
+   * @returns The raw key, or null if the handle is unknown or expired
+   */
+  reveal(handle: string): string | null {
+    const entry = this.entries.get(handle);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.release(handle);
+      return null;
+    }
+    entry.expiresAt = Date.now() + this.ttlMs;
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, entry.iv);
+    decipher.setAAD(Buffer.from(handle));
+    decipher.setAuthTag(entry.authTag);
+    return Buffer.concat([decipher.update(entry.ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Keep a handle alive for another TTL (on session activity).
+   *
+   * @returns false if the handle is unknown or already expired
+   */
+  touch(handle: string): boolean {
+    const entry = this.entries.get(handle);
+    if (!entry) {
+      return false;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.release(handle);
+      return false;
+    }
+    entry.expiresAt = Date.now() + this.ttlMs;
+    return true;
+  }
+
+  /**
+   * Forget a handle (on disconnect). The ciphertext is zeroed first.
+   *
+   * @returns true if the handle existed
+   */
+  release(handle: string): boolean {
+    const entry = this.entries.get(handle);
+    if (!entry) {
+      return false;
+    }
+    entry.ciphertext.fill(0);
+    return this.entries.delete(handle);
+  }
+
+  /**
+   * Number of live handles (for stats).
+   */
+  size(): number {
+    this.sweep();
+    return this.entries.size;
+  }
+
+  /**
+   * Drop expired entries.
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [handle, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.release(handle);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+export const apiKeyVault = new ApiKeyVault();
@@ -0,0 +1,167 @@
+/**
+ * Authentication Result Cache
+ *
+ * Agents often open a new connection for every message, so the same
+ * (inbox_id, API key) pair is validated over and over. This LRU cache
+ * remembers the AuthResult for a while:
+ *
+ * - Successes for successTtlMs
+ * - Permanent failures (535 etc.) for failureTtlMs, so a misconfigured
+ *   agent retrying in a loop does not hit the backend every time
+ * - Temporary failures (454) are never cached
+ *
+ * Entries are keyed by an HMAC of the pair under a per-process secret,
+ * so neither the key nor a brute-forceable hash of it is stored.
+ *
+ * Revocation: invalidateApiKey / invalidateInbox drop the entries of a key
+ * or inbox at once; a credentials file reload calls them for every record
+ * it changed. clear() drops everything (SIGHUP). With AUTH_MODE=api nothing
+ * reports a revocation, so there the success TTL bounds it.
+ */
+
+import crypto from 'crypto';
+import { AuthResult } from './errors';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuthCacheOptions {
+  /** Maximum number of entries before least-recently-used ones are evicted */
+  maxEntries: number;
+  /** TTL for successful results (0 disables caching successes) */
+  successTtlMs: number;
+  /** TTL for permanent failures (0 disables negative caching) */
+  failureTtlMs: number;
+}
+
+interface CacheEntry {
+  result: AuthResult;
+  inboxId: string;
+  /** api_key_id of a successful result (unknown for failures) */
+  apiKeyId?: string;
+  expiresAt: number;
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+export class AuthCache {
+  /** Map iteration order doubles as LRU order (oldest first) */
+  private entries: Map<string, CacheEntry> = new Map();
+  private secret: Buffer = crypto.randomBytes(32);
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private options: AuthCacheOptions) {}
+
+  private cacheKey(inboxId: string, apiKey: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`${inboxId}\0${apiKey}`).digest('hex');
+  }
+
+  /**
+   * Look up a cached result. Logs HIT/MISS in the auth step trail.
+   */
+  get(inboxId: string, apiKey: string): AuthResult | null {
+    const key = this.cacheKey(inboxId, apiKey);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      Logger.authStep('Checking auth cache', 'MISS');
+      return null;
+    }
+
+    // Move to the most-recently-used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    this.hits++;
+    Logger.authStep('Checking auth cache', 'HIT');
+    return entry.result;
+  }
+
+  /**
+   * Remember a result. Temporary failures are skipped.
+   */
+  set(inboxId: string, apiKey: string, result: AuthResult): void {
+    if (!result.success && result.error.smtpCode < 500) {
+      return;
+    }
+
+    const ttlMs = result.success ? this.options.successTtlMs : this.options.failureTtlMs;
+    if (ttlMs <= 0 || this.options.maxEntries <= 0) {
+      return;
+    }
+
+    const key = this.cacheKey(inboxId, apiKey);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      result,
+      inboxId,
+      apiKeyId: result.success ? result.user.api_key_id : undefined,
+      expiresAt: Date.now() + ttlMs
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // INVALIDATION
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Drop every cached success for an API key (call on revocation).
+   *
+   * @returns Number of entries removed
+   */
+  invalidateApiKey(apiKeyId: string): number {
+    return this.removeWhere(entry => entry.apiKeyId === apiKeyId, { apiKeyId });
+  }
+
+  /**
+   * Drop every cached result for an inbox (call on disable/suspend, or
+   * when a new inbox should stop being negatively cached).
+   *
+   * @returns Number of entries removed
+   */
+  invalidateInbox(inboxId: string): number {
+    return this.removeWhere(entry => entry.inboxId === inboxId, { inboxId });
+  }
+
+  /**
+   * Drop everything (e.g. on SIGHUP).
+   */
+  clear(): void {
+    const removed = this.entries.size;
+    this.entries.clear();
+    Logger.info('Auth cache cleared', { removed });
+  }
+
+  private removeWhere(predicate: (entry: CacheEntry) => boolean, context: Record<string, string>): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    Logger.info('Auth cache invalidated', { ...context, removed });
+    return removed;
+  }
+
+  /**
+   * Cache statistics (for monitoring)
+   */
+  getStats(): { size: number; hits: number; misses: number } {
+    return { size: this.entries.size, hits: this.hits, misses: this.misses };
+  }
+}
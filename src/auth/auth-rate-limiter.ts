@@ -0,0 +1,182 @@
+/**
+ * AUTH Failure Limiter
+ *
+ * Sliding-window count of failed AUTH attempts per remote address and per
+ * username (inbox_id). Once either count reaches its limit, further AUTH
+ * attempts are refused without checking credentials until old failures
+ * slide out of the window:
+ *
+ * - Username over the limit → 454 4.7.0 (connection stays open)
+ * - Remote address over the limit → 421 4.7.0 (connection closed) and new
+ *   connections from that address are tarpitted before the greeting
+ *
+ * Only credential failures (5xx) count; temporary failures (454) do not,
+ * and refused attempts do not extend the lockout. A successful AUTH
+ * clears the username's failures but not the address's, so one valid
+ * login cannot be used to reset a scan.
+ *
+ * Exempt addresses (loopback by default, so local test runs and health
+ * checks never lock themselves out) are neither counted nor refused.
+ *
+ * State is per process.
+ */
+
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuthFailureLimiterOptions {
+  /** Sliding window length */
+  windowMs: number;
+  /** Failures per remote address before lockout (0 disables) */
+  maxFailuresPerIp: number;
+  /** Failures per username before lockout (0 disables) */
+  maxFailuresPerUsername: number;
+  /** Delay before greeting a locked-out address */
+  tarpitMs: number;
+  /** Remote addresses that are never counted or locked out */
+  exemptAddresses: string[];
+}
+
+/**
+ * Which limit an AUTH attempt hit
+ */
+export type AuthLimitScope = 'ip' | 'username';
+
+// ============================================================================
+// LIMITER
+// ============================================================================
+
+export class AuthFailureLimiter {
+  /** Failure timestamps per address, oldest first */
+  private ipFailures: Map<string, number[]> = new Map();
+  /** Failure timestamps per username, oldest first */
+  private usernameFailures: Map<string, number[]> = new Map();
+  private lastSweepAt = Date.now();
+
+  constructor(private options: AuthFailureLimiterOptions) {}
+
+  /**
+   * Check whether an AUTH attempt should be refused.
+   *
+   * @returns The limit that was hit, or null if the attempt may proceed
+   */
+  check(remoteAddress: string, username: string): AuthLimitScope | null {
+    if (this.isExempt(remoteAddress)) {
+      return null;
+    }
+    if (this.isOverLimit(this.ipFailures, remoteAddress, this.options.maxFailuresPerIp)) {
+      return 'ip';
+    }
+    if (this.isOverLimit(this.usernameFailures, normalize(username), this.options.maxFailuresPerUsername)) {
+      return 'username';
+    }
+    return null;
+  }
+
+  /**
+   * Record a failed AUTH attempt.
+   */
+  recordFailure(remoteAddress: string, username: string): void {
+    if (this.isExempt(remoteAddress)) {
+      return;
+    }
+
+    const now = Date.now();
+    if (this.options.maxFailuresPerIp > 0) {
+      this.append(this.ipFailures, remoteAddress, now);
+    }
+    if (this.options.maxFailuresPerUsername > 0 && username) {
+      this.append(this.usernameFailures, normalize(username), now);
+    }
+
+    if (now - this.lastSweepAt >= this.options.windowMs) {
+      this.sweep();
+    }
+  }
+
+  /**
+   * Record a successful AUTH: the username's failures are forgiven.
+   */
+  recordSuccess(username: string): void {
+    this.usernameFailures.delete(normalize(username));
+  }
+
+  /**
+   * Delay to apply before greeting a new connection from this address.
+   */
+  getTarpitDelayMs(remoteAddress: string): number {
+    if (this.isExempt(remoteAddress)) {
+      return 0;
+    }
+    return this.isOverLimit(this.ipFailures, remoteAddress, this.options.maxFailuresPerIp)
+      ? this.options.tarpitMs
+      : 0;
+  }
+
+  /**
+   * Limiter statistics (for monitoring)
+   */
+  getStats(): { trackedIps: number; trackedUsernames: number } {
+    return { trackedIps: this.ipFailures.size, trackedUsernames: this.usernameFailures.size };
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // HELPERS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private isExempt(remoteAddress: string): boolean {
+    return this.options.exemptAddresses.includes(remoteAddress);
+  }
+
+  private isOverLimit(failures: Map<string, number[]>, key: string, limit: number): boolean {
+    if (limit <= 0) {
+      return false;
+    }
+    return this.recent(failures, key).length >= limit;
+  }
+
+  /**
+   * Failures for a key still inside the window (older ones are dropped).
+   */
+  private recent(failures: Map<string, number[]>, key: string): number[] {
+    const timestamps = failures.get(key);
+    if (!timestamps) {
+      return [];
+    }
+
+    const cutoff = Date.now() - this.options.windowMs;
+    while (timestamps.length > 0 && timestamps[0] <= cutoff) {
+      timestamps.shift();
+    }
+    if (timestamps.length === 0) {
+      failures.delete(key);
+    }
+    return timestamps;
+  }
+
+  private append(failures: Map<string, number[]>, key: string, now: number): void {
+    const timestamps = this.recent(failures, key);
+    timestamps.push(now);
+    failures.set(key, timestamps);
+  }
+
+  /**
+   * Drop keys whose failures have all left the window.
+   */
+  private sweep(): void {
+    for (const failures of [this.ipFailures, this.usernameFailures]) {
+      for (const key of Array.from(failures.keys())) {
+        this.recent(failures, key);
+      }
+    }
+    this.lastSweepAt = Date.now();
+    Logger.debug('AUTH failure limiter swept', this.getStats());
+  }
+}
+
+function normalize(username: string): string {
+  return username.trim().toLowerCase();
+}
@@ -0,0 +1,156 @@
+/**
+ * Credential Provider Interface
+ *
+ * Abstracts where inboxes and API keys come from, so the validator can be
+ * pointed at the mock database, a credentials file, or (later) a real
+ * backend without changing the authentication pipeline.
+ */
+
+// ============================================================================
+// RECORD TYPES
+// ============================================================================
+
+export interface InboxRecord {
+  inbox_id: string;
+  email_address: string;
+  organization_id: string;
+  status: 'active' | 'disabled' | 'suspended';
+  display_name?: string;
+  created_at: string;
+}
+
+/**
+ * A stored API key. The raw key is never kept: only its lookup prefix and
+ * salted hash (see api-key-hash.ts).
+ */
+export interface ApiKeyRecord {
+  api_key_id: string;
+  /** First API_KEY_PREFIX_LENGTH characters of the raw key (lookup index) */
+  key_prefix: string;
+  /** Salted hash of the raw key: sha256$<salt>$<digest> */
+  key_hash: string;
+  /** SCRAM-SHA-256 verifier (see scram.ts); keys without one cannot use SCRAM */
+  scram_sha256?: string;
+  /** Raw key sealed under the SCRAM ClientKey (see scram.ts) */
+  scram_sealed_key?: string;
+  organization_id: string;
+  revoked_at: string | null;
+  expires_at: string | null;
+  scopes: string[];
+  name: string;
+  created_at: string;
+}
+
+// ============================================================================
+// PROVIDER INTERFACE
+// ============================================================================
+
+/**
+ * Source of inbox and API key records for validateSMTPCredentials.
+ *
+ * Implementations:
+ * - InMemoryCredentialProvider - for tests and the mock database
+ * - FileCredentialProvider - JSON/YAML file, reloaded on change
+ *
+ * Lookups may throw; the validator maps that to DATABASE_ERROR (454 4.7.0).
+ */
+export interface CredentialProvider {
+  /**
+   * Find every stored API key whose prefix matches.
+   *
+   * The raw key is deliberately not passed in: the validator compares it
+   * against each candidate's key_hash itself, in constant time.
+   */
+  findApiKeysByPrefix(keyPrefix: string): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Look up an API key by api_key_id (the SCRAM authcid, which must not
+   * reveal any part of the key).
+   */
+  findApiKeyById(apiKeyId: string): Promise<ApiKeyRecord | null>;
+
+  /**
+   * Look up an inbox by inbox_id.
+   */
+  getInbox(inboxId: string): Promise<InboxRecord | null>;
+
+  /**
+   * Every inbox of an organization (any status), for organization-wide
+   * sessions picking a sending inbox per message.
+   */
+  listInboxes(organizationId: string): Promise<InboxRecord[]>;
+}
+
+// ============================================================================
+// IN-MEMORY IMPLEMENTATION
+// ============================================================================
+
+/**
+ * In-memory credential provider.
+ *
+ * Inboxes are keyed by inbox_id, API keys by api_key_id. The inbox object
+ * is used by reference, so later additions to it are visible immediately.
+ */
+export class InMemoryCredentialProvider implements CredentialProvider {
+  private apiKeys: Map<string, ApiKeyRecord> = new Map();
+
+  constructor(
+    private inboxes: Record<string, InboxRecord> = {},
+    apiKeys: ApiKeyRecord[] = []
+  ) {
+    for (const record of apiKeys) {
+      this.addApiKey(record);
+    }
+  }
+
+  async findApiKeysByPrefix(keyPrefix: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.apiKeys.values()).filter(record => record.key_prefix === keyPrefix);
+  }
+
+  async findApiKeyById(apiKeyId: string): Promise<ApiKeyRecord | null> {
+    return this.apiKeys.get(apiKeyId) || null;
+  }
+
+  async getInbox(inboxId: string): Promise<InboxRecord | null> {
+    return this.inboxes[inboxId] || null;
+  }
+
+  async listInboxes(organizationId: string): Promise<InboxRecord[]> {
+    return Object.values(this.inboxes).filter(inbox => inbox.organization_id === organizationId);
+  }
+
+  addInbox(inbox: InboxRecord): void {
+    this.inboxes[inbox.inbox_id] = inbox;
+  }
+
+  addApiKey(record: ApiKeyRecord): void {
+    this.apiKeys.set(record.api_key_id, record);
+  }
+
+  removeInbox(inboxId: string): boolean {
+    const existed = inboxId in this.inboxes;
+    delete this.inboxes[inboxId];
+    return existed;
+  }
+
+  removeApiKey(apiKeyId: string): boolean {
+    return this.apiKeys.delete(apiKeyId);
+  }
+
+  /**
+   * Every record (e.g. to compare two loads of a credentials file).
+   */
+  getRecords(): { inboxes: InboxRecord[]; apiKeys: ApiKeyRecord[] } {
+    return { inboxes: Object.values(this.inboxes), apiKeys: Array.from(this.apiKeys.values()) };
+  }
+
+  /**
+   * Counts for logging.
+   */
+  getCounts(): { inboxes: number; apiKeys: number } {
+    return {
+      inboxes: Object.keys(this.inboxes).length,
+      apiKeys: this.apiKeys.size
+    };
+  }
+}
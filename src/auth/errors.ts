@@ -173,13 +173,25 @@ export function createSMTPAuthError(error: AuthError): SMTPAuthError {
 // AUTHENTICATED USER TYPE
 // ============================================================================
 
+/**
+ * What an authenticated session may send as:
+ * - inbox: the single inbox named by the username
+ * - organization: any active inbox of the organization, picked per message
+ *   from MAIL FROM (or the From: header)
+ */
+export type AuthScope = 'inbox' | 'organization';
+
 export interface AuthenticatedUser {
-  inbox_id: string;
+  scope: AuthScope;
+  /** Inbox the session is bound to (inbox scope only) */
+  inbox_id?: string;
   organization_id: string;
-  email_address: string;
+  /** Address of the bound inbox (inbox scope only) */
+  email_address?: string;
   api_key_id: string;
-  // Note: api_key is NOT included here - it's added in server.ts from auth.password
-  // and stored in SessionUser which has the required api_key field
+  // Note: the API key is NOT included here - server.ts puts the API key (or
+  // bearer token) in apiKeyVault and stores only the handle in
+  // SessionUser.api_key_handle
 }
 
 // ============================================================================
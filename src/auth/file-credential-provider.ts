@@ -0,0 +1,390 @@
+/**
+ * File-Backed Credential Provider
+ *
+ * Loads inboxes and API keys from a JSON or YAML file and reloads it when
+ * the file changes, so inboxes can be added without editing source.
+ *
+ * File format (YAML shown, JSON uses the same shape):
+ *
+ *   inboxes:
+ *     - inbox_id: support@example.com
+ *       email_address: support@example.com
+ *       organization_id: org_abc
+ *       status: active
+ *       created_at: "2025-01-01T00:00:00Z"
+ *   api_keys:
+ *     - key_prefix: am_0123456789
+ *       key_hash: sha256$<salt hex>$<digest hex>
+ *       api_key_id: key_1
+ *       organization_id: org_abc
+ *       revoked_at: null
+ *       expires_at: null
+ *       scopes: [smtp:send]
+ *       name: Support agent
+ *       created_at: "2025-01-01T00:00:00Z"
+ *
+ * key_prefix/key_hash come from `npm run hash-api-key -- <key>`, which
+ * also prints the optional scram_sha256/scram_sealed_key pair that
+ * enables SCRAM-SHA-256 for the key. A raw
+ * `key` is still accepted (it is hashed at load and a warning is logged)
+ * so existing files keep working, but should be replaced.
+ *
+ * A file that fails to parse or validate on reload is logged and the
+ * last good credentials keep being served. A good reload tells its
+ * listeners which keys and inboxes changed, so cached auth results for
+ * them (e.g. a key just revoked) are dropped.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import {
+  ApiKeyRecord,
+  CredentialProvider,
+  InboxRecord,
+  InMemoryCredentialProvider
+} from './credential-provider';
+import { API_KEY_PREFIX_LENGTH, getApiKeyPrefix, hashApiKey, isApiKeyHash } from './api-key-hash';
+import { createScramCredential, parseScramCredential } from './scram';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const INBOX_STATUSES: ReadonlyArray<InboxRecord['status']> = ['active', 'disabled', 'suspended'];
+
+/**
+ * Delay before reloading after a file change (editors write in several steps).
+ */
+const RELOAD_DEBOUNCE_MS = 500;
+
+/**
+ * What a reload changed: api_key_ids and inbox_ids whose records were
+ * added, edited or removed. The inboxes of an organization that gained a
+ * key are included, since a login with that key may have failed before.
+ */
+export interface CredentialChanges {
+  apiKeyIds: string[];
+  inboxIds: string[];
+}
+
+/**
+ * Called after a successful reload.
+ */
+export type CredentialReloadListener = (changes: CredentialChanges) => void;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function requireString(entry: Record<string, unknown>, field: string, where: string): string {
+  const value = entry[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`${where}: "${field}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalTimestamp(entry: Record<string, unknown>, field: string, where: string): string | null {
+  const value = entry[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new Error(`${where}: "${field}" must be an ISO-8601 timestamp or null`);
+  }
+  return value;
+}
+
+function parseInbox(entry: Record<string, unknown>, index: number): InboxRecord {
+  const where = `inboxes[${index}]`;
+  const status = requireString(entry, 'status', where) as InboxRecord['status'];
+  if (!INBOX_STATUSES.includes(status)) {
+    throw new Error(`${where}: "status" must be one of ${INBOX_STATUSES.join(', ')}`);
+  }
+
+  return {
+    inbox_id: requireString(entry, 'inbox_id', where),
+    email_address: requireString(entry, 'email_address', where),
+    organization_id: requireString(entry, 'organization_id', where),
+    status,
+    display_name: typeof entry.display_name === 'string' ? entry.display_name : undefined,
+    created_at: optionalTimestamp(entry, 'created_at', where) || new Date(0).toISOString()
+  };
+}
+
+/**
+ * Resolve the stored hash for an entry: key_prefix + key_hash (plus the
+ * optional SCRAM fields), or a raw key that is hashed here.
+ */
+function parseKeyHash(
+  entry: Record<string, unknown>,
+  where: string,
+  filePath: string
+): Pick<ApiKeyRecord, 'key_prefix' | 'key_hash' | 'scram_sha256' | 'scram_sealed_key'> {
+  if (entry.key !== undefined) {
+    const rawKey = requireString(entry, 'key', where);
+    Logger.warn('Credentials file contains a raw API key, store key_prefix/key_hash instead', {
+      filePath,
+      entry: where
+    });
+    return { key_prefix: getApiKeyPrefix(rawKey), key_hash: hashApiKey(rawKey), ...createScramCredential(rawKey) };
+  }
+
+  const keyPrefix = requireString(entry, 'key_prefix', where);
+  const keyHash = requireString(entry, 'key_hash', where);
+  if (keyPrefix.length !== API_KEY_PREFIX_LENGTH) {
+    throw new Error(`${where}: "key_prefix" must be ${API_KEY_PREFIX_LENGTH} characters`);
+  }
+  if (!isApiKeyHash(keyHash)) {
+    throw new Error(`${where}: "key_hash" must look like sha256$<salt hex>$<digest hex>`);
+  }
+
+  if (entry.scram_sha256 === undefined && entry.scram_sealed_key === undefined) {
+    return { key_prefix: keyPrefix, key_hash: keyHash };
+  }
+  const scramSha256 = requireString(entry, 'scram_sha256', where);
+  const scramSealedKey = requireString(entry, 'scram_sealed_key', where);
+  if (!parseScramCredential(scramSha256, scramSealedKey)) {
+    throw new Error(`${where}: "scram_sha256" must look like SCRAM-SHA-256$<iterations>:<salt>$<StoredKey>:<ServerKey>`);
+  }
+  return { key_prefix: keyPrefix, key_hash: keyHash, scram_sha256: scramSha256, scram_sealed_key: scramSealedKey };
+}
+
+function parseApiKey(entry: Record<string, unknown>, index: number, filePath: string): ApiKeyRecord {
+  const where = `api_keys[${index}]`;
+  const scopes = entry.scopes;
+  if (!Array.isArray(scopes) || !scopes.every(scope => typeof scope === 'string')) {
+    throw new Error(`${where}: "scopes" must be a list of strings`);
+  }
+
+  return {
+    api_key_id: requireString(entry, 'api_key_id', where),
+    ...parseKeyHash(entry, where, filePath),
+    organization_id: requireString(entry, 'organization_id', where),
+    revoked_at: optionalTimestamp(entry, 'revoked_at', where),
+    expires_at: optionalTimestamp(entry, 'expires_at', where),
+    scopes,
+    name: typeof entry.name === 'string' ? entry.name : requireString(entry, 'api_key_id', where),
+    created_at: optionalTimestamp(entry, 'created_at', where) || new Date(0).toISOString()
+  };
+}
+
+function asEntries(value: unknown, field: string): Array<Record<string, unknown>> {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every(item => item && typeof item === 'object')) {
+    throw new Error(`"${field}" must be a list of objects`);
+  }
+  return value as Array<Record<string, unknown>>;
+}
+
+/**
+ * Parse and validate a credentials file.
+ *
+ * @param content - File contents
+ * @param filePath - Used to pick JSON vs YAML (.yaml/.yml) and for error messages
+ * @returns Provider holding the parsed credentials
+ * @throws Error describing the first invalid or duplicate entry
+ */
+export function parseCredentialFile(content: string, filePath: string): InMemoryCredentialProvider {
+  const extension = path.extname(filePath).toLowerCase();
+  const document = extension === '.yaml' || extension === '.yml'
+    ? YAML.parse(content)
+    : JSON.parse(content);
+
+  if (!document || typeof document !== 'object') {
+    throw new Error('Credentials file must contain an object with "inboxes" and "api_keys"');
+  }
+
+  const provider = new InMemoryCredentialProvider();
+  const inboxIds = new Set<string>();
+  const apiKeyIds = new Set<string>();
+
+  asEntries(document.inboxes, 'inboxes').forEach((entry, index) => {
+    const inbox = parseInbox(entry, index);
+    if (inboxIds.has(inbox.inbox_id)) {
+      throw new Error(`inboxes[${index}]: duplicate inbox_id "${inbox.inbox_id}"`);
+    }
+    inboxIds.add(inbox.inbox_id);
+    provider.addInbox(inbox);
+  });
+
+  asEntries(document.api_keys, 'api_keys').forEach((entry, index) => {
+    const apiKey = parseApiKey(entry, index, filePath);
+    if (apiKeyIds.has(apiKey.api_key_id)) {
+      throw new Error(`api_keys[${index}]: duplicate api_key_id "${apiKey.api_key_id}"`);
+    }
+    apiKeyIds.add(apiKey.api_key_id);
+    provider.addApiKey(apiKey);
+  });
+
+  return provider;
+}
+
+/**
+ * IDs of the records that differ between two loads.
+ */
+function changedIds<T>(before: T[], after: T[], id: (record: T) => string): string[] {
+  const previous = new Map(before.map(record => [id(record), JSON.stringify(record)]));
+  const changed = new Set<string>();
+  for (const record of after) {
+    if (previous.get(id(record)) !== JSON.stringify(record)) {
+      changed.add(id(record));
+    }
+    previous.delete(id(record));
+  }
+  for (const removed of previous.keys()) {
+    changed.add(removed);
+  }
+  return Array.from(changed);
+}
+
+/**
+ * Compare the credentials before and after a reload. Entries with a raw
+ * `key` are hashed with a fresh salt on every load, so they always count
+ * as changed.
+ */
+export function diffCredentials(before: InMemoryCredentialProvider, after: InMemoryCredentialProvider): CredentialChanges {
+  const previous = before.getRecords();
+  const next = after.getRecords();
+
+  const apiKeyIds = changedIds(previous.apiKeys, next.apiKeys, record => record.api_key_id);
+  const inboxIds = new Set(changedIds(previous.inboxes, next.inboxes, record => record.inbox_id));
+
+  const previousKeyIds = new Set(previous.apiKeys.map(record => record.api_key_id));
+  for (const record of next.apiKeys) {
+    if (!previousKeyIds.has(record.api_key_id)) {
+      next.inboxes
+        .filter(inbox => inbox.organization_id === record.organization_id)
+        .forEach(inbox => inboxIds.add(inbox.inbox_id));
+    }
+  }
+
+  return { apiKeyIds, inboxIds: Array.from(inboxIds) };
+}
+
+// ============================================================================
+// FILE PROVIDER
+// ============================================================================
+
+export class FileCredentialProvider implements CredentialProvider {
+  /** Last good credentials */
+  private current: InMemoryCredentialProvider;
+
+  private watcher?: fs.FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+  private reloadListeners: CredentialReloadListener[] = [];
+
+  /**
+   * @throws Error if the file cannot be read or is invalid at startup
+   */
+  constructor(private filePath: string) {
+    this.current = this.load();
+  }
+
+  async findApiKeysByPrefix(keyPrefix: string): Promise<ApiKeyRecord[]> {
+    return this.current.findApiKeysByPrefix(keyPrefix);
+  }
+
+  async findApiKeyById(apiKeyId: string): Promise<ApiKeyRecord | null> {
+    return this.current.findApiKeyById(apiKeyId);
+  }
+
+  async getInbox(inboxId: string): Promise<InboxRecord | null> {
+    return this.current.getInbox(inboxId);
+  }
+
+  async listInboxes(organizationId: string): Promise<InboxRecord[]> {
+    return this.current.listInboxes(organizationId);
+  }
+
+  /**
+   * Register a listener for successful reloads (e.g. to drop cached auth
+   * results of the changed records).
+   */
+  onReload(listener: CredentialReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  private load(): InMemoryCredentialProvider {
+    const provider = parseCredentialFile(fs.readFileSync(this.filePath, 'utf8'), this.filePath);
+    Logger.info('Credentials file loaded', { filePath: this.filePath, ...provider.getCounts() });
+    return provider;
+  }
+
+  /**
+   * Re-read the file. Never throws: on failure the last good credentials are kept.
+   */
+  reload(): void {
+    const previous = this.current;
+    try {
+      this.current = this.load();
+    } catch (error) {
+      Logger.error('Credentials file reload failed, keeping last good credentials', {
+        filePath: this.filePath,
+        error: (error as Error).message
+      });
+      return;
+    }
+
+    const changes = diffCredentials(previous, this.current);
+    for (const listener of this.reloadListeners) {
+      listener(changes);
+    }
+  }
+
+  /**
+   * Watch the file and reload on change.
+   *
+   * The containing directory is watched so that editors and deploy tools
+   * that replace the file (write + rename) are picked up.
+   */
+  watch(): void {
+    const directory = path.dirname(path.resolve(this.filePath));
+    const fileName = path.basename(this.filePath);
+
+    try {
+      this.watcher = fs.watch(directory, (_event, changed) => {
+        if (!changed || changed.toString() === fileName) {
+          this.scheduleReload();
+        }
+      });
+      this.watcher.on('error', error => {
+        Logger.error('Credentials file watcher error', { filePath: this.filePath, error: error.message });
+      });
+      this.watcher.unref();
+      Logger.info('Watching credentials file', { filePath: this.filePath });
+    } catch (error) {
+      Logger.error('Failed to watch credentials file', {
+        filePath: this.filePath,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reload();
+    }, RELOAD_DEBOUNCE_MS);
+    this.reloadTimer.unref();
+  }
+
+  /**
+   * Stop watching (for graceful shutdown).
+   */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+  }
+}
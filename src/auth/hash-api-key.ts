@@ -0,0 +1,27 @@
+/**
+ * Print the credentials-file fields for an API key.
+ *
+ * Usage: npm run hash-api-key -- am_...
+ *
+ * Paste the output into an api_keys entry of CREDENTIALS_FILE in place
+ * of a raw `key` field. The scram_* lines are optional; without them the
+ * key cannot be used with SCRAM-SHA-256.
+ */
+
+import { API_KEY_REGEX } from './validator';
+import { getApiKeyPrefix, hashApiKey } from './api-key-hash';
+import { createScramCredential } from './scram';
+
+const apiKey = process.argv[2];
+
+if (!apiKey || !API_KEY_REGEX.test(apiKey)) {
+  console.error('Usage: npm run hash-api-key -- <api key (am_...)>');
+  process.exit(1);
+}
+
+console.log(`key_prefix: ${getApiKeyPrefix(apiKey)}`);
+console.log(`key_hash: ${hashApiKey(apiKey)}`);
+
+const scram = createScramCredential(apiKey);
+console.log(`scram_sha256: ${scram.scram_sha256}`);
+console.log(`scram_sealed_key: ${scram.scram_sealed_key}`);
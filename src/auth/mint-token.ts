@@ -0,0 +1,38 @@
+/**
+ * Print an HS256 bearer token for XOAUTH2/OAUTHBEARER testing.
+ *
+ * Usage: OAUTH_HMAC_SECRET=... npm run mint-token -- <org_id> [inbox_id] [ttl seconds]
+ *
+ * The token carries scope smtp:send and is accepted by LocalJwtVerifier
+ * configured with the same secret (and OAUTH_ISSUER/OAUTH_AUDIENCE, if set).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+
+const [organizationId, inboxId, ttlArg] = process.argv.slice(2);
+const secret = config.auth.oauth.hmacSecret;
+
+if (!organizationId || !secret) {
+  console.error('Usage: OAUTH_HMAC_SECRET=... npm run mint-token -- <org_id> [inbox_id] [ttl seconds]');
+  process.exit(1);
+}
+
+const now = Math.floor(Date.now() / 1000);
+const payload: Record<string, unknown> = {
+  sub: inboxId || organizationId,
+  org_id: organizationId,
+  scope: 'smtp:send',
+  jti: crypto.randomUUID(),
+  iat: now,
+  exp: now + parseInt(ttlArg || '3600')
+};
+if (inboxId) payload.inbox_id = inboxId;
+if (config.auth.oauth.issuer) payload.iss = config.auth.oauth.issuer;
+if (config.auth.oauth.audience) payload.aud = config.auth.oauth.audience;
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const signingInput = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+const signature = crypto.createHmac('sha256', secret).update(signingInput).digest('base64url');
+
+console.log(`${signingInput}.${signature}`);
@@ -0,0 +1,285 @@
+/**
+ * Additional SASL Mechanisms for smtp-server
+ *
+ * smtp-server dispatches "AUTH <METHOD>" to SASL_<METHOD> handlers in its
+ * lib/sasl module and only offers methods listed in authMethods. This
+ * module adds handlers the library does not ship; they call the same
+ * onAuth hook as the built-in ones.
+ *
+ * The handlers rely on smtp-server internals (lib/sasl, and the
+ * connection's _nextHandler, _server and send), so package.json pins the
+ * exact smtp-server version. tests/sasl-mechanisms.test.ts runs every
+ * mechanism through a real SMTPServer; it must pass before the pin moves.
+ *
+ * Mechanisms:
+ * - OAUTHBEARER (RFC 7628). Like the built-in XOAUTH2, a rejected token
+ *   gets a 334 error challenge (base64 JSON with status/scope); the client
+ *   answers with a single ^A and then receives 535 5.7.8.
+ * - SCRAM-SHA-256 (RFC 5802/7677). The proof is checked here against the
+ *   stored verifier; onAuth then receives the API key recovered from it as
+ *   `password` (empty if the proof failed) and runs the usual checks. On
+ *   success the server-final-message goes out in a 334 and 235 follows
+ *   the client's (empty) reply.
+ *
+ * CRAM-MD5 is deliberately not offered: the server would need the raw key
+ * (or an equivalent) to check the response, which the hashed credential
+ * store does not keep.
+ */
+
+import crypto from 'crypto';
+import { SMTPServerAuthentication, SMTPServerAuthenticationResponse, SMTPServerSession } from 'smtp-server';
+import {
+  SCRAM_MECHANISM,
+  ScramCredential,
+  ScramServerExchange,
+  createDecoyCredential,
+  parseClientFirst
+} from './scram';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SaslCallback = () => void;
+
+/**
+ * The parts of smtp-server's SMTPConnection a SASL handler uses
+ * (handlers are invoked with the connection as `this`).
+ */
+interface SaslConnection {
+  session: SMTPServerSession;
+  _nextHandler: ((data: Buffer | string, callback: SaslCallback) => void) | false;
+  _server: {
+    onAuth(
+      auth: Pick<SMTPServerAuthentication, 'username' | 'password' | 'accessToken'> & { method: string },
+      session: SMTPServerSession,
+      callback: (err: (Error & { responseCode?: number }) | null | undefined, response?: SMTPServerAuthenticationResponse) => void
+    ): void;
+  };
+  send(code: number, data?: string): void;
+  _transmissionType(): string;
+}
+
+type SaslHandler = (this: SaslConnection, args: string[], callback: SaslCallback) => void;
+
+/**
+ * Find the SCRAM credential for an authcid (api_key_id).
+ *
+ * @returns null if there is no such key or it has no SCRAM credential
+ */
+export type ScramCredentialLookup = (username: string) => Promise<ScramCredential | null>;
+
+export interface SaslMechanismOptions {
+  /** Enables SCRAM-SHA-256 */
+  scramLookup?: ScramCredentialLookup;
+}
+
+// ============================================================================
+// OAUTHBEARER (RFC 7628)
+// ============================================================================
+
+/**
+ * Parse an OAUTHBEARER client response:
+ *   gs2-header ^A *(key "=" value ^A) ^A
+ * where gs2-header is "n,a=<authzid>," (authzid optional, "=2C"/"=3D"
+ * escape "," and "=").
+ *
+ * @returns authzid and bearer token, or null if malformed
+ */
+function parseOAuthBearer(message: string): { username: string; accessToken: string } | null {
+  const [gs2Header, ...pairs] = message.split('\x01');
+
+  const gs2 = /^[nyp][^,]*,(?:a=([^,]*))?,$/.exec(gs2Header || '');
+  if (!gs2) {
+    return null;
+  }
+  const username = (gs2[1] || '').replace(/=2C/g, ',').replace(/=3D/g, '=');
+
+  let accessToken = '';
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).toLowerCase() === 'auth') {
+      const match = /^bearer\s+(.+)$/i.exec(pair.slice(separator + 1).trim());
+      accessToken = match ? match[1] : '';
+    }
+  }
+
+  return accessToken ? { username, accessToken } : null;
+}
+
+function oauthBearerToken(this: SaslConnection, canAbort: boolean, token: Buffer | string, callback: SaslCallback): void {
+  const encoded = (token || '').toString().trim();
+
+  if (canAbort && encoded === '*') {
+    this.send(501, 'Authentication aborted');
+    return callback();
+  }
+
+  const credentials = parseOAuthBearer(Buffer.from(encoded, 'base64').toString());
+  if (!credentials) {
+    this.send(500, 'Error: invalid userdata');
+    return callback();
+  }
+
+  this._server.onAuth(
+    { method: 'OAUTHBEARER', username: credentials.username, accessToken: credentials.accessToken },
+    this.session,
+    (err, response) => {
+      if (err) {
+        this.send(err.responseCode || 535, err.message);
+        return callback();
+      }
+
+      if (!response?.user) {
+        // RFC 7628 3.2.2: error challenge, then fail once the client sends ^A
+        this._nextHandler = (_data, next) => {
+          this.send(535, '5.7.8 Authentication credentials invalid');
+          next();
+        };
+        this.send(334, Buffer.from(JSON.stringify(response?.data || { status: 'invalid_token' })).toString('base64'));
+        return callback();
+      }
+
+      this.session.user = response.user;
+      this.session.transmissionType = this._transmissionType();
+
+      this.send(235, 'Authentication successful');
+      callback();
+    }
+  );
+}
+
+const SASL_OAUTHBEARER: SaslHandler = function (args, callback) {
+  if (args.length > 1) {
+    this.send(501, 'Error: syntax: AUTH OAUTHBEARER [initial-response]');
+    return callback();
+  }
+
+  if (!args.length) {
+    this._nextHandler = oauthBearerToken.bind(this, true);
+    this.send(334);
+    return callback();
+  }
+
+  oauthBearerToken.call(this, false, args[0], callback);
+};
+
+// ============================================================================
+// SCRAM-SHA-256 (RFC 5802 / RFC 7677)
+// ============================================================================
+
+/** Salts decoy credentials for unknown usernames */
+const decoySecret = crypto.randomBytes(32);
+
+function createScramHandler(lookup: ScramCredentialLookup): SaslHandler {
+
+  function clientFirst(this: SaslConnection, canAbort: boolean, token: Buffer | string, callback: SaslCallback): void {
+    const encoded = (token || '').toString().trim();
+
+    if (canAbort && encoded === '*') {
+      this.send(501, 'Authentication aborted');
+      return callback();
+    }
+
+    const message = parseClientFirst(Buffer.from(encoded, 'base64').toString());
+    if (!message) {
+      this.send(501, '5.5.2 Invalid SCRAM client-first-message');
+      return callback();
+    }
+
+    lookup(message.username)
+      .then(credential => {
+        // Unknown keys get a decoy so the reply does not reveal which keys exist
+        const exchange = new ScramServerExchange(
+          message,
+          credential || createDecoyCredential(message.username, decoySecret)
+        );
+        this._nextHandler = clientFinal.bind(this, exchange, message.authzid);
+        this.send(334, Buffer.from(exchange.serverFirst()).toString('base64'));
+        callback();
+      })
+      .catch(() => {
+        this.send(454, '4.7.0 Temporary authentication failure');
+        callback();
+      });
+  }
+
+  function clientFinal(
+    this: SaslConnection,
+    exchange: ScramServerExchange,
+    authzid: string,
+    token: Buffer | string,
+    callback: SaslCallback
+  ): void {
+    const encoded = (token || '').toString().trim();
+
+    if (encoded === '*') {
+      this.send(501, 'Authentication aborted');
+      return callback();
+    }
+
+    const verified = exchange.verifyClientFinal(Buffer.from(encoded, 'base64').toString());
+
+    this._server.onAuth(
+      { method: SCRAM_MECHANISM, username: authzid, password: verified?.apiKey || '' },
+      this.session,
+      (err, response) => {
+        if (err) {
+          this.send(err.responseCode || 535, err.message);
+          return callback();
+        }
+
+        if (!verified || !response?.user) {
+          this.send(535, '5.7.8 Authentication credentials invalid');
+          return callback();
+        }
+
+        // Server signature proves the server knew the verifier; client acks with an empty line
+        this._nextHandler = (data, next) => {
+          if ((data || '').toString().trim() === '*') {
+            this.send(501, 'Authentication aborted');
+            return next();
+          }
+          this.session.user = response.user;
+          this.session.transmissionType = this._transmissionType();
+          this.send(235, 'Authentication successful');
+          next();
+        };
+        this.send(334, Buffer.from(verified.serverFinal).toString('base64'));
+        callback();
+      }
+    );
+  }
+
+  return function (args, callback) {
+    if (args.length > 1) {
+      this.send(501, `Error: syntax: AUTH ${SCRAM_MECHANISM} [initial-response]`);
+      return callback();
+    }
+
+    if (!args.length) {
+      this._nextHandler = clientFirst.bind(this, true);
+      this.send(334);
+      return callback();
+    }
+
+    clientFirst.call(this, false, args[0], callback);
+  };
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Add the extra mechanisms to smtp-server's handler table. Idempotent;
+ * each mechanism is still only offered where listed in authMethods.
+ */
+export function registerSaslMechanisms(options: SaslMechanismOptions = {}): void {
+  // Internal module; not covered by @types/smtp-server
+  const sasl: Record<string, SaslHandler> = require('smtp-server/lib/sasl');
+  sasl.SASL_OAUTHBEARER = SASL_OAUTHBEARER;
+  if (options.scramLookup) {
+    sasl[`SASL_${SCRAM_MECHANISM}`] = createScramHandler(options.scramLookup);
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * SCRAM-SHA-256 (RFC 5802 / RFC 7677)
+ *
+ * Challenge-response authentication: the client proves it knows the API
+ * key without sending it, so clients that cannot use TLS no longer expose
+ * the key on the wire.
+ *
+ * Stored per API key (see ApiKeyRecord):
+ * - scram_sha256: the SCRAM verifier,
+ *     SCRAM-SHA-256$<iterations>:<salt b64>$<StoredKey b64>:<ServerKey b64>
+ *   (the PostgreSQL layout). It cannot be used to log in.
+ * - scram_sealed_key: the API key encrypted under a key derived from the
+ *   SCRAM ClientKey. The server only learns ClientKey from a valid proof,
+ *   so the raw key (needed for the AgentMail API call after DATA) can be
+ *   recovered only during a successful login.
+ *
+ * SCRAM names the credential, not the inbox: the authcid is the API key's
+ * api_key_id (not its key_prefix, which is part of the secret) and the
+ * authzid is the inbox_id to send as.
+ *
+ * Channel binding (SCRAM-SHA-256-PLUS) is not offered.
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCRAM_MECHANISM = 'SCRAM-SHA-256';
+
+/** PBKDF2 iterations for new verifiers (RFC 7677 minimum) */
+const SCRAM_ITERATIONS = 4096;
+const SALT_BYTES = 16;
+const NONCE_BYTES = 18;
+const SEAL_INFO = 'agentmail-smtp scram sealed key';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Server-side SCRAM credential for one API key
+ */
+export interface ScramCredential {
+  iterations: number;
+  salt: Buffer;
+  storedKey: Buffer;
+  serverKey: Buffer;
+  /** API key sealed under the ClientKey */
+  sealedKey: string;
+}
+
+/**
+ * Parsed client-first-message
+ */
+export interface ScramClientFirst {
+  /** gs2-header, echoed back base64-encoded in the client-final c= attribute */
+  gs2Header: string;
+  /** Requested authorization identity (inbox_id), may be empty */
+  authzid: string;
+  /** Authentication identity (api_key_id) */
+  username: string;
+  clientNonce: string;
+  /** client-first-message-bare, part of the AuthMessage */
+  bare: string;
+}
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+function hmac(key: Buffer, data: string | Buffer): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+function xor(a: Buffer, b: Buffer): Buffer {
+  const result = Buffer.alloc(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] ^ b[i];
+  }
+  return result;
+}
+
+function saltedPassword(apiKey: string, salt: Buffer, iterations: number): Buffer {
+  return crypto.pbkdf2Sync(apiKey, salt, iterations, 32, 'sha256');
+}
+
+function sealingKey(clientKey: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', clientKey, Buffer.alloc(0), SEAL_INFO, 32));
+}
+
+/** RFC 5802 saslname: "=2C" and "=3D" escape "," and "=" */
+function decodeSaslName(value: string): string | null {
+  if (/=(?!2C|3D)/.test(value)) {
+    return null;
+  }
+  return value.replace(/=2C/g, ',').replace(/=3D/g, '=');
+}
+
+/** Split "k=v,k=v" attributes, keeping order */
+function parseAttributes(message: string): Array<[string, string]> | null {
+  const attributes: Array<[string, string]> = [];
+  for (const part of message.split(',')) {
+    const match = /^([a-zA-Z])=(.*)$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    attributes.push([match[1], match[2]]);
+  }
+  return attributes;
+}
+
+// ============================================================================
+// STORED CREDENTIALS
+// ============================================================================
+
+/**
+ * Derive the stored SCRAM fields for a raw API key (fresh salt unless one
+ * is given).
+ */
+export function createScramCredential(
+  apiKey: string,
+  salt: Buffer = crypto.randomBytes(SALT_BYTES)
+): { scram_sha256: string; scram_sealed_key: string } {
+  const salted = saltedPassword(apiKey, salt, SCRAM_ITERATIONS);
+  const clientKey = hmac(salted, 'Client Key');
+  const serverKey = hmac(salted, 'Server Key');
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', sealingKey(clientKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+
+  return {
+    scram_sha256: `${SCRAM_MECHANISM}$${SCRAM_ITERATIONS}:${salt.toString('base64')}$` +
+      `${sha256(clientKey).toString('base64')}:${serverKey.toString('base64')}`,
+    scram_sealed_key: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+  };
+}
+
+/**
+ * Parse stored SCRAM fields.
+ *
+ * @returns null if either field is missing or malformed
+ */
+export function parseScramCredential(verifier: string | undefined, sealedKey: string | undefined): ScramCredential | null {
+  const match = /^SCRAM-SHA-256\$(\d+):([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+)$/.exec(verifier || '');
+  if (!match || !sealedKey) {
+    return null;
+  }
+
+  const credential = {
+    iterations: parseInt(match[1]),
+    salt: Buffer.from(match[2], 'base64'),
+    storedKey: Buffer.from(match[3], 'base64'),
+    serverKey: Buffer.from(match[4], 'base64'),
+    sealedKey
+  };
+  if (credential.iterations < SCRAM_ITERATIONS || credential.storedKey.length !== 32 || credential.serverKey.length !== 32) {
+    return null;
+  }
+  return credential;
+}
+
+/**
+ * Credential to run the exchange with when the username is unknown, so
+ * the server-first-message does not reveal whether the key exists. The
+ * salt is stable per username; no proof can match it.
+ */
+export function createDecoyCredential(username: string, secret: Buffer): ScramCredential {
+  return {
+    iterations: SCRAM_ITERATIONS,
+    salt: hmac(secret, username).subarray(0, SALT_BYTES),
+    storedKey: crypto.randomBytes(32),
+    serverKey: crypto.randomBytes(32),
+    sealedKey: ''
+  };
+}
+
+// ============================================================================
+// SERVER EXCHANGE
+// ============================================================================
+
+/**
+ * Parse a client-first-message. Only "n" and "y" gs2 flags are accepted
+ * (no channel binding).
+ *
+ * @returns null if malformed
+ */
+export function parseClientFirst(message: string): ScramClientFirst | null {
+  const gs2 = /^([ny]),(?:a=([^,]*))?,(.*)$/.exec(message);
+  if (!gs2) {
+    return null;
+  }
+
+  const bare = gs2[3];
+  const attributes = parseAttributes(bare);
+  if (!attributes || attributes.length < 2 || attributes[0][0] !== 'n' || attributes[1][0] !== 'r') {
+    return null;
+  }
+
+  const authzid = decodeSaslName(gs2[2] || '');
+  const username = decodeSaslName(attributes[0][1]);
+  const clientNonce = attributes[1][1];
+  if (authzid === null || username === null || !clientNonce || /[^\x21-\x2b\x2d-\x7e]/.test(clientNonce)) {
+    return null;
+  }
+
+  return {
+    gs2Header: `${gs2[1]},${gs2[2] !== undefined ? `a=${gs2[2]}` : ''},`,
+    authzid,
+    username,
+    clientNonce,
+    bare
+  };
+}
+
+/**
+ * One SCRAM-SHA-256 exchange, from server-first to server-final.
+ *
+ * The server nonce is random; it is a parameter only so the RFC 7677 test
+ * vector can be replayed.
+ */
+export class ScramServerExchange {
+  private nonce: string;
+  private serverFirstMessage: string;
+
+  constructor(
+    private clientFirst: ScramClientFirst,
+    private credential: ScramCredential,
+    serverNonce: string = crypto.randomBytes(NONCE_BYTES).toString('base64')
+  ) {
+    this.nonce = clientFirst.clientNonce + serverNonce;
+    this.serverFirstMessage = `r=${this.nonce},s=${credential.salt.toString('base64')},i=${credential.iterations}`;
+  }
+
+  /**
+   * server-first-message (sent base64-encoded in a 334)
+   */
+  serverFirst(): string {
+    return this.serverFirstMessage;
+  }
+
+  /**
+   * Check the client-final-message proof.
+   *
+   * @returns The recovered API key and the server-final-message, or null
+   *          if the message is malformed or the proof does not verify
+   */
+  verifyClientFinal(message: string): { apiKey: string; serverFinal: string } | null {
+    const proofIndex = message.lastIndexOf(',p=');
+    if (proofIndex < 0) {
+      return null;
+    }
+    const withoutProof = message.substring(0, proofIndex);
+    const attributes = parseAttributes(withoutProof);
+    if (!attributes || attributes.length < 2 || attributes[0][0] !== 'c' || attributes[1][0] !== 'r') {
+      return null;
+    }
+
+    // Channel binding data must echo the gs2-header, and the nonce must be ours
+    if (attributes[0][1] !== Buffer.from(this.clientFirst.gs2Header).toString('base64') ||
+        attributes[1][1] !== this.nonce) {
+      return null;
+    }
+
+    const proof = Buffer.from(message.substring(proofIndex + 3), 'base64');
+    if (proof.length !== 32) {
+      return null;
+    }
+
+    const authMessage = `${this.clientFirst.bare},${this.serverFirstMessage},${withoutProof}`;
+    const clientSignature = hmac(this.credential.storedKey, authMessage);
+    const clientKey = xor(proof, clientSignature);
+
+    if (!crypto.timingSafeEqual(sha256(clientKey), this.credential.storedKey)) {
+      return null;
+    }
+
+    const apiKey = this.unseal(clientKey);
+    if (apiKey === null) {
+      return null;
+    }
+
+    const serverSignature = hmac(this.credential.serverKey, authMessage);
+    return { apiKey, serverFinal: `v=${serverSignature.toString('base64')}` };
+  }
+
+  private unseal(clientKey: Buffer): string | null {
+    const sealed = Buffer.from(this.credential.sealedKey, 'base64');
+    if (sealed.length <= 28) {
+      return null;
+    }
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', sealingKey(clientKey), sealed.subarray(0, 12));
+      decipher.setAuthTag(sealed.subarray(12, 28));
+      return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+}
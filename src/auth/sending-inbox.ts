@@ -0,0 +1,64 @@
+/**
+ * Sending Inbox Resolution
+ *
+ * An organization-wide session (AuthScope 'organization') is not bound to
+ * one inbox: each message names the inbox it is sent from, by its MAIL FROM
+ * address or, for a null sender, its From: header. The address must belong
+ * to an active inbox of the session's organization.
+ *
+ * An address matches an inbox by email_address (case-insensitive) or by
+ * inbox_id, since current inbox IDs are the address itself.
+ */
+
+import { CredentialProvider } from './credential-provider';
+import { AgentMailClient, AgentMailAPIError } from '../api/agentmail-client';
+import { SendingInbox } from '../session';
+import Logger from '../utils/logger';
+
+/**
+ * Find the organization's active inbox for an address in a CredentialProvider.
+ *
+ * @returns The inbox, or null if the organization does not own the address
+ */
+export async function findOrganizationInbox(
+  organizationId: string,
+  address: string,
+  provider: CredentialProvider
+): Promise<SendingInbox | null> {
+  const wanted = address.toLowerCase();
+  const inbox = (await provider.listInboxes(organizationId)).find(candidate =>
+    candidate.email_address.toLowerCase() === wanted || candidate.inbox_id.toLowerCase() === wanted
+  );
+
+  if (!inbox) {
+    return null;
+  }
+  if (inbox.status !== 'active') {
+    Logger.warn('Sending inbox is not active', { inbox_id: inbox.inbox_id, status: inbox.status });
+    return null;
+  }
+  return { inbox_id: inbox.inbox_id, email_address: inbox.email_address };
+}
+
+/**
+ * Find the inbox for an address with the AgentMail API (AUTH_MODE=api).
+ * The API only returns inboxes of the key's organization, so a 404 means
+ * the organization does not own the address.
+ *
+ * @returns The inbox, or null if the organization does not own the address
+ * @throws AgentMailAPIError for any other API failure
+ */
+export async function findOrganizationInboxLive(
+  address: string,
+  client: AgentMailClient
+): Promise<SendingInbox | null> {
+  try {
+    const inbox = await client.getInbox(address);
+    return { inbox_id: inbox.inboxId, email_address: inbox.email };
+  } catch (error) {
+    if (error instanceof AgentMailAPIError && error.httpStatus === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
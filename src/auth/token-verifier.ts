@@ -0,0 +1,215 @@
+/**
+ * Bearer Token Verification (XOAUTH2 / OAUTHBEARER)
+ *
+ * Some agent platforms hold short-lived OAuth-style access tokens instead
+ * of long-lived am_ keys. A TokenVerifier turns such a token into claims
+ * the validator can check, or an AuthErrorCode explaining the rejection.
+ *
+ * Implementations:
+ * - LocalJwtVerifier - JWTs signed with a shared HMAC secret (HS256) or a
+ *   local JWKS (RS256/ES256). No network calls, so it suits tests and
+ *   deployments where the issuer's keys are distributed out of band.
+ *
+ * Expected claims:
+ *   sub      Token subject (logged)
+ *   org_id   AgentMail organization_id the token acts for (required)
+ *   scope    Space-separated scopes; must include smtp:send
+ *   inbox_id Optional: restrict the token to one inbox
+ *   exp      Expiry (required), nbf optional
+ *   jti      Token ID (logged in place of api_key_id)
+ */
+
+import crypto from 'crypto';
+import { AuthErrorCode } from './errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Claims extracted from a verified token
+ */
+export interface BearerTokenClaims {
+  subject: string;
+  organization_id: string;
+  /** Inbox the token is restricted to, if any */
+  inbox_id?: string;
+  scopes: string[];
+  /** jti, falling back to sub */
+  token_id: string;
+  expires_at: Date;
+}
+
+export type TokenVerification =
+  | { valid: true; claims: BearerTokenClaims }
+  | { valid: false; code: AuthErrorCode; reason: string };
+
+/**
+ * Pluggable bearer token verifier.
+ *
+ * verify() should only throw for infrastructure failures (e.g. an
+ * unreachable key server); the validator maps that to SERVICE_UNAVAILABLE.
+ */
+export interface TokenVerifier {
+  verify(token: string): Promise<TokenVerification>;
+}
+
+export interface LocalJwtVerifierOptions {
+  /** Shared secret for HS256 tokens */
+  hmacSecret?: string;
+  /** Public keys for RS256/ES256 tokens, selected by kid */
+  jwks?: { keys: crypto.JsonWebKey[] };
+  /** Required iss claim, if set */
+  issuer?: string;
+  /** Required aud claim (string or array member), if set */
+  audience?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Allowed clock difference for exp/nbf */
+const CLOCK_SKEW_SECONDS = 30;
+
+// ============================================================================
+// LOCAL JWT VERIFIER
+// ============================================================================
+
+function reject(code: AuthErrorCode, reason: string): TokenVerification {
+  return { valid: false, code, reason };
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export class LocalJwtVerifier implements TokenVerifier {
+  private publicKeys: Map<string, crypto.KeyObject> = new Map();
+
+  /**
+   * @throws Error if a JWKS key cannot be imported
+   */
+  constructor(private options: LocalJwtVerifierOptions) {
+    for (const jwk of options.jwks?.keys || []) {
+      const kid = typeof jwk.kid === 'string' ? jwk.kid : '';
+      this.publicKeys.set(kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+
+  async verify(token: string): Promise<TokenVerification> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, 'Token is not a JWT');
+    }
+
+    const [headerSegment, payloadSegment, signatureSegment] = segments;
+    const header = decodeSegment(headerSegment);
+    const payload = decodeSegment(payloadSegment);
+    if (!header || !payload) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, 'Token header or payload is not JSON');
+    }
+
+    // ─────────────────────────────────────────────────────────────────────
+    // Signature
+    // ─────────────────────────────────────────────────────────────────────
+
+    const signedData = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = Buffer.from(signatureSegment, 'base64url');
+
+    if (!this.verifySignature(header, signedData, signature)) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, `Signature invalid (alg=${String(header.alg)}, kid=${String(header.kid)})`);
+    }
+
+    // ─────────────────────────────────────────────────────────────────────
+    // Registered claims
+    // ─────────────────────────────────────────────────────────────────────
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof payload.exp !== 'number') {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, 'Token has no exp claim');
+    }
+    if (payload.exp + CLOCK_SKEW_SECONDS < now) {
+      return reject(AuthErrorCode.API_KEY_EXPIRED, `Token expired at ${new Date(payload.exp * 1000).toISOString()}`);
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, 'Token is not valid yet (nbf)');
+    }
+    if (this.options.issuer && payload.iss !== this.options.issuer) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, `Unexpected issuer: ${String(payload.iss)}`);
+    }
+    if (this.options.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.options.audience)) {
+        return reject(AuthErrorCode.API_KEY_NOT_FOUND, `Unexpected audience: ${String(payload.aud)}`);
+      }
+    }
+
+    // ─────────────────────────────────────────────────────────────────────
+    // AgentMail claims
+    // ─────────────────────────────────────────────────────────────────────
+
+    if (typeof payload.org_id !== 'string' || !payload.org_id) {
+      return reject(AuthErrorCode.API_KEY_NOT_FOUND, 'Token has no org_id claim');
+    }
+
+    const subject = typeof payload.sub === 'string' ? payload.sub : '';
+
+    return {
+      valid: true,
+      claims: {
+        subject,
+        organization_id: payload.org_id,
+        inbox_id: typeof payload.inbox_id === 'string' ? payload.inbox_id : undefined,
+        scopes: typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [],
+        token_id: typeof payload.jti === 'string' ? payload.jti : subject,
+        expires_at: new Date(payload.exp * 1000)
+      }
+    };
+  }
+
+  /**
+   * Check the signature for the header's alg. HS256 is only accepted when
+   * a secret is configured and RS/ES only with a JWKS key of the matching
+   * type, so a public key can never be used as an HMAC secret and an EC
+   * key is not taken for an RS256 signature.
+   */
+  private verifySignature(header: Record<string, unknown>, data: Buffer, signature: Buffer): boolean {
+    switch (header.alg) {
+      case 'HS256': {
+        if (!this.options.hmacSecret) {
+          return false;
+        }
+        const expected = crypto.createHmac('sha256', this.options.hmacSecret).update(data).digest();
+        return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+      }
+      case 'RS256':
+      case 'ES256': {
+        const key = this.publicKeys.get(typeof header.kid === 'string' ? header.kid : '');
+        if (!key || key.asymmetricKeyType !== (header.alg === 'ES256' ? 'ec' : 'rsa')) {
+          return false;
+        }
+        try {
+          return crypto.verify(
+            'sha256',
+            data,
+            header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+            signature
+          );
+        } catch {
+          // Malformed signature
+          return false;
+        }
+      }
+      default:
+        // Including "none"
+        return false;
+    }
+  }
+}
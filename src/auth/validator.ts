@@ -4,7 +4,8 @@
  * Based on SMTP_SERVER_RESEARCH.md Section 3.1
  *
  * Validates:
- * - inbox_id format (username)
+ * - inbox_id format (username), or organization_id for an
+ *   organization-wide login (see AuthScope)
  * - API key format (password)
  * - API key exists and is valid (not revoked/expired)
  * - Inbox exists and is active
@@ -12,6 +13,15 @@
  *
  * SECURITY: All auth failures return same generic message (535 5.7.8)
  * to prevent information leakage. Detailed errors logged internally only.
+ * API keys are matched against stored salted hashes in constant time;
+ * the raw key is never used as a lookup key.
+ *
+ * Two modes (config.auth.mode):
+ * - local: validateSMTPCredentials() against a CredentialProvider
+ * - api:   validateSMTPCredentialsLive() asks the AgentMail API itself
+ *
+ * XOAUTH2 / OAUTHBEARER sessions present a bearer token instead of an
+ * API key; validateSMTPBearerToken() checks it with a TokenVerifier.
  */
 
 import {
@@ -20,7 +30,11 @@ import {
   AuthenticatedUser,
   createAuthError
 } from './errors';
-import { getApiKey, getInbox } from '../mock/database';
+import { ApiKeyRecord, CredentialProvider, InboxRecord } from './credential-provider';
+import { getApiKeyPrefix, verifyApiKey } from './api-key-hash';
+import { TokenVerification, TokenVerifier } from './token-verifier';
+import { AgentMail } from 'agentmail';
+import { AgentMailClient, AgentMailAPIError } from '../api/agentmail-client';
 import Logger from '../utils/logger';
 
 // ============================================================================
@@ -34,6 +48,13 @@ import Logger from '../utils/logger';
  */
 const INBOX_ID_REGEX = /^(inb_[a-zA-Z0-9]{12,32}|[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})$/;
 
+/**
+ * organization_id format (organization-wide login):
+ * - org_ + 3-64 characters (e.g., org_abc)
+ * - UUID (e.g., 86afd95b-0e4c-55d5-937b-4f7bc9466e43)
+ */
+const ORG_ID_REGEX = /^(org_[a-zA-Z0-9_-]{3,64}|[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})$/;
+
 /**
  * API key format: am_ + 32-128 hex/alphanumeric characters
  * Example: am_2ae75eca77d883a192f960a6c4c697e1f91b3769f20d0530217868710140d9ea
@@ -52,27 +73,23 @@ function validateApiKeyFormat(apiKey: string): boolean {
   return API_KEY_REGEX.test(apiKey);
 }
 
-// ============================================================================
-// MAIN AUTHENTICATION FUNCTION
-// ============================================================================
+/**
+ * Whether a username asks for an organization-wide session (it names an
+ * organization rather than an inbox).
+ */
+export function isOrganizationUsername(username: string): boolean {
+  return !INBOX_ID_REGEX.test(username) && ORG_ID_REGEX.test(username);
+}
+
+type AuthFailure = Extract<AuthResult, { success: false }>;
 
 /**
- * Validate SMTP credentials (inbox_id + API key)
- *
- * This is the main authentication function called by the SMTP server's onAuth hook.
+ * Step 1, shared by every auth mechanism: reject a malformed inbox_id
+ * (or organization_id) before any lookup.
  *
- * @param username - The inbox_id (e.g., "inb_valid1234567890")
- * @param password - The API key (e.g., "am_validkey12345678901234567890123456")
- * @returns AuthResult with either authenticated user or error details
+ * @returns A failed AuthResult, or null if the format is valid
  */
-export async function validateSMTPCredentials(
-  username: string,
-  password: string
-): Promise<AuthResult> {
-
-  // ─────────────────────────────────────────────────────────────────────────
-  // STEP 1: Validate inbox_id format
-  // ─────────────────────────────────────────────────────────────────────────
+function checkInboxIdFormat(username: string): AuthFailure | null {
   Logger.authStep('Validating inbox_id format', 'OK');
 
   if (!username || typeof username !== 'string') {
@@ -86,7 +103,7 @@ export async function validateSMTPCredentials(
     };
   }
 
-  if (!validateInboxIdFormat(username)) {
+  if (!validateInboxIdFormat(username) && !isOrganizationUsername(username)) {
     Logger.authStep('Validating inbox_id format', 'FAIL');
     return {
       success: false,
@@ -99,6 +116,26 @@ export async function validateSMTPCredentials(
 
   Logger.authStep('Validating inbox_id format', 'OK');
 
+  return null;
+}
+
+/**
+ * Steps 1-2, shared by the API key auth modes: reject malformed
+ * credentials before any lookup.
+ *
+ * @returns A failed AuthResult, or null if both formats are valid
+ */
+function checkCredentialFormats(username: string, password: string): AuthFailure | null {
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 1: Validate inbox_id format
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const inboxIdError = checkInboxIdFormat(username);
+  if (inboxIdError) {
+    return inboxIdError;
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // STEP 2: Validate API key format
   // ─────────────────────────────────────────────────────────────────────────
@@ -127,13 +164,186 @@ export async function validateSMTPCredentials(
 
   Logger.authStep('Validating API key format', 'OK');
 
+  return null;
+}
+
+// ============================================================================
+// SHARED INBOX CHECKS
+// ============================================================================
+
+/**
+ * Steps 7-9, shared by API keys and bearer tokens: the inbox exists, is
+ * active and belongs to the credential's organization.
+ *
+ * @param credential - What the organization came from, for log messages
+ * @returns The inbox, or a failed AuthResult
+ */
+async function checkInbox(
+  username: string,
+  organizationId: string,
+  credential: string,
+  provider: CredentialProvider
+): Promise<InboxRecord | AuthFailure> {
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 7: Look up inbox in database
+  // ─────────────────────────────────────────────────────────────────────────
+
+  let inbox: InboxRecord | null;
+  try {
+    inbox = await provider.getInbox(username);
+  } catch (dbError) {
+    Logger.authStep('Looking up inbox', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.DATABASE_ERROR,
+        `Database error looking up inbox: ${(dbError as Error).message}`
+      )
+    };
+  }
+
+  if (!inbox) {
+    Logger.authStep('Looking up inbox', 'NOT_FOUND');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.INBOX_NOT_FOUND,
+        `Inbox not found: ${username}`
+      )
+    };
+  }
+
+  Logger.authStep('Looking up inbox', 'FOUND');
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 8: Check if inbox is active
+  // ─────────────────────────────────────────────────────────────────────────
+
+  if (inbox.status === 'disabled') {
+    Logger.authStep('Checking inbox status', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.INBOX_DISABLED,
+        `Inbox is disabled: ${username}`
+      )
+    };
+  }
+
+  if (inbox.status === 'suspended') {
+    Logger.authStep('Checking inbox status', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.INBOX_SUSPENDED,
+        `Inbox is suspended: ${username}`
+      )
+    };
+  }
+
+  Logger.authStep('Checking inbox status', 'OK');
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 9: Verify inbox belongs to the credential's organization
+  // ─────────────────────────────────────────────────────────────────────────
+
+  if (inbox.organization_id !== organizationId) {
+    Logger.authStep('Checking organization match', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.INBOX_ORG_MISMATCH,
+        `Inbox org (${inbox.organization_id}) != ${credential} org (${organizationId})`
+      )
+    };
+  }
+
+  Logger.authStep('Checking organization match', 'OK');
+
+  return inbox;
+}
+
+/**
+ * Organization-wide login, in place of steps 7-9: the username must be
+ * the credential's own organization. No inbox is bound; the sending inbox
+ * is checked per message.
+ *
+ * @param credential - What the organization came from, for log messages
+ */
+function checkOrganizationLogin(
+  username: string,
+  organizationId: string,
+  credential: string,
+  apiKeyId: string
+): AuthResult {
+  if (username !== organizationId) {
+    Logger.authStep('Checking organization match', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.INBOX_ORG_MISMATCH,
+        `Requested org (${username}) != ${credential} org (${organizationId})`
+      )
+    };
+  }
+
+  Logger.authStep('Checking organization match', 'OK');
+
+  return {
+    success: true,
+    user: {
+      scope: 'organization',
+      organization_id: organizationId,
+      api_key_id: apiKeyId
+    }
+  };
+}
+
+// ============================================================================
+// MAIN AUTHENTICATION FUNCTION
+// ============================================================================
+
+/**
+ * Validate SMTP credentials (inbox_id + API key)
+ *
+ * This is the main authentication function called by the SMTP server's onAuth hook.
+ *
+ * @param username - The inbox_id (e.g., "inb_valid1234567890")
+ * @param password - The API key (e.g., "am_validkey12345678901234567890123456")
+ * @param provider - Source of inbox and API key records
+ * @returns AuthResult with either authenticated user or error details
+ */
+export async function validateSMTPCredentials(
+  username: string,
+  password: string,
+  provider: CredentialProvider
+): Promise<AuthResult> {
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEPS 1-2: Validate inbox_id and API key format
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const formatError = checkCredentialFormats(username, password);
+  if (formatError) {
+    return formatError;
+  }
+
   // ─────────────────────────────────────────────────────────────────────────
   // STEP 3: Look up API key in database
   // ─────────────────────────────────────────────────────────────────────────
 
-  let apiKey;
+  let apiKey: ApiKeyRecord | null = null;
   try {
-    apiKey = await getApiKey(password);
+    const candidates = await provider.findApiKeysByPrefix(getApiKeyPrefix(password));
+
+    // Check every candidate (no early exit) so timing does not reveal
+    // which candidate matched
+    for (const candidate of candidates) {
+      if (verifyApiKey(password, candidate.key_hash) && !apiKey) {
+        apiKey = candidate;
+      }
+    }
   } catch (dbError) {
     Logger.authStep('Looking up API key', 'FAIL');
     return {
@@ -210,100 +420,312 @@ export async function validateSMTPCredentials(
   Logger.authStep('Checking smtp:send permission', 'OK');
 
   // ─────────────────────────────────────────────────────────────────────────
-  // STEP 7: Look up inbox in database
+  // STEPS 7-9: Inbox exists, is active and belongs to the key's organization
+  // (organization-wide login: the username is the key's organization)
   // ─────────────────────────────────────────────────────────────────────────
 
-  let inbox;
+  if (isOrganizationUsername(username)) {
+    return checkOrganizationLogin(username, apiKey.organization_id, 'API key', apiKey.api_key_id);
+  }
+
+  const inbox = await checkInbox(username, apiKey.organization_id, 'API key', provider);
+  if ('success' in inbox) {
+    return inbox;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // SUCCESS: Return authenticated user
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const user: AuthenticatedUser = {
+    scope: 'inbox',
+    inbox_id: inbox.inbox_id,
+    organization_id: inbox.organization_id,
+    email_address: inbox.email_address,
+    api_key_id: apiKey.api_key_id
+  };
+
+  return {
+    success: true,
+    user
+  };
+}
+
+// ============================================================================
+// BEARER TOKEN AUTHENTICATION (XOAUTH2 / OAUTHBEARER)
+// ============================================================================
+
+/**
+ * Validate an OAuth bearer token for an inbox
+ *
+ * The token takes the place of steps 2-6: the verifier checks signature
+ * and expiry, and its claims supply the organization and scopes. Steps
+ * 7-9 are the same inbox checks as for API keys.
+ *
+ * @param username - The inbox_id (may be empty if the token names one)
+ * @param token - The bearer token from the SASL exchange
+ * @param verifier - Checks the token and extracts its claims
+ * @param provider - Source of inbox records
+ * @returns AuthResult with either authenticated user or error details
+ */
+export async function validateSMTPBearerToken(
+  username: string,
+  token: string,
+  verifier: TokenVerifier,
+  provider: CredentialProvider
+): Promise<AuthResult> {
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 1: Verify the token
+  // ─────────────────────────────────────────────────────────────────────────
+
+  if (!token) {
+    Logger.authStep('Verifying bearer token', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(AuthErrorCode.INVALID_API_KEY_FORMAT, 'Empty bearer token provided')
+    };
+  }
+
+  let verification: TokenVerification;
   try {
-    inbox = await getInbox(username);
-  } catch (dbError) {
-    Logger.authStep('Looking up inbox', 'FAIL');
+    verification = await verifier.verify(token);
+  } catch (verifierError) {
+    Logger.authStep('Verifying bearer token', 'FAIL');
     return {
       success: false,
       error: createAuthError(
-        AuthErrorCode.DATABASE_ERROR,
-        `Database error looking up inbox: ${(dbError as Error).message}`
+        AuthErrorCode.SERVICE_UNAVAILABLE,
+        `Token verifier error: ${(verifierError as Error).message}`
       )
     };
   }
 
-  if (!inbox) {
-    Logger.authStep('Looking up inbox', 'NOT_FOUND');
+  if (!verification.valid) {
+    Logger.authStep('Verifying bearer token', 'FAIL');
     return {
       success: false,
-      error: createAuthError(
-        AuthErrorCode.INBOX_NOT_FOUND,
-        `Inbox not found: ${username}`
-      )
+      error: createAuthError(verification.code, `Bearer token rejected: ${verification.reason}`)
     };
   }
 
-  Logger.authStep('Looking up inbox', 'FOUND');
+  const { claims } = verification;
+  Logger.authStep('Verifying bearer token', 'OK');
 
   // ─────────────────────────────────────────────────────────────────────────
-  // STEP 8: Check if inbox is active
+  // STEP 2: Resolve and validate inbox_id
   // ─────────────────────────────────────────────────────────────────────────
 
-  if (inbox.status === 'disabled') {
-    Logger.authStep('Checking inbox status', 'FAIL');
+  // The authzid is optional in OAUTHBEARER; fall back to the token's inbox
+  const inboxId = username || claims.inbox_id || '';
+
+  const inboxIdError = checkInboxIdFormat(inboxId);
+  if (inboxIdError) {
+    return inboxIdError;
+  }
+
+  if (claims.inbox_id && claims.inbox_id !== inboxId) {
+    Logger.authStep('Checking token inbox restriction', 'FAIL');
     return {
       success: false,
       error: createAuthError(
-        AuthErrorCode.INBOX_DISABLED,
-        `Inbox is disabled: ${username}`
+        AuthErrorCode.INSUFFICIENT_PERMISSIONS,
+        `Token is restricted to ${claims.inbox_id}, not ${inboxId}`
       )
     };
   }
 
-  if (inbox.status === 'suspended') {
-    Logger.authStep('Checking inbox status', 'FAIL');
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEP 3: Check the token has smtp:send scope
+  // ─────────────────────────────────────────────────────────────────────────
+
+  if (!claims.scopes.includes('smtp:send')) {
+    Logger.authStep('Checking smtp:send permission', 'FAIL');
     return {
       success: false,
       error: createAuthError(
-        AuthErrorCode.INBOX_SUSPENDED,
-        `Inbox is suspended: ${username}`
+        AuthErrorCode.INSUFFICIENT_PERMISSIONS,
+        `Token lacks smtp:send scope. Has: ${claims.scopes.join(', ')}`
       )
     };
   }
 
-  Logger.authStep('Checking inbox status', 'OK');
+  Logger.authStep('Checking smtp:send permission', 'OK');
 
   // ─────────────────────────────────────────────────────────────────────────
-  // STEP 9: Verify inbox belongs to same organization as API key
+  // STEPS 4-6: Inbox exists, is active and belongs to the token's organization
+  // (organization-wide login: the username is the token's organization)
   // ─────────────────────────────────────────────────────────────────────────
 
-  if (inbox.organization_id !== apiKey.organization_id) {
-    Logger.authStep('Checking organization match', 'FAIL');
-    return {
-      success: false,
-      error: createAuthError(
-        AuthErrorCode.INBOX_ORG_MISMATCH,
-        `Inbox org (${inbox.organization_id}) != API key org (${apiKey.organization_id})`
-      )
-    };
+  if (isOrganizationUsername(inboxId)) {
+    return checkOrganizationLogin(inboxId, claims.organization_id, 'token', `token_${claims.token_id}`);
   }
 
-  Logger.authStep('Checking organization match', 'OK');
+  const inbox = await checkInbox(inboxId, claims.organization_id, 'token', provider);
+  if ('success' in inbox) {
+    return inbox;
+  }
 
   // ─────────────────────────────────────────────────────────────────────────
   // SUCCESS: Return authenticated user
   // ─────────────────────────────────────────────────────────────────────────
 
-  const user: AuthenticatedUser = {
-    inbox_id: inbox.inbox_id,
-    organization_id: inbox.organization_id,
-    email_address: inbox.email_address,
-    api_key_id: apiKey.api_key_id
-  };
-
   return {
     success: true,
-    user
+    user: {
+      scope: 'inbox',
+      inbox_id: inbox.inbox_id,
+      organization_id: inbox.organization_id,
+      email_address: inbox.email_address,
+      api_key_id: `token_${claims.token_id}`
+    }
   };
 }
 
+// ============================================================================
+// LIVE API AUTHENTICATION (AUTH_MODE=api)
+// ============================================================================
+
+/**
+ * Map an AgentMail API failure during AUTH onto an AuthErrorCode.
+ *
+ * - 401 → API_KEY_NOT_FOUND (unknown, revoked or expired key)
+ * - 403 → INSUFFICIENT_PERMISSIONS
+ * - 404 → INBOX_NOT_FOUND (missing, or owned by another organization)
+ * - 429 → RATE_LIMITED
+ * - 5xx, timeouts, network errors → SERVICE_UNAVAILABLE (454, retryable)
+ */
+function mapApiAuthError(error: AgentMailAPIError, step: string): AuthErrorCode {
+  const status = error.httpStatus;
+
+  if (status === 401) {
+    Logger.authStep(step, 'NOT_FOUND');
+    return AuthErrorCode.API_KEY_NOT_FOUND;
+  }
+  if (status === 403) {
+    Logger.authStep(step, 'FAIL');
+    return AuthErrorCode.INSUFFICIENT_PERMISSIONS;
+  }
+  if (status === 404) {
+    Logger.authStep(step, 'NOT_FOUND');
+    return AuthErrorCode.INBOX_NOT_FOUND;
+  }
+  if (status === 429) {
+    Logger.authStep(step, 'FAIL');
+    return AuthErrorCode.RATE_LIMITED;
+  }
+
+  Logger.authStep(step, 'FAIL');
+  return AuthErrorCode.SERVICE_UNAVAILABLE;
+}
+
+/**
+ * Validate SMTP credentials against the AgentMail API
+ *
+ * Instead of a local table, the key is used to fetch the inbox: a 200
+ * proves both that the key is live and that it can see the inbox (the
+ * API scopes inboxes to the key's organization, so an org mismatch is a
+ * 404). The organization lookup supplies organization_id for the session.
+ *
+ * @param username - The inbox_id
+ * @param password - The API key
+ * @param client - SDK client built with this API key
+ * @returns AuthResult with either authenticated user or error details
+ */
+export async function validateSMTPCredentialsLive(
+  username: string,
+  password: string,
+  client: AgentMailClient
+): Promise<AuthResult> {
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // STEPS 1-2: Validate inbox_id and API key format
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const formatError = checkCredentialFormats(username, password);
+  if (formatError) {
+    return formatError;
+  }
+
+  try {
+    // ───────────────────────────────────────────────────────────────────────
+    // STEP 3: Fetch inbox with the API key (verifies key + inbox + org)
+    // (skipped for organization-wide login; step 4 verifies the key)
+    // ───────────────────────────────────────────────────────────────────────
+
+    const organizationWide = isOrganizationUsername(username);
+    let step = 'Fetching inbox from AgentMail API';
+    let inbox: AgentMail.inboxes.Inbox | null = null;
+    if (!organizationWide) {
+      try {
+        inbox = await client.getInbox(username);
+      } catch (error) {
+        if (!(error instanceof AgentMailAPIError)) throw error;
+        const code = mapApiAuthError(error, step);
+        return {
+          success: false,
+          error: createAuthError(code, `GET /v0/inboxes/${username} returned HTTP ${error.httpStatus}`)
+        };
+      }
+
+      Logger.authStep(step, 'FOUND');
+    }
+
+    // ───────────────────────────────────────────────────────────────────────
+    // STEP 4: Fetch organization for organization_id
+    // ───────────────────────────────────────────────────────────────────────
+
+    step = 'Fetching organization from AgentMail API';
+    let organization;
+    try {
+      organization = await client.getOrganization();
+    } catch (error) {
+      if (!(error instanceof AgentMailAPIError)) throw error;
+      const code = mapApiAuthError(error, step);
+      return {
+        success: false,
+        error: createAuthError(code, `GET /v0/organizations returned HTTP ${error.httpStatus}`)
+      };
+    }
+
+    Logger.authStep(step, 'FOUND');
+
+    // The API does not expose key IDs; the non-secret prefix identifies the key in logs
+    const apiKeyId = `live_${getApiKeyPrefix(password)}`;
+
+    if (!inbox) {
+      return checkOrganizationLogin(username, organization.organizationId, 'API key', apiKeyId);
+    }
+
+    // ───────────────────────────────────────────────────────────────────────
+    // SUCCESS: Return authenticated user
+    // ───────────────────────────────────────────────────────────────────────
+
+    return {
+      success: true,
+      user: {
+        scope: 'inbox',
+        inbox_id: inbox.inboxId,
+        organization_id: organization.organizationId,
+        email_address: inbox.email,
+        api_key_id: apiKeyId
+      }
+    };
+
+  } catch (unexpectedError) {
+    Logger.authStep('Verifying credentials with AgentMail API', 'FAIL');
+    return {
+      success: false,
+      error: createAuthError(
+        AuthErrorCode.SERVICE_UNAVAILABLE,
+        `Unexpected error verifying credentials: ${(unexpectedError as Error).message}`
+      )
+    };
+  }
+}
+
 // ============================================================================
 // EXPORTED CONSTANTS (for testing)
 // ============================================================================
 
-export { INBOX_ID_REGEX, API_KEY_REGEX };
+export { INBOX_ID_REGEX, ORG_ID_REGEX, API_KEY_REGEX };
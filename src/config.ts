@@ -6,17 +6,245 @@
  */
 
 import dotenv from 'dotenv';
+import os from 'os';
 dotenv.config();
 
+/**
+ * A single SMTP listener (port) served by this process.
+ * All listeners share the same session manager and hooks.
+ */
+export interface ListenerConfig {
+  /** Name recorded on every session accepted by this listener */
+  name: string;
+  port: number;
+  /** true = implicit TLS (SMTPS), false = plaintext with STARTTLS */
+  secure: boolean;
+  /** Speak LMTP (RFC 2033): each recipient is sent separately and gets its own reply to DATA */
+  lmtp: boolean;
+  banner: string;
+  maxMessageSize: number;
+  auth: {
+    methods: string[];
+    /** Refuse AUTH with 538 5.7.11 until the connection is encrypted */
+    requireTls: boolean;
+  };
+}
+
+const DEFAULT_MAX_MESSAGE_SIZE = 10 * 1024 * 1024; // 10MB
+const REQUIRE_TLS_FOR_AUTH = process.env.SMTP_REQUIRE_TLS_FOR_AUTH !== 'false';
+
+const AUTH_MODE = (process.env.AUTH_MODE === 'api' ? 'api' : 'local') as 'local' | 'api';
+
+const HEADER_RECIPIENT_POLICY = (process.env.HEADER_RECIPIENT_POLICY === 'reject' ? 'reject' : 'ignore') as 'ignore' | 'reject';
+
+// Header patterns (lowercase, trailing * = prefix) and "Name=value" rewrites separated by ";"
+const HEADER_ALLOW = process.env.HEADER_ALLOW ?? 'x-*,message-id,references,in-reply-to';
+const HEADER_DENY = process.env.HEADER_DENY ?? 'x-originating-ip,x-forwarded-for,x-real-ip,x-client-ip,x-remote-addr';
+const HEADER_REWRITE = process.env.HEADER_REWRITE || '';
+
+const DELIVERY_MODE = (process.env.DELIVERY_MODE === 'queue' ? 'queue' : 'inline') as 'inline' | 'queue';
+const DSN_SINK = (['agentmail', 'directory'].includes(process.env.DSN_SINK || '')
+  ? process.env.DSN_SINK
+  : 'none') as 'agentmail' | 'directory' | 'none';
+
+const SENDER_POLICY = (['rewrite', 'sender'].includes(process.env.SENDER_POLICY || '')
+  ? process.env.SENDER_POLICY
+  : 'reject') as 'reject' | 'rewrite' | 'sender';
+
+// Bearer token mechanisms are offered only when a token verifier is configured
+const OAUTH_ENABLED = !!(process.env.OAUTH_HMAC_SECRET || process.env.OAUTH_JWKS_PATH);
+
+// OAUTH_SERVICE_API_KEYS=org_abc=am_...,org_def=am_... (the API key bearer sessions of each organization send with)
+const OAUTH_SERVICE_API_KEYS: Record<string, string> = Object.fromEntries(
+  (process.env.OAUTH_SERVICE_API_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim().split('=').map(part => part.trim()))
+    .filter(([organizationId, apiKey]) => organizationId && apiKey)
+);
+
+// SCRAM needs stored verifiers, which only the local credential store has
+const SCRAM_ENABLED = AUTH_MODE === 'local' && process.env.AUTH_SCRAM !== 'false';
+const AUTH_METHODS = [
+  'PLAIN',
+  'LOGIN',
+  ...(SCRAM_ENABLED ? ['SCRAM-SHA-256'] : []),
+  ...(OAUTH_ENABLED ? ['XOAUTH2', 'OAUTHBEARER'] : []),
+];
+
+/**
+ * AUTH mechanisms offered by one listener: the comma-separated list in
+ * `variable`, limited to the mechanisms available at all (all of them when unset).
+ * An empty result is refused, since smtp-server would fall back to PLAIN/LOGIN.
+ */
+function listenerAuthMethods(variable: string): string[] {
+  const requested = process.env[variable];
+  if (!requested) {
+    return AUTH_METHODS;
+  }
+  const names = requested.split(',').map(method => method.trim().toUpperCase());
+  const methods = AUTH_METHODS.filter(method => names.includes(method));
+  if (methods.length === 0) {
+    throw new Error(`${variable} names none of the available AUTH methods (${AUTH_METHODS.join(', ')})`);
+  }
+  return methods;
+}
+
+// Implicit TLS is on by default once a real certificate is configured
+const TLS_CONFIGURED = !!(process.env.SMTP_TLS_KEY_PATH && process.env.SMTP_TLS_CERT_PATH);
+
+const listeners: ListenerConfig[] = [
+  {
+    name: 'submission',
+    port: parseInt(process.env.SMTP_PORT || '2525'),
+    secure: false,
+    lmtp: false,
+    banner: 'AgentMail SMTP Demo Server',
+    maxMessageSize: parseInt(process.env.SMTP_MAX_MESSAGE_SIZE || String(DEFAULT_MAX_MESSAGE_SIZE)),
+    auth: {
+      methods: listenerAuthMethods('SMTP_AUTH_METHODS'),
+      requireTls: REQUIRE_TLS_FOR_AUTH,
+    },
+  },
+  {
+    name: 'smtps',
+    port: parseInt(process.env.SMTPS_PORT || (TLS_CONFIGURED ? '465' : '0')),
+    secure: true,
+    lmtp: false,
+    banner: 'AgentMail SMTPS Demo Server',
+    maxMessageSize: parseInt(process.env.SMTPS_MAX_MESSAGE_SIZE || String(DEFAULT_MAX_MESSAGE_SIZE)),
+    auth: {
+      methods: listenerAuthMethods('SMTPS_AUTH_METHODS'),
+      requireTls: true,
+    },
+  },
+  {
+    name: 'lmtp',
+    port: parseInt(process.env.LMTP_PORT || '0'),
+    secure: false,
+    lmtp: true,
+    banner: 'AgentMail LMTP Demo Server',
+    maxMessageSize: parseInt(process.env.LMTP_MAX_MESSAGE_SIZE || String(DEFAULT_MAX_MESSAGE_SIZE)),
+    auth: {
+      methods: listenerAuthMethods('LMTP_AUTH_METHODS'),
+      requireTls: REQUIRE_TLS_FOR_AUTH,
+    },
+  },
+];
+
 export const config = {
   smtp: {
-    port: parseInt(process.env.SMTP_PORT || '2525'),
-    maxMessageSize: 10 * 1024 * 1024, // 10MB
+    // LMTP is off unless LMTP_PORT is set, SMTPS unless SMTPS_PORT or a TLS key and certificate are
+    listeners: listeners.filter(listener => listener.port > 0),
+  },
+  tls: {
+    // PEM files used for STARTTLS (smtp-server's bundled self-signed cert is used when unset)
+    keyPath: process.env.SMTP_TLS_KEY_PATH || '',
+    certPath: process.env.SMTP_TLS_CERT_PATH || '',
+    // Directory of <hostname>.crt/<hostname>.key pairs selected by SNI; reloaded on change
+    certDir: process.env.SMTP_TLS_CERT_DIR || '',
+  },
+  credentials: {
+    // JSON/YAML credentials file, reloaded on change (mock database is used when unset)
+    filePath: process.env.CREDENTIALS_FILE || '',
+  },
+  auth: {
+    // 'local' (credentials file / mock database) or 'api' (verify each key against the AgentMail API)
+    mode: AUTH_MODE,
+    // SCRAM-SHA-256 for API keys with stored SCRAM credentials (AUTH_MODE=local only)
+    scram: SCRAM_ENABLED,
+    // AuthResult cache; a TTL of 0 disables that half of the cache
+    cache: {
+      maxEntries: parseInt(process.env.AUTH_CACHE_MAX_ENTRIES || '10000'),
+      successTtlMs: parseInt(process.env.AUTH_CACHE_SUCCESS_TTL_MS || '60000'),
+      failureTtlMs: parseInt(process.env.AUTH_CACHE_FAILURE_TTL_MS || '10000'),
+    },
+    // Sliding-window AUTH failure lockout; a limit of 0 disables it
+    rateLimit: {
+      windowMs: parseInt(process.env.AUTH_FAILURE_WINDOW_MS || '900000'),
+      maxFailuresPerIp: parseInt(process.env.AUTH_MAX_FAILURES_PER_IP || '20'),
+      maxFailuresPerUsername: parseInt(process.env.AUTH_MAX_FAILURES_PER_USERNAME || '5'),
+      tarpitMs: parseInt(process.env.AUTH_TARPIT_MS || '5000'),
+      exemptAddresses: (process.env.AUTH_LOCKOUT_EXEMPT_IPS ?? '127.0.0.1,::1,::ffff:127.0.0.1')
+        .split(',')
+        .map(address => address.trim())
+        .filter(Boolean),
+    },
+    // Bearer tokens for XOAUTH2/OAUTHBEARER: HS256 shared secret and/or RS256/ES256 JWKS file
+    oauth: {
+      enabled: OAUTH_ENABLED,
+      hmacSecret: process.env.OAUTH_HMAC_SECRET || '',
+      jwksPath: process.env.OAUTH_JWKS_PATH || '',
+      issuer: process.env.OAUTH_ISSUER || '',
+      audience: process.env.OAUTH_AUDIENCE || '',
+      // The gateway's own API key per organization; tokens are never sent to the AgentMail API
+      serviceApiKeys: OAUTH_SERVICE_API_KEYS,
+    },
+  },
+  sender: {
+    // MAIL FROM / From: not owned by the sending inbox: 'reject' (553 5.7.1), 'rewrite' or 'sender' (add Sender: header)
+    policy: SENDER_POLICY,
+  },
+  recipients: {
+    // To:/Cc:/Bcc: addresses that were never in RCPT TO: 'ignore' (not delivered) or 'reject' (554 5.7.1)
+    headerOnlyPolicy: HEADER_RECIPIENT_POLICY,
+  },
+  headers: {
+    // Custom headers forwarded to the API: allowlist, denylist (wins) and value rewrites
+    allow: HEADER_ALLOW.split(',').map(pattern => pattern.trim().toLowerCase()).filter(Boolean),
+    deny: HEADER_DENY.split(',').map(pattern => pattern.trim().toLowerCase()).filter(Boolean),
+    rewrite: Object.fromEntries(
+      HEADER_REWRITE.split(';')
+        .filter(rule => rule.includes('='))
+        .map(rule => [rule.slice(0, rule.indexOf('=')).trim().toLowerCase(), rule.slice(rule.indexOf('=') + 1).trim()])
+    ) as Record<string, string>,
+  },
+  rawMime: {
+    // Submit the DATA bytes unchanged (raw send) for these inbox_ids / all inboxes of these organization_ids
+    inboxes: (process.env.RAW_MIME_INBOXES || '').split(',').map(id => id.trim()).filter(Boolean),
+    organizations: (process.env.RAW_MIME_ORGS || '').split(',').map(id => id.trim()).filter(Boolean),
+  },
+  delivery: {
+    // 'inline' (250 after the API call) or 'queue' (250 once spooled to disk, delivered in the background)
+    mode: DELIVERY_MODE,
+    spoolDir: process.env.SPOOL_DIR || './spool',
+    // Base64 AES-256 key sealing spooled API keys; one of the two is required in queue mode
+    spoolKey: process.env.SPOOL_KEY || '',
+    // File holding that key when SPOOL_KEY is unset (generated if missing, must be outside SPOOL_DIR)
+    spoolKeyFile: process.env.SPOOL_KEY_FILE || '',
+    queue: {
+      workers: parseInt(process.env.QUEUE_WORKERS || '4'),
+      retryBaseMs: parseInt(process.env.QUEUE_RETRY_BASE_MS || '30000'),
+      retryMaxMs: parseInt(process.env.QUEUE_RETRY_MAX_MS || '3600000'),
+      maxAgeMs: parseInt(process.env.QUEUE_MAX_AGE_MS || '86400000'),
+    },
+    // DSNs for queued messages: 'none' (default), 'agentmail' (into the sending inbox) or 'directory' (.eml files in DSN_DIR)
+    dsn: {
+      sink: DSN_SINK,
+      dir: process.env.DSN_DIR || './dsn',
+      reportingMta: process.env.DSN_REPORTING_MTA || os.hostname(),
+      // Still undelivered after this long: send one delay DSN (0 disables)
+      delayWarningMs: parseInt(process.env.DSN_DELAY_WARNING_MS || '14400000'),
+    },
+  },
+  dedupe: {
+    // A repeated DATA (same inbox and Message-ID, or same bytes) within this window gets the
+    // original reply instead of a second send (0 disables); kept in the session store's backend
+    windowMs: parseInt(process.env.DEDUPE_WINDOW_MS || '86400000'),
+  },
+  session: {
+    // 'memory' (single instance) or 'redis' (shared across replicas)
+    store: process.env.SESSION_STORE || 'memory',
+    redisUrl: process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+    keyPrefix: process.env.REDIS_KEY_PREFIX || 'smtp:',
+    // Start an in-process RESP stand-in on REDIS_URL's port (local testing only)
+    redisMock: process.env.REDIS_MOCK === 'true',
   },
   agentmail: {
     apiBaseUrl: process.env.AGENTMAIL_API_URL || 'https://api.agentmail.to',
     timeout: parseInt(process.env.AGENTMAIL_TIMEOUT || '30000'),
     apiKey: process.env.AGENTMAIL_API_KEY || '',
     orgId: process.env.AGENTMAIL_ORG_ID || '',
+    // Start an in-process fake AgentMail API on AGENTMAIL_API_URL's port (local testing only)
+    apiMock: process.env.AGENTMAIL_API_MOCK === 'true',
   }
 };
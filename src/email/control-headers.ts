@@ -0,0 +1,140 @@
+/**
+ * X-AgentMail-* Control Headers
+ *
+ * Lets SMTP clients use AgentMail features that have no place in a plain
+ * message. Control headers are read from the message, applied to the API
+ * request and never forwarded:
+ *
+ *   X-AgentMail-Labels: <label>, <label>...   Labels for the sent message (max 32, 64 chars each)
+ *   X-AgentMail-Draft: true|false             Create a draft instead of sending
+ *   X-AgentMail-Send-At: <ISO 8601 time>      Schedule the send (a draft with send_at);
+ *                                             needs an explicit offset or Z, must be in the future
+ *
+ * Any other X-AgentMail-* header, a repeated one or an invalid value is
+ * rejected with 501 5.5.4 (ControlHeaderError) instead of being forwarded.
+ */
+
+import { ParsedMail } from 'mailparser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ControlOptions {
+  labels?: string[];
+  /** Create a draft instead of sending */
+  draft: boolean;
+  /** Scheduled send time (implies a draft) */
+  sendAt?: Date;
+}
+
+/**
+ * An X-AgentMail-* header is unknown or has an invalid value.
+ * The message is the text of the 501 5.5.4 reply.
+ */
+export class ControlHeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControlHeaderError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CONTROL_HEADER_PREFIX = 'x-agentmail-';
+
+const MAX_LABELS = 32;
+const LABEL_REGEX = /^[^\x00-\x1f\x7f,]{1,64}$/;
+const ISO_TIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseLabels(value: string): string[] {
+  const labels = value.split(',').map(label => label.trim()).filter(Boolean);
+  if (labels.length === 0 || labels.length > MAX_LABELS) {
+    throw new ControlHeaderError(`Invalid X-AgentMail-Labels: expected 1-${MAX_LABELS} comma-separated labels`);
+  }
+  for (const label of labels) {
+    if (!LABEL_REGEX.test(label)) {
+      throw new ControlHeaderError(`Invalid X-AgentMail-Labels: label "${label}" is empty, too long or has control characters`);
+    }
+  }
+  return labels;
+}
+
+function parseBoolean(name: string, value: string): boolean {
+  switch (value.toLowerCase()) {
+    case 'true':
+    case 'yes':
+      return true;
+    case 'false':
+    case 'no':
+      return false;
+    default:
+      throw new ControlHeaderError(`Invalid ${name}: expected true or false`);
+  }
+}
+
+/** Whether the calendar date of an ISO time exists (Date rolls 2026-02-30 over to March) */
+function isCalendarDate(value: string): boolean {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDate() === day;
+}
+
+function parseSendAt(value: string, now: Date): Date {
+  const sendAt = new Date(value);
+  if (!ISO_TIME_REGEX.test(value) || isNaN(sendAt.getTime()) || !isCalendarDate(value)) {
+    throw new ControlHeaderError('Invalid X-AgentMail-Send-At: expected an ISO 8601 time with offset, e.g. 2026-01-31T09:00:00Z');
+  }
+  if (sendAt <= now) {
+    throw new ControlHeaderError('Invalid X-AgentMail-Send-At: time is in the past');
+  }
+  return sendAt;
+}
+
+/**
+ * Read the control headers of a message.
+ *
+ * @throws ControlHeaderError for unknown, repeated or invalid control headers
+ */
+export function parseControlHeaders(parsed: ParsedMail, now: Date = new Date()): ControlOptions {
+  const options: ControlOptions = { draft: false };
+  const seen = new Set<string>();
+
+  for (const { key, line } of parsed.headerLines || []) {
+    if (!key.startsWith(CONTROL_HEADER_PREFIX)) {
+      continue;
+    }
+
+    const name = line.slice(0, line.indexOf(':')).trim();
+    const value = line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+
+    if (seen.has(key)) {
+      throw new ControlHeaderError(`${name} given more than once`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'x-agentmail-labels':
+        options.labels = parseLabels(value);
+        break;
+      case 'x-agentmail-draft':
+        options.draft = parseBoolean(name, value);
+        break;
+      case 'x-agentmail-send-at':
+        options.sendAt = parseSendAt(value, now);
+        break;
+      default:
+        throw new ControlHeaderError(`Unknown control header ${name}`);
+    }
+  }
+
+  if (options.sendAt) {
+    options.draft = true;
+  }
+  return options;
+}
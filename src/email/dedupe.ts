@@ -0,0 +1,198 @@
+/**
+ * Submission Dedupe
+ *
+ * SMTP clients resend a message when they time out waiting for the reply
+ * to DATA, even if AgentMail accepted it in the meantime. Each submission
+ * is identified by its sending inbox, envelope recipients and Message-ID
+ * (or a hash of the DATA bytes when there is no Message-ID); within
+ * DEDUPE_WINDOW_MS a repeated submission gets the original 250 reply and is
+ * not sent again. The recipients are part of the key because clients split
+ * large recipient lists into several transactions with the same message.
+ *
+ * A submission is claimed before it is sent and released if sending fails,
+ * so a resend that arrives while the original is still in flight gets a
+ * temporary error instead of a second send. The same key is passed to
+ * AgentMail as Idempotency-Key, which also covers what the store cannot
+ * (e.g. a queued message sent again after a crash).
+ */
+
+import crypto from 'crypto';
+import { RespClient } from '../redis/resp-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Outcome of the original submission
+ */
+export interface DedupeRecord {
+  /** AgentMail message_id (draft_id for drafts, queue ID when queued) */
+  id: string;
+  /** Text of the original 250 reply */
+  reply: string;
+}
+
+/**
+ * Result of a claim: the key was free, the original is still being sent,
+ * or the original was accepted
+ */
+export type DedupeClaim =
+  | { status: 'claimed' }
+  | { status: 'in-flight' }
+  | { status: 'duplicate'; record: DedupeRecord };
+
+/**
+ * Storage for submission keys.
+ *
+ * Implementations:
+ * - MemoryDedupeStore - single instance
+ * - RedisDedupeStore - shared across replicas (SESSION_STORE=redis)
+ */
+export interface DedupeStore {
+  /**
+   * Claim a key for a submission about to be sent.
+   */
+  claim(key: string): Promise<DedupeClaim>;
+
+  /**
+   * Record the outcome of a claimed submission for the rest of the window.
+   */
+  complete(key: string, record: DedupeRecord): Promise<void>;
+
+  /**
+   * Drop a claim whose submission failed, so the client can retry it.
+   */
+  release(key: string): Promise<void>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** A claim outlives a crashed instance by at most this long */
+const IN_FLIGHT_TTL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Dedupe key of a submission (also its Idempotency-Key): SHA-256 over the
+ * sending inbox, the envelope recipients (sorted, case-insensitive) and the
+ * Message-ID, or the DATA bytes without one.
+ *
+ * @param recipients - Envelope recipients of this send (one per copy for LMTP)
+ */
+export function submissionKey(
+  inboxId: string,
+  messageId: string | undefined,
+  raw: Buffer,
+  recipients: string[]
+): string {
+  const hash = crypto.createHash('sha256').update(inboxId).update('\0');
+  const sorted = [...new Set(recipients.map(recipient => recipient.toLowerCase()))].sort();
+  for (const recipient of sorted) {
+    hash.update('recipient\0').update(recipient).update('\0');
+  }
+  if (messageId?.trim()) {
+    hash.update('message-id\0').update(messageId.trim());
+  } else {
+    hash.update('content\0').update(raw);
+  }
+  return hash.digest('hex');
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+interface MemoryEntry {
+  record: DedupeRecord | null;
+  expiresAt: number;
+}
+
+export class MemoryDedupeStore implements DedupeStore {
+  private entries: Map<string, MemoryEntry> = new Map();
+
+  /**
+   * @param windowMs - How long a completed submission is remembered
+   */
+  constructor(private windowMs: number) {}
+
+  async claim(key: string): Promise<DedupeClaim> {
+    this.prune();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.record ? { status: 'duplicate', record: entry.record } : { status: 'in-flight' };
+    }
+    this.entries.set(key, { record: null, expiresAt: Date.now() + Math.min(IN_FLIGHT_TTL_MS, this.windowMs) });
+    return { status: 'claimed' };
+  }
+
+  async complete(key: string, record: DedupeRecord): Promise<void> {
+    // Re-inserted so the map stays ordered by expiry
+    this.entries.delete(key);
+    this.entries.set(key, { record, expiresAt: Date.now() + this.windowMs });
+  }
+
+  async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Drop expired entries from the front (oldest first)
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// REDIS STORE
+// ============================================================================
+
+/**
+ * Key layout: <prefix>dedupe:<key>, an empty string while in flight and the
+ * JSON-serialized DedupeRecord once accepted, with PX expiry.
+ */
+export class RedisDedupeStore implements DedupeStore {
+  constructor(
+    private client: RespClient,
+    private windowMs: number,
+    private keyPrefix: string = 'smtp:'
+  ) {}
+
+  private dedupeKey(key: string): string {
+    return `${this.keyPrefix}dedupe:${key}`;
+  }
+
+  async claim(key: string): Promise<DedupeClaim> {
+    const ttl = Math.min(IN_FLIGHT_TTL_MS, this.windowMs);
+    const claimed = await this.client.command('SET', this.dedupeKey(key), '', 'PX', ttl, 'NX');
+    if (claimed !== null) {
+      return { status: 'claimed' };
+    }
+
+    const value = await this.client.command('GET', this.dedupeKey(key));
+    if (typeof value !== 'string') {
+      // Expired between SET and GET
+      return this.claim(key);
+    }
+    return value === '' ? { status: 'in-flight' } : { status: 'duplicate', record: JSON.parse(value) };
+  }
+
+  async complete(key: string, record: DedupeRecord): Promise<void> {
+    await this.client.command('SET', this.dedupeKey(key), JSON.stringify(record), 'PX', this.windowMs);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.command('DEL', this.dedupeKey(key));
+  }
+}
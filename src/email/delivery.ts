@@ -0,0 +1,88 @@
+/**
+ * Message Delivery
+ *
+ * Submits a transformed message to the AgentMail API in the form the client
+ * asked for. Used inline by onData and by the delivery queue (DELIVERY_MODE=queue):
+ * 1. X-AgentMail-Draft / X-AgentMail-Send-At → drafts.create
+ * 2. Raw MIME passthrough → send-raw, or the structured send if the API has
+ *    no raw send endpoint
+ * 3. Otherwise → messages.send, or messages.reply for a known reply target
+ *
+ * Sends carry the request's idempotency key (see dedupe.ts); drafts.create
+ * takes none.
+ */
+
+import { AgentMailClient, AgentMailAPIError } from '../api/agentmail-client';
+import { TransformedMessage } from './transformer';
+import { RAW_SEND_UNAVAILABLE_STATUSES } from './raw-mime';
+import { sendThreaded } from './threading';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeliveryRequest {
+  message: TransformedMessage;
+  /** Original DATA bytes, when the message is sent by raw MIME passthrough */
+  raw?: Buffer;
+  /** Message ID from findReplyTarget, or null */
+  replyTarget: string | null;
+  /** Idempotency-Key for the send (submissionKey), when dedupe is enabled */
+  idempotencyKey?: string;
+}
+
+export interface DeliveryResult {
+  /** AgentMail message_id, or draft_id for drafts */
+  id: string;
+  /** Text of the 250 reply for inline delivery */
+  reply: string;
+  threadId?: string;
+  /** Message replied to, if sent with messages.reply */
+  repliedTo?: string;
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Deliver a message through the AgentMail API.
+ *
+ * @throws AgentMailAPIError if the API call fails
+ */
+export async function deliverMessage(client: AgentMailClient, request: DeliveryRequest): Promise<DeliveryResult> {
+  const { message, raw, replyTarget, idempotencyKey } = request;
+
+  if (message.draft) {
+    const draft = await client.createDraft(message);
+    const reply = message.draft.sendAt
+      ? `Scheduled as ${draft.draftId} for ${message.draft.sendAt.toISOString()}`
+      : `Draft created as ${draft.draftId}`;
+    return { id: draft.draftId, reply };
+  }
+
+  if (raw) {
+    try {
+      const recipients = ([] as string[]).concat(message.to || [], message.cc || [], message.bcc || []);
+      const response = await client.sendRawMessage(message.inbox_id, raw, recipients, idempotencyKey);
+      return { id: response.messageId, reply: `Message queued as ${response.messageId}`, threadId: response.threadId };
+    } catch (error) {
+      if (!(error instanceof AgentMailAPIError) || !RAW_SEND_UNAVAILABLE_STATUSES.includes(error.httpStatus)) {
+        throw error;
+      }
+      Logger.warn('Raw send endpoint unavailable, sending structured message', {
+        inbox_id: message.inbox_id,
+        httpStatus: error.httpStatus
+      });
+    }
+  }
+
+  const { response, repliedTo } = await sendThreaded(client, message, replyTarget, idempotencyKey);
+  return {
+    id: response.messageId,
+    reply: `Message queued as ${response.messageId}`,
+    threadId: response.threadId,
+    repliedTo
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * DSN ESMTP Parameters (RFC 3461)
+ *
+ * The DSN extension lets a client say which delivery status notifications
+ * it wants and what they should contain:
+ *
+ *   MAIL FROM:<a@x> RET=FULL|HDRS ENVID=<xtext>
+ *   RCPT TO:<b@y> NOTIFY=NEVER|SUCCESS,FAILURE,DELAY ORCPT=<addr-type>;<xtext>
+ *
+ * With hideDSN: false, smtp-server decodes xtext and validates RET and
+ * NOTIFY itself before the hooks run, answering a plain 501 (it adds no
+ * enhanced code). NOTIFY/ORCPT arrive parsed on the address (address.dsn).
+ * This module only checks what smtp-server does not, ENVID and ORCPT, and
+ * rejects invalid values with 501 5.5.4 (DsnParameterError). The values are
+ * kept on the session and its recipients, and the delivery queue follows
+ * them when it reports success, failure or delay.
+ */
+
+import { SMTPServerAddress } from 'smtp-server';
+import { DsnNotify, EnvelopeDsn, SessionRecipient } from '../session/session-state';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * DSN support in smtp-server 3.17, missing from @types/smtp-server
+ */
+declare module 'smtp-server' {
+  interface SMTPServerOptions {
+    /** Do not advertise DSN and ignore its parameters (default true) */
+    hideDSN?: boolean;
+  }
+
+  interface SMTPServerAddress {
+    /** NOTIFY (validated, upper case) and ORCPT of RCPT TO */
+    dsn?: { notify?: string[]; orcpt?: string | true };
+  }
+}
+
+/**
+ * ESMTP parameters of MAIL FROM / RCPT TO as parsed by smtp-server
+ * (a flag without a value is true)
+ */
+export type EsmtpArgs = Record<string, string | boolean> | false | undefined;
+
+/**
+ * A DSN parameter has an invalid value.
+ * The message is the text of the 501 5.5.4 reply.
+ */
+export class DsnParameterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DsnParameterError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** RFC 3461 4.4: ENVID is at most 100 characters */
+const MAX_ENVID_LENGTH = 100;
+/** RFC 3461 4.2: ORCPT is at most 500 characters */
+const MAX_ORCPT_LENGTH = 500;
+const PRINTABLE_REGEX = /^[\x21-\x7e]+$/;
+const ORCPT_REGEX = /^([A-Za-z0-9][A-Za-z0-9-]*);(.+)$/;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function requireValue(name: string, value: string | boolean | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value === '') {
+    throw new DsnParameterError(`${name} parameter requires a value`);
+  }
+  return value;
+}
+
+/**
+ * RET and ENVID of MAIL FROM.
+ *
+ * Read from the command's own arguments rather than session.envelope.dsn,
+ * which smtp-server does not clear when a MAIL FROM is refused. RET has
+ * already been validated by smtp-server.
+ *
+ * @returns The parameters, or undefined if none were given
+ * @throws DsnParameterError for an invalid ENVID
+ */
+export function parseMailDsnParams(args: EsmtpArgs): EnvelopeDsn | undefined {
+  const ret = args ? args.RET : undefined;
+  const envid = requireValue('ENVID', args ? args.ENVID : undefined);
+
+  if (envid !== undefined && (envid.length > MAX_ENVID_LENGTH || !PRINTABLE_REGEX.test(envid))) {
+    throw new DsnParameterError(`Invalid ENVID parameter: expected up to ${MAX_ENVID_LENGTH} printable characters`);
+  }
+
+  if (typeof ret !== 'string' && envid === undefined) {
+    return undefined;
+  }
+  return {
+    ...(typeof ret === 'string' ? { ret: ret.toUpperCase() as EnvelopeDsn['ret'] } : {}),
+    ...(envid !== undefined ? { envid } : {})
+  };
+}
+
+/**
+ * NOTIFY and ORCPT of RCPT TO, as parsed by smtp-server (address.dsn).
+ * A NOTIFY keyword given twice is kept once.
+ *
+ * @throws DsnParameterError for an invalid ORCPT
+ */
+export function parseRcptDsnParams(dsn: SMTPServerAddress['dsn']): Pick<SessionRecipient, 'notify' | 'orcpt'> {
+  const orcpt = requireValue('ORCPT', dsn?.orcpt);
+  const params: Pick<SessionRecipient, 'notify' | 'orcpt'> = {};
+
+  if (dsn?.notify) {
+    params.notify = [...new Set(dsn.notify)] as DsnNotify[];
+  }
+
+  if (orcpt !== undefined) {
+    const match = ORCPT_REGEX.exec(orcpt);
+    if (!match || orcpt.length > MAX_ORCPT_LENGTH || !PRINTABLE_REGEX.test(match[2])) {
+      throw new DsnParameterError('Invalid ORCPT parameter: expected addr-type;address, e.g. rfc822;user@example.com');
+    }
+    params.orcpt = orcpt;
+  }
+
+  return params;
+}
+
+/**
+ * Whether a recipient wants a DSN of this kind. Without NOTIFY, failures
+ * and delays are reported (RFC 3461 4.1 leaves the default to the server).
+ */
+export function wantsDsn(recipient: Pick<SessionRecipient, 'notify'>, kind: Exclude<DsnNotify, 'NEVER'>): boolean {
+  return recipient.notify ? recipient.notify.includes(kind) : kind !== 'SUCCESS';
+}
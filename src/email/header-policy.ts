@@ -0,0 +1,193 @@
+/**
+ * Header Policy
+ *
+ * Decides which headers of the submitted message are forwarded to the
+ * AgentMail API as custom headers, and checks them on the way:
+ *
+ * 1. X-AgentMail-* control headers are never forwarded (control-headers.ts)
+ * 2. deny  - patterns always dropped (default: client IP trace headers)
+ * 3. allow - only matching headers are forwarded (default: X-*, Message-ID,
+ *            References, In-Reply-To)
+ * 4. rewrite - replace the value of a forwarded header
+ * 5. validate - name must be printable ASCII without ":", value must not
+ *    contain CR, LF or other control characters, also once its RFC 2047
+ *    encoded-words are decoded, and must fit a 998-character line
+ *
+ * Patterns are case-insensitive header names; a trailing "*" matches any
+ * suffix. Deny wins over allow. A forwarded header that fails validation
+ * rejects the message (InvalidHeaderFormat, 501 5.6.0).
+ */
+
+import { ParsedMail, HeaderValue } from 'mailparser';
+import { CONTROL_HEADER_PREFIX } from './control-headers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HeaderPolicy {
+  allow: string[];
+  deny: string[];
+  /** Header name (lowercase) → replacement value */
+  rewrite: Record<string, string>;
+}
+
+/**
+ * A header that would be forwarded has an invalid name or value.
+ * mapToSMTPError maps it to 501 5.6.0 via ERROR_MAPPINGS.
+ */
+export class InvalidHeaderFormat extends Error {
+  constructor(public header: string, reason: string) {
+    super(`Header ${header} rejected: ${reason}`);
+    this.name = 'InvalidHeaderFormat';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** RFC 5322 2.1.1 line length limit ("Name: value") */
+const MAX_LINE_LENGTH = 998;
+const HEADER_NAME_REGEX = /^[\x21-\x39\x3b-\x7e]{1,76}$/;
+const FORBIDDEN_VALUE_CHARS = /[\x00-\x08\x0a-\x1f\x7f]/;
+const ENCODED_WORD_REGEX = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Serialize a mailparser header value. mailparser parses some headers into
+ * structures (addresses, dates, Content-Type-like values with params);
+ * String() would turn those into "[object Object]".
+ */
+export function serializeHeaderValue(key: string, value: HeaderValue): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toUTCString();
+  }
+  if (Array.isArray(value)) {
+    // References / In-Reply-To lists are space-separated, repeated headers comma-joined
+    const separator = key === 'references' || key === 'in-reply-to' ? ' ' : ', ';
+    return value.map(item => serializeHeaderValue(key, item as HeaderValue)).join(separator);
+  }
+  if (value && typeof value === 'object') {
+    if ('text' in value && typeof value.text === 'string') {
+      // AddressObject
+      return value.text;
+    }
+    if ('value' in value && typeof value.value === 'string') {
+      // StructuredHeader: value; key="param"
+      const params = 'params' in value && value.params ? value.params as Record<string, string> : {};
+      return [value.value, ...Object.entries(params).map(([name, param]) => `${name}="${param.replace(/(["\\])/g, '\\$1')}"`)]
+        .join('; ');
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Decode RFC 2047 encoded-words. mailparser leaves them encoded in headers
+ * it does not parse, but the recipient's mail client will decode them.
+ */
+function decodeEncodedWords(value: string): string {
+  return value.replace(ENCODED_WORD_REGEX, (_word, charset: string, encoding: string, text: string) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : Buffer.from(
+          text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        );
+    try {
+      return new TextDecoder(charset.split('*')[0]).decode(bytes);
+    } catch {
+      // Unknown charset: control characters are still visible byte by byte
+      return bytes.toString('latin1');
+    }
+  });
+}
+
+/**
+ * Unfolded value of a raw header line, for headers mailparser does not keep
+ * under their own name (e.g. List-* headers are merged into "list").
+ */
+function rawHeaderValue(line: string): string {
+  return line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+function matches(patterns: string[], key: string): boolean {
+  return patterns.some(pattern =>
+    pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern
+  );
+}
+
+/**
+ * Whether the policy drops a header (lowercase name) wherever it appears
+ */
+export function isDeniedHeader(key: string, policy: HeaderPolicy): boolean {
+  return matches(policy.deny, key);
+}
+
+/**
+ * @throws InvalidHeaderFormat if the name or value is not safe to forward
+ */
+export function validateHeader(name: string, value: string): void {
+  if (!HEADER_NAME_REGEX.test(name)) {
+    throw new InvalidHeaderFormat(name, 'invalid header name');
+  }
+  if (FORBIDDEN_VALUE_CHARS.test(value) || FORBIDDEN_VALUE_CHARS.test(decodeEncodedWords(value))) {
+    throw new InvalidHeaderFormat(name, 'value contains CR, LF or control characters');
+  }
+  if (name.length + 2 + value.length > MAX_LINE_LENGTH) {
+    throw new InvalidHeaderFormat(name, `longer than ${MAX_LINE_LENGTH} characters`);
+  }
+}
+
+/**
+ * Headers to forward as the request's custom headers, under the names the
+ * client used.
+ *
+ * @returns The headers, or undefined if none are forwarded
+ * @throws InvalidHeaderFormat if a forwarded header is invalid
+ */
+export function applyHeaderPolicy(parsed: ParsedMail, policy: HeaderPolicy): Record<string, string> | undefined {
+  // Original spelling and raw lines of each header (keys are lowercase)
+  const names = new Map<string, string>();
+  const rawLines = new Map<string, string[]>();
+  for (const { key, line } of parsed.headerLines || []) {
+    if (!names.has(key)) {
+      names.set(key, line.slice(0, line.indexOf(':')).trim());
+      rawLines.set(key, []);
+    }
+    rawLines.get(key)!.push(line);
+  }
+
+  const forwarded: Record<string, string> = {};
+
+  for (const [key, name] of names) {
+    if (key.startsWith(CONTROL_HEADER_PREFIX) || matches(policy.deny, key) || !matches(policy.allow, key)) {
+      continue;
+    }
+
+    let value: string;
+    if (Object.prototype.hasOwnProperty.call(policy.rewrite, key)) {
+      value = policy.rewrite[key];
+    } else if (parsed.headers.has(key)) {
+      value = serializeHeaderValue(key, parsed.headers.get(key)!);
+    } else {
+      value = rawLines.get(key)!.map(rawHeaderValue).join(', ');
+    }
+
+    validateHeader(name, value);
+    forwarded[name] = value;
+  }
+
+  return Object.keys(forwarded).length > 0 ? forwarded : undefined;
+}
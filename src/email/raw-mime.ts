@@ -0,0 +1,116 @@
+/**
+ * Raw MIME Passthrough
+ *
+ * Rebuilding a message from ParsedMail loses most headers, the multipart
+ * structure and any signature (S/MIME, PGP/MIME). For inboxes or
+ * organizations listed in RAW_MIME_INBOXES / RAW_MIME_ORGS, the gateway
+ * submits the DATA bytes unchanged to the raw send endpoint instead, with
+ * the envelope recipients as the delivery list.
+ *
+ * The header section is filtered first (filterRawHeaders): Bcc: and the
+ * headers the header policy denies are removed, and rewritten headers get
+ * their new value. The body is passed on byte for byte.
+ *
+ * The structured send (transformer.ts) remains the fallback:
+ * - the message has to change in ways the filter does not cover:
+ *   X-AgentMail-* control headers must be stripped, or the sender policy
+ *   rewrites From:
+ * - the API has no raw send endpoint (404, 405 or 501)
+ *
+ * Policy checks (sender alignment, header recipients, control header
+ * syntax) run on every message either way.
+ */
+
+import { ParsedMail } from 'mailparser';
+import { SendingInbox } from '../session/session-state';
+import { CONTROL_HEADER_PREFIX } from './control-headers';
+import { findMisalignedFrom } from './sender-policy';
+import { HeaderPolicy, isDeniedHeader } from './header-policy';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RawMimeSettings {
+  /** inbox_ids that submit raw MIME */
+  inboxes: string[];
+  /** organization_ids whose inboxes all submit raw MIME */
+  organizations: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** HTTP statuses meaning the API does not offer raw sends */
+export const RAW_SEND_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+// ============================================================================
+// DECISION
+// ============================================================================
+
+/**
+ * Whether raw passthrough is configured for the inbox or its organization.
+ */
+export function isRawMimeEnabled(inbox: SendingInbox, organizationId: string, settings: RawMimeSettings): boolean {
+  return settings.inboxes.includes(inbox.inbox_id) || settings.organizations.includes(organizationId);
+}
+
+/**
+ * Why the original bytes cannot be sent unchanged, if anything.
+ *
+ * @returns A reason for the log, or null if the message can pass through
+ */
+export function findRawPassthroughBlocker(parsed: ParsedMail, inbox: SendingInbox): string | null {
+  if ((parsed.headerLines || []).some(({ key }) => key.startsWith(CONTROL_HEADER_PREFIX))) {
+    return 'X-AgentMail-* control headers must be stripped';
+  }
+  // SENDER_POLICY=reject has already refused a misaligned From:
+  if (findMisalignedFrom(parsed, inbox)) {
+    return 'From: is rewritten by the sender policy';
+  }
+  return null;
+}
+
+// ============================================================================
+// HEADER FILTERING
+// ============================================================================
+
+/**
+ * The original bytes without what the structured send would not pass on
+ * either: Bcc: (its recipients are in the delivery list and must stay
+ * hidden) and headers the policy denies are removed, headers the policy
+ * rewrites get the new value. Everything after the header section is left
+ * untouched, so signed MIME parts still verify.
+ */
+export function filterRawHeaders(raw: Buffer, policy: HeaderPolicy): Buffer {
+  // latin1 keeps every byte as one character
+  const text = raw.toString('latin1');
+  const separator = /\r?\n\r?\n/.exec(text);
+  const headerEnd = separator ? separator.index : text.length;
+  const newline = separator?.[0].startsWith('\r\n') ? '\r\n' : '\n';
+
+  // One entry per field, folded continuation lines included
+  const fields = text.slice(0, headerEnd).split(/\r?\n(?![ \t])/);
+  let changed = false;
+  const kept: string[] = [];
+  for (const field of fields) {
+    const colon = field.indexOf(':');
+    const name = colon > 0 ? field.slice(0, colon).trim() : '';
+    const key = name.toLowerCase();
+
+    if (key === 'bcc' || (key && isDeniedHeader(key, policy))) {
+      changed = true;
+    } else if (key && Object.prototype.hasOwnProperty.call(policy.rewrite, key)) {
+      kept.push(`${name}: ${policy.rewrite[key]}`);
+      changed = true;
+    } else {
+      kept.push(field);
+    }
+  }
+
+  if (!changed) {
+    return raw;
+  }
+  return Buffer.concat([Buffer.from(kept.join(newline), 'latin1'), raw.subarray(headerEnd)]);
+}
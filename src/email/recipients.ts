@@ -0,0 +1,125 @@
+/**
+ * Envelope Recipients
+ *
+ * Delivery follows the SMTP envelope: every RCPT TO address gets the
+ * message and nothing else does. The headers only decide how each envelope
+ * recipient is addressed:
+ * - in To:  → to
+ * - in Cc:  → cc
+ * - otherwise (in Bcc: or in no header, the usual client Bcc) → bcc
+ *
+ * Header addresses that were never in the envelope are ignored (logged) or
+ * reject the message, depending on HEADER_RECIPIENT_POLICY.
+ *
+ * The LMTP listener sends every envelope recipient its own copy
+ * (forRecipient), so each one gets its own result.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HeaderRecipientPolicy = 'ignore' | 'reject';
+
+export interface HeaderRecipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+}
+
+export interface ResolvedRecipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  /** Header addresses not in the envelope (not delivered) */
+  headerOnly: string[];
+}
+
+/**
+ * A header names a recipient that is not in the envelope
+ * (HEADER_RECIPIENT_POLICY=reject). Mapped via ERROR_MAPPINGS.
+ */
+export class RecipientNotInEnvelope extends Error {
+  constructor(public addresses: string[]) {
+    super(`Header recipients not in envelope: ${addresses.join(', ')}`);
+  }
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Split the envelope recipients into to/cc/bcc using the headers.
+ *
+ * @param envelope - RCPT TO addresses, in order
+ * @param headers - Addresses from the To:, Cc: and Bcc: headers
+ * @param policy - What to do with header addresses missing from the envelope
+ * @throws RecipientNotInEnvelope if there are any and the policy is 'reject'
+ */
+export function resolveRecipients(
+  envelope: string[],
+  headers: HeaderRecipients,
+  policy: HeaderRecipientPolicy
+): ResolvedRecipients {
+  const inTo = new Set(headers.to.map(address => address.toLowerCase()));
+  const inCc = new Set(headers.cc.map(address => address.toLowerCase()));
+  const inEnvelope = new Set<string>();
+
+  const resolved: ResolvedRecipients = { to: [], cc: [], bcc: [], headerOnly: [] };
+
+  for (const address of envelope) {
+    const key = address.toLowerCase();
+    if (inEnvelope.has(key)) {
+      continue;
+    }
+    inEnvelope.add(key);
+
+    if (inTo.has(key)) {
+      resolved.to.push(address);
+    } else if (inCc.has(key)) {
+      resolved.cc.push(address);
+    } else {
+      resolved.bcc.push(address);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const address of [...headers.to, ...headers.cc, ...headers.bcc]) {
+    const key = address.toLowerCase();
+    if (!inEnvelope.has(key) && !seen.has(key)) {
+      seen.add(key);
+      resolved.headerOnly.push(address);
+    }
+  }
+
+  if (resolved.headerOnly.length > 0 && policy === 'reject') {
+    throw new RecipientNotInEnvelope(resolved.headerOnly);
+  }
+
+  return resolved;
+}
+
+// ============================================================================
+// RECIPIENT SPLIT
+// ============================================================================
+
+/**
+ * The message as sent to a single envelope recipient (recipient-split
+ * delivery): the recipient keeps its to/cc/bcc placement and the other
+ * recipients are left out.
+ *
+ * The structured send has no delivery list apart from to/cc/bcc, so the
+ * other To/Cc addresses are not shown on the copy either. Raw sends keep
+ * the original headers and pass the recipient as the delivery list.
+ */
+export function forRecipient<T extends Partial<Record<keyof HeaderRecipients, string | string[]>>>(
+  message: T,
+  address: string
+): T {
+  const has = (field?: string | string[]) => ([] as string[]).concat(field || [])
+    .some(recipient => recipient.toLowerCase() === address.toLowerCase());
+  const { to: _to, cc: _cc, bcc: _bcc, ...rest } = message;
+  const field = has(message.to) ? 'to' : has(message.cc) ? 'cc' : 'bcc';
+  return { ...rest, [field]: [address] } as T;
+}
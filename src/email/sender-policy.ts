@@ -0,0 +1,61 @@
+/**
+ * Sender Policy
+ *
+ * Messages always go out from the session's sending inbox; the AgentMail
+ * API does not take a sender. The policy decides what happens when the
+ * client claims another sender, in the envelope (MAIL FROM) or in the
+ * From: header (SENDER_POLICY):
+ * - reject  - 553 5.7.1 (SenderNotAuthorized), at MAIL FROM or after DATA
+ * - rewrite - send anyway; the inbox address replaces the claimed sender
+ * - sender  - keep the client's From: and add "Sender: <inbox address>"
+ *             (RFC 5322 3.6.2)
+ *
+ * A null sender (MAIL FROM:<>) and a message without a From: header are
+ * always aligned.
+ */
+
+import { ParsedMail } from 'mailparser';
+import { SendingInbox } from '../session/session-state';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SenderPolicy = 'reject' | 'rewrite' | 'sender';
+
+/**
+ * The client claimed a sender the session's inbox does not own.
+ * mapToSMTPError maps it to 553 5.7.1 via ERROR_MAPPINGS.
+ */
+export class SenderNotAuthorized extends Error {
+  constructor(public address: string, public inbox: SendingInbox) {
+    super(`Sender ${address} is not ${inbox.email_address}`);
+  }
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+/**
+ * Whether an address is the inbox's own (email_address, or inbox_id since
+ * current inbox IDs are the address itself). Case-insensitive.
+ */
+export function isAlignedSender(address: string, inbox: SendingInbox): boolean {
+  const wanted = address.toLowerCase();
+  return wanted === inbox.email_address.toLowerCase() || wanted === inbox.inbox_id.toLowerCase();
+}
+
+/**
+ * Find the first From: header address the inbox does not own.
+ *
+ * @returns The address, or null if every From: address is aligned
+ */
+export function findMisalignedFrom(parsed: ParsedMail, inbox: SendingInbox): string | null {
+  for (const from of parsed.from?.value || []) {
+    if (from.address && !isAlignedSender(from.address, inbox)) {
+      return from.address;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Threaded Replies
+ *
+ * A message sent with inboxes.messages.send always starts a new AgentMail
+ * thread, even when its In-Reply-To names a message the inbox already has.
+ * Replies are therefore sent with messages.reply when the referenced
+ * message can be found in the sending inbox:
+ * 1. In-Reply-To, or else the last References entry, names the target
+ * 2. GET the target message from the inbox
+ * 3. Found → messages.reply; not found or lookup failed → messages.send
+ *
+ * Only the lookup falls back. A failed reply is reported like a failed
+ * send, so the message is never submitted twice.
+ */
+
+import { ParsedMail } from 'mailparser';
+import type { AgentMail } from 'agentmail';
+import { AgentMailClient, AgentMailAPIError } from '../api/agentmail-client';
+import { TransformedMessage } from './transformer';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ThreadedSendResult {
+  response: AgentMail.SendMessageResponse;
+  /** Message replied to, if sent with messages.reply */
+  repliedTo?: string;
+}
+
+// ============================================================================
+// REPLY TARGET
+// ============================================================================
+
+/**
+ * Message ID the message replies to: In-Reply-To, or else the last
+ * References entry (the direct parent by RFC 5322 3.6.4).
+ *
+ * @returns The message ID with angle brackets, or null if none
+ */
+export function findReplyTarget(parsed: ParsedMail): string | null {
+  if (parsed.inReplyTo) {
+    const match = /<[^<>\s]+>/.exec(parsed.inReplyTo);
+    if (match) {
+      return match[0];
+    }
+  }
+
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references ? parsed.references.split(/\s+/) : [];
+  const last = references.filter(Boolean).pop();
+  return last || null;
+}
+
+// ============================================================================
+// SEND
+// ============================================================================
+
+/**
+ * Send a message, as a reply when the target is a message of the inbox.
+ *
+ * @param replyTarget - Message ID from findReplyTarget, or null
+ * @param idempotencyKey - Passed to the send or reply call
+ * @throws AgentMailAPIError if the send or reply fails
+ */
+export async function sendThreaded(
+  client: AgentMailClient,
+  message: TransformedMessage,
+  replyTarget: string | null,
+  idempotencyKey?: string
+): Promise<ThreadedSendResult> {
+  if (replyTarget) {
+    let original: AgentMail.Message | null = null;
+    try {
+      original = await client.getMessage(message.inbox_id, replyTarget);
+    } catch (error) {
+      Logger.info('Reply target not found in inbox, sending as new message', {
+        inbox_id: message.inbox_id,
+        in_reply_to: replyTarget,
+        httpStatus: error instanceof AgentMailAPIError ? error.httpStatus : undefined
+      });
+    }
+
+    if (original) {
+      const response = await client.replyToMessage(original.messageId, message, idempotencyKey);
+      return { response, repliedTo: original.messageId };
+    }
+  }
+
+  return { response: await client.sendMessage(message, idempotencyKey) };
+}
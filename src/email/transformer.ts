@@ -2,11 +2,24 @@
  * Email Transformer
  *
  * Converts ParsedMail (from mailparser) to AgentMail API format.
+ *
+ * MIME handling:
+ * - Inline parts (Content-ID, e.g. images in multipart/related) keep their
+ *   contentId and inline disposition, and the HTML keeps its cid: links
+ *   (parse with MAIL_PARSER_OPTIONS).
+ * - text/calendar parts (meeting invites) are carried as calendar parts with
+ *   their METHOD parameter, re-encoded as UTF-8.
+ * - Text and HTML bodies arrive decoded from their declared charset and are
+ *   sent as UTF-8; a charset declared inside the HTML is updated to match.
  */
 
-import { ParsedMail, Attachment, Headers } from 'mailparser';
+import { ParsedMail, Attachment, SimpleParserOptions } from 'mailparser';
 import { AgentMail } from 'agentmail';
 import { SMTPSession } from '../session/session-state';
+import { SenderPolicy, SenderNotAuthorized, findMisalignedFrom } from './sender-policy';
+import { HeaderRecipientPolicy, resolveRecipients } from './recipients';
+import { parseControlHeaders } from './control-headers';
+import { HeaderPolicy, applyHeaderPolicy, validateHeader } from './header-policy';
 import Logger from '../utils/logger';
 
 // ============================================================================
@@ -19,8 +32,28 @@ import Logger from '../utils/logger';
  */
 export interface TransformedMessage extends AgentMail.SendMessageRequest {
   inbox_id: string;  // For internal use, not sent in body
+  /** Create a draft (scheduled if sendAt is set) instead of sending; from X-AgentMail-* headers */
+  draft?: { sendAt?: Date };
 }
 
+/**
+ * Policies applied while transforming
+ */
+export interface TransformOptions {
+  /** What to do with a From: header the inbox does not own */
+  senderPolicy: SenderPolicy;
+  /** What to do with To:/Cc:/Bcc: addresses that are not in the envelope */
+  headerRecipientPolicy: HeaderRecipientPolicy;
+  /** Which headers are forwarded, and how */
+  headerPolicy: HeaderPolicy;
+}
+
+/**
+ * simpleParser options for messages passed to transformToAgentMailFormat.
+ * keepCidLinks stops mailparser from inlining cid: images as data: URIs.
+ */
+export const MAIL_PARSER_OPTIONS: SimpleParserOptions = { keepCidLinks: true };
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -41,35 +74,73 @@ function extractAddresses(
   );
 }
 
+/**
+ * Content-Type parameters of an attachment part (mailparser keeps them
+ * only in the part headers)
+ */
+function contentTypeParams(att: Attachment): Record<string, string> {
+  const header = att.headers.get('content-type');
+  return header && typeof header === 'object' && 'params' in header ? header.params : {};
+}
+
+/**
+ * Carry a text/calendar part as a calendar part: keep METHOD (REQUEST,
+ * CANCEL, ...) so clients show it as an invite, and re-encode as UTF-8.
+ */
+function transformCalendarPart(att: Attachment): AgentMail.SendAttachment {
+  const params = contentTypeParams(att);
+  const charset = params.charset || 'utf-8';
+
+  let content = att.content;
+  if (!/^utf-?8$/i.test(charset)) {
+    try {
+      content = Buffer.from(new TextDecoder(charset).decode(att.content), 'utf8');
+    } catch {
+      // Unknown charset: pass the bytes through unchanged
+      Logger.warn('Unknown calendar charset, sending bytes as-is', { charset });
+    }
+  }
+
+  return {
+    filename: att.filename || 'invite.ics',
+    content: content.toString('base64'),
+    contentType: `text/calendar; charset=UTF-8${params.method ? `; method=${params.method.toUpperCase()}` : ''}`,
+    // An invite sent as an alternative body part has no disposition of its own
+    contentDisposition: att.contentDisposition === 'attachment' ? 'attachment' : 'inline',
+  };
+}
+
 /**
  * Transform mailparser Attachment to AgentMail format
  */
 function transformAttachment(att: Attachment): AgentMail.SendAttachment {
-  return {
+  if (att.contentType === 'text/calendar') {
+    return transformCalendarPart(att);
+  }
+
+  const attachment: AgentMail.SendAttachment = {
     filename: att.filename || 'untitled',
     content: att.content.toString('base64'),  // Buffer → base64 string
     contentType: att.contentType,  // camelCase for SDK
   };
+
+  // Inline parts referenced from the HTML by cid:
+  if (att.cid) {
+    attachment.contentId = att.cid;
+    attachment.contentDisposition = att.related || att.contentDisposition === 'inline' ? 'inline' : 'attachment';
+  } else if (att.contentDisposition === 'inline') {
+    attachment.contentDisposition = 'inline';
+  }
+
+  return attachment;
 }
 
 /**
- * Extract custom headers (X-* headers and important ones)
+ * The HTML is sent as UTF-8, so a charset declared in a <meta> tag (from
+ * the original encoding) would mislead the recipient's client.
  */
-function extractCustomHeaders(headers?: Headers): Record<string, string> | undefined {
-  if (!headers) return undefined;
-
-  const customHeaders: Record<string, string> = {};
-  const importantHeaders = ['message-id', 'references', 'in-reply-to'];
-
-  // Headers is a Map-like object
-  headers.forEach((value, key) => {
-    const keyLower = key.toLowerCase();
-    if (keyLower.startsWith('x-') || importantHeaders.includes(keyLower)) {
-      customHeaders[key] = String(value);
-    }
-  });
-
-  return Object.keys(customHeaders).length > 0 ? customHeaders : undefined;
+function normalizeHtmlCharset(html: string): string {
+  return html.replace(/(<meta\s[^>]*charset\s*=\s*["']?)[\w.:-]+/gi, '$1utf-8');
 }
 
 // ============================================================================
@@ -79,13 +150,22 @@ function extractCustomHeaders(headers?: Headers): Record<string, string> | undef
 /**
  * Transform ParsedMail to AgentMail API format
  *
+ * Recipients come from the envelope (session.rcptTo); the headers only
+ * decide which of them are to, cc or bcc.
+ *
  * @param parsed - Parsed email from mailparser
- * @param session - SMTP session with authenticated user
+ * @param session - SMTP session with authenticated user, sending inbox and recipients
+ * @param options - Sender, header recipient and header policies
  * @returns TransformedMessage ready for API submission
+ * @throws SenderNotAuthorized if From: is not aligned and the policy is 'reject'
+ * @throws RecipientNotInEnvelope if a header recipient is not in the envelope and the policy is 'reject'
+ * @throws ControlHeaderError if an X-AgentMail-* header is unknown or invalid
+ * @throws InvalidHeaderFormat if a forwarded header has an invalid name or value
  */
 export function transformToAgentMailFormat(
   parsed: ParsedMail,
-  session: SMTPSession
+  session: SMTPSession,
+  options: TransformOptions
 ): TransformedMessage {
   Logger.info('Transforming email', {
     from: parsed.from?.text,
@@ -96,29 +176,53 @@ export function transformToAgentMailFormat(
     attachmentCount: parsed.attachments?.length || 0
   });
 
+  const control = parseControlHeaders(parsed);
+
+  const recipients = resolveRecipients(
+    session.rcptTo.map(recipient => recipient.address),
+    {
+      to: extractAddresses(parsed.to),
+      cc: extractAddresses(parsed.cc),
+      bcc: extractAddresses(parsed.bcc)
+    },
+    options.headerRecipientPolicy
+  );
+  if (recipients.headerOnly.length > 0) {
+    Logger.warn('Header recipients not in envelope, not delivered', {
+      recipients: recipients.headerOnly.join(', ')
+    });
+  }
+
   const message: TransformedMessage = {
-    inbox_id: session.user!.inbox_id,
-    to: extractAddresses(parsed.to),
+    inbox_id: session.sendingInbox!.inbox_id,
+    to: recipients.to,
     subject: parsed.subject || '(no subject)',
   };
 
   // Add optional fields only if present
-  const cc = extractAddresses(parsed.cc);
-  if (cc.length > 0) {
-    message.cc = cc;
+  if (recipients.cc.length > 0) {
+    message.cc = recipients.cc;
+  }
+
+  if (recipients.bcc.length > 0) {
+    message.bcc = recipients.bcc;
   }
 
-  const bcc = extractAddresses(parsed.bcc);
-  if (bcc.length > 0) {
-    message.bcc = bcc;
+  if (control.labels) {
+    message.labels = control.labels;
+  }
+
+  if (control.draft) {
+    message.draft = control.sendAt ? { sendAt: control.sendAt } : {};
   }
 
   if (parsed.text) {
     message.text = parsed.text;
   }
 
-  if (parsed.html) {
-    message.html = typeof parsed.html === 'string' ? parsed.html : undefined;
+  // mailparser reports a message without an HTML part as html === false
+  if (typeof parsed.html === 'string' && parsed.html) {
+    message.html = normalizeHtmlCharset(parsed.html);
   }
 
   if (parsed.attachments && parsed.attachments.length > 0) {
@@ -130,11 +234,35 @@ export function transformToAgentMailFormat(
     message.replyTo = replyToAddrs;  // camelCase for SDK, array format
   }
 
-  const customHeaders = extractCustomHeaders(parsed.headers);
+  const customHeaders = applyHeaderPolicy(parsed, options.headerPolicy);
   if (customHeaders) {
     message.headers = customHeaders;
   }
 
+  // From: must be the sending inbox unless the policy says otherwise
+  const inbox = session.sendingInbox!;
+  const misalignedFrom = findMisalignedFrom(parsed, inbox);
+  if (misalignedFrom) {
+    if (options.senderPolicy === 'reject') {
+      throw new SenderNotAuthorized(misalignedFrom, inbox);
+    }
+
+    Logger.warn('From: header not owned by sending inbox', {
+      from: misalignedFrom,
+      inbox_id: inbox.inbox_id,
+      policy: options.senderPolicy
+    });
+
+    if (options.senderPolicy === 'sender') {
+      validateHeader('From', parsed.from!.text);
+      message.headers = {
+        ...message.headers,
+        From: parsed.from!.text,
+        Sender: inbox.email_address
+      };
+    }
+  }
+
   return message;
 }
 
@@ -153,8 +281,12 @@ export function validateTransformedMessage(message: TransformedMessage): void {
 
   // SDK to field can be string | string[] | undefined
   const toAddresses = normalizeAddresses(message.to);
-  if (toAddresses.length === 0) {
-    throw new Error('At least one recipient (to) is required');
+  const ccAddresses = normalizeAddresses(message.cc);
+  const bccAddresses = normalizeAddresses(message.bcc);
+
+  // All envelope recipients may be Bcc (e.g. "To: undisclosed-recipients:;")
+  if (toAddresses.length + ccAddresses.length + bccAddresses.length === 0) {
+    throw new Error('At least one recipient is required');
   }
 
   // Validate email format
@@ -166,14 +298,12 @@ export function validateTransformedMessage(message: TransformedMessage): void {
     }
   }
 
-  const ccAddresses = normalizeAddresses(message.cc);
   for (const email of ccAddresses) {
     if (!emailRegex.test(email)) {
       throw new Error(`Invalid CC email address: ${email}`);
     }
   }
 
-  const bccAddresses = normalizeAddresses(message.bcc);
   for (const email of bccAddresses) {
     if (!emailRegex.test(email)) {
       throw new Error(`Invalid BCC email address: ${email}`);
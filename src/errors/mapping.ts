@@ -269,6 +269,11 @@ export const ERROR_MAPPINGS: Record<string, ErrorMapping> = {
     enhancedCode: '5.7.1',
     message: 'Sender address blacklisted'
   },
+  'RecipientNotInEnvelope': {
+    smtpCode: SMTPErrorCode.TRANSACTION_FAILED,
+    enhancedCode: '5.7.1',
+    message: 'Header recipient not in envelope'
+  },
 
   // ─────────────────────────────────────────────────────────────────────────
   // DOMAIN/SENDER ERRORS
@@ -279,8 +284,8 @@ export const ERROR_MAPPINGS: Record<string, ErrorMapping> = {
     message: 'Sender domain not verified'
   },
   'SenderNotAuthorized': {
-    smtpCode: SMTPErrorCode.MAILBOX_NOT_FOUND,
-    enhancedCode: '5.1.0',
+    smtpCode: SMTPErrorCode.MAILBOX_NAME_INVALID,
+    enhancedCode: '5.7.1',
     message: 'Sender address not authorized for this mailbox'
   },
   'RelayDenied': {
@@ -376,13 +381,21 @@ export const ERROR_MAPPINGS: Record<string, ErrorMapping> = {
 // MAIN ERROR MAPPING FUNCTION
 // ============================================================================
 
+/**
+ * SMTP error for an error name in ERROR_MAPPINGS (e.g. the name in an
+ * AgentMail API error body), or null if it has no mapping
+ */
+export function mapErrorName(name: string): SMTPError | null {
+  const mapping = Object.prototype.hasOwnProperty.call(ERROR_MAPPINGS, name) ? ERROR_MAPPINGS[name] : undefined;
+  return mapping ? createSMTPError(mapping.smtpCode, mapping.enhancedCode, mapping.message) : null;
+}
+
 export function mapToSMTPError(error: Error): SMTPError {
   // Try to match by error name/type
-  const errorName = error.constructor.name;
-  const mapping = ERROR_MAPPINGS[errorName];
+  const mapped = mapErrorName(error.constructor.name);
 
-  if (mapping) {
-    return createSMTPError(mapping.smtpCode, mapping.enhancedCode, mapping.message);
+  if (mapped) {
+    return mapped;
   }
 
   // Try to match by error message patterns
@@ -0,0 +1,367 @@
+/**
+ * Fake AgentMail API for SMTP Demo
+ *
+ * In-process HTTP server that answers the handful of AgentMail API
+ * endpoints the gateway calls, backed by a CredentialProvider (the mock
+ * database by default). Lets AUTH_MODE=api and the DATA path run without
+ * network access or a real account.
+ *
+ * Endpoints:
+ * - GET  /v0/organizations                       → key's organization
+ * - GET  /v0/inboxes/{inbox_id}                  → inbox, 404 if missing or other org
+ * - POST /v0/inboxes/{inbox_id}/messages/send    → { message_id, thread_id }
+ * - GET  /v0/inboxes/{inbox_id}/messages/{id}    → a message sent through this fake
+ * - POST /v0/inboxes/{inbox_id}/messages/{id}/reply → { message_id, thread_id } in the original's thread
+ * - POST /v0/inboxes/{inbox_id}/drafts            → draft (scheduled if send_at is set)
+ * - POST /v0/inboxes/{inbox_id}/messages/send-raw → { message_id, thread_id }; body { raw: base64, recipients }
+ *
+ * Sends with an Idempotency-Key already used in the inbox return the
+ * original message_id and are not recorded again. Sends to an address
+ * passed to rejectRecipient fail with the given status and error name.
+ *
+ * Every request needs "Authorization: Bearer <api key>"; unknown, revoked
+ * or expired keys and anything else (e.g. an XOAUTH2 JWT) get 401, like
+ * the real API.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { ApiKeyRecord, CredentialProvider } from '../auth/credential-provider';
+import { getApiKeyPrefix, verifyApiKey } from '../auth/api-key-hash';
+import { createMockCredentialProvider } from './database';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A message accepted by the fake send endpoint (for inspection in tests)
+ */
+export interface FakeSentMessage {
+  inboxId: string;
+  messageId: string;
+  threadId: string;
+  /** Message this one was sent as a reply to */
+  inReplyTo?: string;
+  /** Idempotency-Key request header */
+  idempotencyKey?: string;
+  body: Record<string, unknown>;
+  sentAt: string;
+}
+
+/**
+ * A draft created by the fake drafts endpoint
+ */
+export interface FakeDraft {
+  inboxId: string;
+  draftId: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Who a request is authenticated as
+ */
+type FakeCaller = Pick<ApiKeyRecord, 'organization_id' | 'created_at'>;
+
+interface FakeResponse {
+  status: number;
+  body: unknown;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function errorBody(status: number, name: string, message: string): FakeResponse {
+  return { status, body: { name, message } };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function idempotencyKey(req: http.IncomingMessage): string | undefined {
+  const value = req.headers['idempotency-key'];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// ============================================================================
+// FAKE API SERVER
+// ============================================================================
+
+export class MockAgentMailApi {
+  private server: http.Server;
+  private forcedStatus: number | null = null;
+  private rejectedRecipients: Map<string, { status: number; name: string }> = new Map();
+
+  /** Messages accepted by the send endpoint, oldest first */
+  readonly sentMessages: FakeSentMessage[] = [];
+
+  /** Drafts created by the drafts endpoint, oldest first */
+  readonly drafts: FakeDraft[] = [];
+
+  constructor(private provider: CredentialProvider = createMockCredentialProvider()) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req)
+        .catch(error => errorBody(500, 'InternalServerError', (error as Error).message))
+        .then(({ status, body }) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(body));
+        });
+    });
+  }
+
+  /**
+   * Start listening. Use port 0 for an ephemeral port.
+   *
+   * @returns The bound port
+   */
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        const address = this.server.address() as AddressInfo;
+        Logger.info('Fake AgentMail API listening', { host, port: address.port });
+        resolve(address.port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Answer every request with this HTTP status (e.g. 503) until cleared
+   * with null. Used to exercise outage handling.
+   */
+  setFailure(status: number | null): void {
+    this.forcedStatus = status;
+  }
+
+  /**
+   * Fail sends that include this recipient, e.g. (422, 'RecipientNotFound').
+   * Used to exercise per-recipient results.
+   */
+  rejectRecipient(address: string, status: number, name: string): void {
+    this.rejectedRecipients.set(address.toLowerCase(), { status, name });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // REQUEST HANDLING
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private async handle(req: http.IncomingMessage): Promise<FakeResponse> {
+    if (this.forcedStatus !== null) {
+      return errorBody(this.forcedStatus, 'ForcedFailure', `Forced HTTP ${this.forcedStatus}`);
+    }
+
+    const caller = await this.authenticate(req.headers.authorization);
+    if (!caller) {
+      return errorBody(401, 'UnauthorizedError', 'Invalid API key');
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (req.method === 'GET' && parts.join('/') === 'v0/organizations') {
+      return { status: 200, body: this.organization(caller) };
+    }
+
+    if (parts[0] === 'v0' && parts[1] === 'inboxes' && parts[2]) {
+      const inbox = await this.provider.getInbox(parts[2]);
+      if (!inbox || inbox.organization_id !== caller.organization_id) {
+        return errorBody(404, 'NotFoundError', `Inbox not found: ${parts[2]}`);
+      }
+
+      if (req.method === 'GET' && parts.length === 3) {
+        return {
+          status: 200,
+          body: {
+            pod_id: `pod_${inbox.organization_id}`,
+            inbox_id: inbox.inbox_id,
+            email: inbox.email_address,
+            display_name: inbox.display_name,
+            created_at: inbox.created_at,
+            updated_at: inbox.created_at
+          }
+        };
+      }
+
+      if (req.method === 'POST' && parts.slice(3).join('/') === 'messages/send') {
+        return this.send(inbox.inbox_id, await readBody(req), idempotencyKey(req));
+      }
+
+      if (req.method === 'POST' && parts.slice(3).join('/') === 'messages/send-raw') {
+        return this.sendRaw(inbox.inbox_id, await readBody(req), idempotencyKey(req));
+      }
+
+      if (req.method === 'POST' && parts.slice(3).join('/') === 'drafts') {
+        return this.createDraft(inbox.inbox_id, await readBody(req));
+      }
+
+      if (parts[3] === 'messages' && parts[4]) {
+        const original = this.sentMessages.find(sent => sent.inboxId === inbox.inbox_id && sent.messageId === parts[4]);
+        if (!original) {
+          return errorBody(404, 'NotFoundError', `Message not found: ${parts[4]}`);
+        }
+
+        if (req.method === 'GET' && parts.length === 5) {
+          return { status: 200, body: this.message(original) };
+        }
+
+        if (req.method === 'POST' && parts[5] === 'reply' && parts.length === 6) {
+          return this.send(inbox.inbox_id, await readBody(req), idempotencyKey(req), original);
+        }
+      }
+    }
+
+    return errorBody(404, 'NotFoundError', `No route for ${req.method} ${url.pathname}`);
+  }
+
+  /**
+   * Resolve a Bearer token to a live API key record.
+   */
+  private async authenticate(header: string | undefined): Promise<FakeCaller | null> {
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token) {
+      return null;
+    }
+
+    const candidates = await this.provider.findApiKeysByPrefix(getApiKeyPrefix(token));
+    const record = candidates.find(candidate => verifyApiKey(token, candidate.key_hash));
+    if (!record || record.revoked_at) {
+      return null;
+    }
+    if (record.expires_at && new Date(record.expires_at) < new Date()) {
+      return null;
+    }
+    return record;
+  }
+
+  private organization(caller: FakeCaller): Record<string, unknown> {
+    return {
+      organization_id: caller.organization_id,
+      inbox_count: 0,
+      domain_count: 0,
+      created_at: caller.created_at,
+      updated_at: caller.created_at
+    };
+  }
+
+  /**
+   * Accept an unchanged RFC 5322 message. Recorded like a structured send,
+   * with the decoded bytes in body.raw.
+   */
+  private sendRaw(inboxId: string, rawBody: string, key?: string): FakeResponse {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return errorBody(400, 'ValidationError', 'Request body is not valid JSON');
+    }
+    if (typeof body.raw !== 'string' || !Array.isArray(body.recipients) || body.recipients.length === 0) {
+      return errorBody(400, 'ValidationError', 'raw (base64) and recipients are required');
+    }
+
+    return this.send(inboxId, JSON.stringify({
+      raw: Buffer.from(body.raw, 'base64').toString('utf8'),
+      recipients: body.recipients
+    }), key);
+  }
+
+  private createDraft(inboxId: string, rawBody: string): FakeResponse {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return errorBody(400, 'ValidationError', 'Request body is not valid JSON');
+    }
+
+    const draftId = `drf_${crypto.randomUUID()}`;
+    const now = new Date().toISOString();
+    this.drafts.push({ inboxId, draftId, body });
+    Logger.info('Fake AgentMail API created draft', { inboxId, draftId, sendAt: body.send_at });
+
+    return {
+      status: 200,
+      body: {
+        ...body,
+        inbox_id: inboxId,
+        draft_id: draftId,
+        labels: body.labels || [],
+        ...(body.send_at ? { send_status: 'scheduled' } : {}),
+        updated_at: now,
+        created_at: now
+      }
+    };
+  }
+
+  private message(sent: FakeSentMessage): Record<string, unknown> {
+    return {
+      inbox_id: sent.inboxId,
+      thread_id: sent.threadId,
+      message_id: sent.messageId,
+      labels: ['sent'],
+      timestamp: sent.sentAt,
+      from: sent.inboxId,
+      to: sent.body.to || [],
+      subject: sent.body.subject,
+      in_reply_to: sent.inReplyTo,
+      size: JSON.stringify(sent.body).length,
+      updated_at: sent.sentAt,
+      created_at: sent.sentAt
+    };
+  }
+
+  /**
+   * Accept a message, in the thread of `original` when it is a reply.
+   */
+  private send(inboxId: string, rawBody: string, key?: string, original?: FakeSentMessage): FakeResponse {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(rawBody || '{}');
+    } catch {
+      return errorBody(400, 'ValidationError', 'Request body is not valid JSON');
+    }
+
+    const recipients = ([] as unknown[]).concat(body.to ?? [], body.cc ?? [], body.bcc ?? [], body.recipients ?? []);
+    for (const address of recipients) {
+      const rejection = typeof address === 'string' ? this.rejectedRecipients.get(address.toLowerCase()) : undefined;
+      if (rejection) {
+        return errorBody(rejection.status, rejection.name, `Recipient rejected: ${address}`);
+      }
+    }
+
+    const previous = key ? this.sentMessages.find(sent => sent.inboxId === inboxId && sent.idempotencyKey === key) : undefined;
+    if (previous) {
+      Logger.info('Fake AgentMail API replayed idempotent send', { inboxId, messageId: previous.messageId });
+      return { status: 200, body: { message_id: previous.messageId, thread_id: previous.threadId } };
+    }
+
+    const messageId = `<${crypto.randomUUID()}@fake.agentmail.to>`;
+    const threadId = original ? original.threadId : `thd_${crypto.randomUUID()}`;
+    this.sentMessages.push({
+      inboxId,
+      messageId,
+      threadId,
+      inReplyTo: original?.messageId,
+      idempotencyKey: key,
+      body,
+      sentAt: new Date().toISOString()
+    });
+    Logger.info('Fake AgentMail API accepted message', { inboxId, messageId, threadId, inReplyTo: original?.messageId });
+
+    return {
+      status: 200,
+      body: { message_id: messageId, thread_id: threadId }
+    };
+  }
+}
@@ -13,29 +13,21 @@
  */
 
 import { config } from '../config';
+import { ApiKeyRecord, InboxRecord, InMemoryCredentialProvider } from '../auth/credential-provider';
+import { getApiKeyPrefix, hashApiKey } from '../auth/api-key-hash';
+import { createScramCredential } from '../auth/scram';
 
 // ============================================================================
 // MOCK DATA TYPES
 // ============================================================================
 
-export interface MockInbox {
-  inbox_id: string;
-  email_address: string;
-  organization_id: string;
-  status: 'active' | 'disabled' | 'suspended';
-  display_name?: string;
-  created_at: string;
-}
+export type MockInbox = InboxRecord;
 
-export interface MockApiKey {
-  api_key_id: string;
-  organization_id: string;
-  revoked_at: string | null;
-  expires_at: string | null;
-  scopes: string[];
-  name: string;
-  created_at: string;
-}
+/**
+ * Mock API key fixture. Keyed by the raw key in MOCK_API_KEYS so test
+ * scenarios can be read off directly; hashed when loaded into a provider.
+ */
+export type MockApiKey = Omit<ApiKeyRecord, 'key_prefix' | 'key_hash' | 'scram_sha256' | 'scram_sealed_key'>;
 
 // ============================================================================
 // MOCK DATA
@@ -230,13 +222,10 @@ export async function getInbox(inbox_id: string): Promise<MockInbox | null> {
 }
 
 /**
- * Look up an API key by the raw key value
- *
- * In production, this would:
- * 1. Hash the API key
- * 2. Query api-key-table by hash
+ * Look up an API key fixture by the raw key value
  *
- * For demo, we just do direct lookup.
+ * Fixture access only: the server authenticates through
+ * createMockCredentialProvider(), which holds hashed keys.
  */
 export async function getApiKey(apiKey: string): Promise<MockApiKey | null> {
   await simulateLatency();
@@ -268,6 +257,22 @@ export async function getApiKeyWithPossibleError(apiKey: string): Promise<MockAp
   return getApiKey(apiKey);
 }
 
+/**
+ * Credential provider backed by the mock tables.
+ *
+ * Used by the server when no credentials file is configured. API keys are
+ * hashed on the way in, so the provider never holds a raw key.
+ */
+export function createMockCredentialProvider(): InMemoryCredentialProvider {
+  const apiKeys: ApiKeyRecord[] = Object.entries(MOCK_API_KEYS).map(([key, record]) => ({
+    ...record,
+    key_prefix: getApiKeyPrefix(key),
+    key_hash: hashApiKey(key),
+    ...createScramCredential(key)
+  }));
+  return new InMemoryCredentialProvider(MOCK_INBOXES, apiKeys);
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
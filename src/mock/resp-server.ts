@@ -0,0 +1,298 @@
+/**
+ * Mock RESP Server for SMTP Demo
+ *
+ * In-process stand-in for Redis that speaks RESP2 over TCP.
+ * Implements just the commands the gateway uses, with millisecond TTLs,
+ * so RedisSessionStore can be exercised without a real Redis.
+ *
+ * Supported commands:
+ * - PING, AUTH, SELECT, FLUSHDB
+ * - GET, SET (EX/PX/NX), MGET, DEL, EXISTS, PTTL, INCR, PEXPIRE
+ * - ZADD, ZREM, ZCARD, ZRANGE, ZRANGEBYSCORE, ZREMRANGEBYSCORE
+ */
+
+import net from 'net';
+import { decodeValue, RespError, RespValue } from '../redis/resp-client';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// STORAGE TYPES
+// ============================================================================
+
+interface StringEntry {
+  type: 'string';
+  value: string;
+  expiresAt?: number;
+}
+
+interface SortedSetEntry {
+  type: 'zset';
+  members: Map<string, number>;
+  expiresAt?: number;
+}
+
+type Entry = StringEntry | SortedSetEntry;
+
+// ============================================================================
+// REPLY ENCODING
+// ============================================================================
+
+function encodeReply(value: RespValue | RespError): string {
+  if (value instanceof RespError) {
+    return `-${value.message}\r\n`;
+  }
+  if (value === null) {
+    return '$-1\r\n';
+  }
+  if (typeof value === 'number') {
+    return `:${value}\r\n`;
+  }
+  if (Array.isArray(value)) {
+    return `*${value.length}\r\n` + value.map(encodeReply).join('');
+  }
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+const OK = 'OK';
+
+// ============================================================================
+// MOCK SERVER
+// ============================================================================
+
+export class MockRespServer {
+  private data: Map<string, Entry> = new Map();
+  private server: net.Server;
+
+  constructor() {
+    this.server = net.createServer(socket => this.handleConnection(socket));
+  }
+
+  /**
+   * Start listening. Use port 0 for an ephemeral port.
+   *
+   * @returns The bound port
+   */
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        const address = this.server.address() as net.AddressInfo;
+        Logger.info('Mock RESP server listening', { host, port: address.port });
+        resolve(address.port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // CONNECTION HANDLING
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private handleConnection(socket: net.Socket): void {
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let offset = 0;
+      for (;;) {
+        const decoded = decodeValue(buffer, offset);
+        if (!decoded) {
+          break;
+        }
+        offset = decoded.next;
+
+        const args = Array.isArray(decoded.value) ? decoded.value.map(String) : [];
+        socket.write(encodeReply(this.execute(args)));
+      }
+      buffer = buffer.subarray(offset);
+    });
+
+    socket.on('error', () => socket.destroy());
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // COMMANDS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private execute(args: string[]): RespValue | RespError {
+    const [name, ...rest] = args;
+
+    switch ((name || '').toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'AUTH':
+      case 'SELECT':
+        return OK;
+      case 'FLUSHDB':
+        this.data.clear();
+        return OK;
+      case 'GET':
+        return this.getString(rest[0]);
+      case 'SET':
+        return this.set(rest);
+      case 'MGET':
+        return rest.map(key => this.getString(key));
+      case 'DEL':
+        return rest.filter(key => this.lookup(key) && this.data.delete(key)).length;
+      case 'EXISTS':
+        return rest.filter(key => this.lookup(key)).length;
+      case 'PTTL':
+        return this.pttl(rest[0]);
+      case 'PEXPIRE':
+        return this.pexpire(rest[0], parseInt(rest[1]));
+      case 'INCR':
+        return this.incr(rest[0]);
+      case 'ZADD':
+        return this.zadd(rest[0], rest.slice(1));
+      case 'ZREM':
+        return this.zrem(rest[0], rest.slice(1));
+      case 'ZCARD':
+        return this.getSortedSet(rest[0])?.members.size ?? 0;
+      case 'ZRANGE':
+        return this.zrange(rest[0], parseInt(rest[1]), parseInt(rest[2]));
+      case 'ZRANGEBYSCORE':
+        return this.zrangeByScore(rest[0], rest[1], rest[2]).map(([member]) => member);
+      case 'ZREMRANGEBYSCORE':
+        return this.zremRangeByScore(rest[0], rest[1], rest[2]);
+      default:
+        return new RespError(`ERR unknown command '${name}'`);
+    }
+  }
+
+  /**
+   * Look up a key, evicting it if its TTL has passed.
+   */
+  private lookup(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private getString(key: string): string | null {
+    const entry = this.lookup(key);
+    return entry?.type === 'string' ? entry.value : null;
+  }
+
+  private getSortedSet(key: string): SortedSetEntry | undefined {
+    const entry = this.lookup(key);
+    return entry?.type === 'zset' ? entry : undefined;
+  }
+
+  private set(args: string[]): RespValue {
+    const [key, value, ...options] = args;
+    let expiresAt: number | undefined;
+    let onlyIfMissing = false;
+
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i].toUpperCase();
+      if (option === 'PX') {
+        expiresAt = Date.now() + parseInt(options[++i]);
+      } else if (option === 'EX') {
+        expiresAt = Date.now() + parseInt(options[++i]) * 1000;
+      } else if (option === 'NX') {
+        onlyIfMissing = true;
+      }
+    }
+
+    if (onlyIfMissing && this.lookup(key)) {
+      return null;
+    }
+
+    this.data.set(key, { type: 'string', value, expiresAt });
+    return OK;
+  }
+
+  private pttl(key: string): number {
+    const entry = this.lookup(key);
+    if (!entry) {
+      return -2;
+    }
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+  }
+
+  private pexpire(key: string, ttlMs: number): number {
+    const entry = this.lookup(key);
+    if (!entry) {
+      return 0;
+    }
+    entry.expiresAt = Date.now() + ttlMs;
+    return 1;
+  }
+
+  private incr(key: string): RespValue | RespError {
+    const entry = this.lookup(key);
+    const current = entry?.type === 'string' ? parseInt(entry.value) : 0;
+    if (Number.isNaN(current)) {
+      return new RespError('ERR value is not an integer or out of range');
+    }
+    this.data.set(key, { type: 'string', value: String(current + 1), expiresAt: entry?.expiresAt });
+    return current + 1;
+  }
+
+  private zadd(key: string, scoreMembers: string[]): number {
+    let entry = this.getSortedSet(key);
+    if (!entry) {
+      entry = { type: 'zset', members: new Map() };
+      this.data.set(key, entry);
+    }
+
+    let added = 0;
+    for (let i = 0; i + 1 < scoreMembers.length; i += 2) {
+      if (!entry.members.has(scoreMembers[i + 1])) {
+        added++;
+      }
+      entry.members.set(scoreMembers[i + 1], parseFloat(scoreMembers[i]));
+    }
+    return added;
+  }
+
+  private zrem(key: string, members: string[]): number {
+    const entry = this.getSortedSet(key);
+    if (!entry) {
+      return 0;
+    }
+    return members.filter(member => entry.members.delete(member)).length;
+  }
+
+  private sorted(key: string): Array<[string, number]> {
+    const entry = this.getSortedSet(key);
+    if (!entry) {
+      return [];
+    }
+    return Array.from(entry.members.entries()).sort((a, b) => a[1] - b[1]);
+  }
+
+  private zrange(key: string, start: number, stop: number): string[] {
+    const members = this.sorted(key).map(([member]) => member);
+    const from = start < 0 ? members.length + start : start;
+    const to = stop < 0 ? members.length + stop : stop;
+    return members.slice(Math.max(from, 0), to + 1);
+  }
+
+  private zrangeByScore(key: string, min: string, max: string): Array<[string, number]> {
+    const inRange = (score: number, bound: string, isMin: boolean): boolean => {
+      if (bound === '-inf') return true;
+      if (bound === '+inf') return true;
+      const exclusive = bound.startsWith('(');
+      const limit = parseFloat(exclusive ? bound.slice(1) : bound);
+      if (isMin) {
+        return exclusive ? score > limit : score >= limit;
+      }
+      return exclusive ? score < limit : score <= limit;
+    };
+
+    return this.sorted(key).filter(([, score]) => inRange(score, min, true) && inRange(score, max, false));
+  }
+
+  private zremRangeByScore(key: string, min: string, max: string): number {
+    const removed = this.zrangeByScore(key, min, max).map(([member]) => member);
+    return this.zrem(key, removed);
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Delivery Queue
+ *
+ * Store-and-forward delivery (DELIVERY_MODE=queue). onData spools the
+ * message and answers 250 with the queue ID; a pool of QUEUE_WORKERS
+ * workers delivers spooled messages to AgentMail in the background:
+ *
+ * - delivered → removed from the spool
+ * - retryable failure (isRetryableHttpStatus: 429, 5xx, timeouts, network
+ *   errors) → retried with exponential backoff, QUEUE_RETRY_BASE_MS doubling
+ *   up to QUEUE_RETRY_MAX_MS
+ * - permanent failure, or still failing after QUEUE_MAX_AGE_MS → moved to
+ *   the spool's failed directory, and a "failed" DSN is sent to the
+ *   sending inbox
+ * - still being retried DSN_DELAY_WARNING_MS after acceptance → one
+ *   "delayed" DSN per message
+ * - recipients with NOTIFY=SUCCESS get a "relayed" DSN once sent (not for drafts);
+ *   NOTIFY=NEVER recipients get no DSN at all
+ *
+ * Spooled messages are picked up again after a restart. A crash between a
+ * successful API call and the spool removal means the message is sent
+ * again (at-least-once delivery), unless AgentMail recognises the
+ * entry's Idempotency-Key.
+ */
+
+import type { AgentMailClient } from '../api/agentmail-client';
+import { AgentMailAPIError } from '../api/agentmail-client';
+import { SMTPErrorResult, isRetryableHttpStatus } from '../errors/http-to-smtp-mapping';
+import { DeliveryRequest, DeliveryResult, deliverMessage } from '../email/delivery';
+import { EnvelopeDsn, SendingInbox } from '../session/session-state';
+import { Spool, SpoolEntry } from './spool';
+import { DsnAction, DsnRecipient, extractHeaderSection } from './dsn';
+import { DsnSettings, sendDsn } from './dsn-sink';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QueueSettings {
+  /** Concurrent deliveries */
+  workers: number;
+  /** Delay before the first retry (ms) */
+  retryBaseMs: number;
+  /** Longest delay between retries (ms) */
+  retryMaxMs: number;
+  /** Give up on a message this long after it was accepted (ms) */
+  maxAgeMs: number;
+}
+
+/**
+ * A message accepted for queued delivery
+ */
+export interface QueueSubmission {
+  inbox: SendingInbox;
+  organizationId: string;
+  /** API key of the session (the organization's service key for bearer sessions) */
+  apiKey: string;
+  request: DeliveryRequest;
+  /** Envelope recipients with their NOTIFY/ORCPT parameters */
+  recipients: DsnRecipient[];
+  /** RET/ENVID of MAIL FROM */
+  envelopeDsn?: EnvelopeDsn;
+  /** Original message as received in DATA, for DSNs */
+  original: Buffer;
+}
+
+/**
+ * Builds an API client for a spooled message's credential
+ */
+export type ClientFactory = (apiKey: string) => AgentMailClient;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Reported for failures that are not API errors (e.g. an unreadable credential) */
+const LOCAL_FAILURE: SMTPErrorResult = {
+  smtpCode: 554,
+  enhancedCode: '5.3.0',
+  message: 'Message could not be delivered',
+  retryable: false
+};
+
+/** HTTP statuses meaning the API refused the message's credential */
+const CREDENTIAL_REJECTED = [401, 403];
+
+/** Reported in success DSNs */
+const RELAYED: SMTPErrorResult = {
+  smtpCode: 250,
+  enhancedCode: '2.0.0',
+  message: 'Message accepted by AgentMail',
+  retryable: false
+};
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+export class DeliveryQueue {
+  private pending: Map<string, SpoolEntry> = new Map();
+  private active: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private spool: Spool,
+    private settings: QueueSettings,
+    private createClient: ClientFactory,
+    private dsn: DsnSettings | null = null
+  ) {}
+
+  /**
+   * Load the spool and start delivering.
+   *
+   * @returns Number of messages found in the spool
+   */
+  async start(): Promise<number> {
+    await this.spool.init();
+    for (const entry of await this.spool.list()) {
+      this.pending.set(entry.id, entry);
+    }
+    this.pump();
+    return this.pending.size;
+  }
+
+  /**
+   * Spool a message for delivery. Resolves once the message is on disk,
+   * i.e. when it is safe to answer 250.
+   *
+   * @returns Queue ID
+   */
+  async enqueue(submission: QueueSubmission): Promise<string> {
+    const { inbox, request, envelopeDsn } = submission;
+    const id = this.spool.createId();
+    const now = Date.now();
+    const entry: SpoolEntry = {
+      id,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      inbox,
+      organization_id: submission.organizationId,
+      credential: this.spool.sealCredential(id, submission.apiKey),
+      message: request.message,
+      raw: request.raw?.toString('base64'),
+      replyTarget: request.replyTarget,
+      idempotencyKey: request.idempotencyKey,
+      recipients: submission.recipients,
+      envelopeDsn,
+      originalHeaders: extractHeaderSection(submission.original),
+      // Failure DSNs return the whole message only with RET=FULL
+      originalMessage: envelopeDsn?.ret === 'FULL' ? submission.original.toString('base64') : undefined
+    };
+
+    await this.spool.write(entry);
+    this.pending.set(id, entry);
+
+    Logger.info('Message spooled', { queueId: id, inbox_id: inbox.inbox_id });
+
+    this.pump();
+    return id;
+  }
+
+  /**
+   * Stop starting deliveries (in-flight ones finish or are retried after restart)
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue size (for stats)
+   */
+  getStats(): { pending: number; active: number } {
+    return { pending: this.pending.size, active: this.active.size };
+  }
+
+  /**
+   * Start due deliveries up to the worker limit and schedule the next wakeup
+   */
+  private pump(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const now = Date.now();
+    const waiting = [...this.pending.values()]
+      .filter(entry => !this.active.has(entry.id))
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+    for (const entry of waiting) {
+      if (this.active.size >= this.settings.workers || entry.nextAttemptAt > now) {
+        break;
+      }
+      this.active.add(entry.id);
+      this.attempt(entry)
+        .catch(error => {
+          Logger.error('Spool update failed', { queueId: entry.id, error: (error as Error).message });
+        })
+        .finally(() => {
+          this.active.delete(entry.id);
+          this.pump();
+        });
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const next = waiting.find(entry => !this.active.has(entry.id));
+    if (next && this.active.size < this.settings.workers) {
+      this.timer = setTimeout(() => this.pump(), Math.max(next.nextAttemptAt - now, 0));
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * One delivery attempt; updates or removes the spool entry
+   */
+  private async attempt(entry: SpoolEntry): Promise<void> {
+    entry.attempts++;
+
+    let result: DeliveryResult;
+    try {
+      const client = this.createClient(this.spool.openCredential(entry));
+      result = await deliverMessage(client, Spool.toDeliveryRequest(entry));
+    } catch (error) {
+      await this.deliveryFailed(entry, error);
+      return;
+    }
+    await this.delivered(entry, result);
+  }
+
+  /**
+   * Bookkeeping after AgentMail accepted the message. Nothing here may
+   * count as a delivery failure: the message must not be failed or sent
+   * again.
+   */
+  private async delivered(entry: SpoolEntry, result: DeliveryResult): Promise<void> {
+    this.pending.delete(entry.id);
+    Logger.info('Spooled message delivered', {
+      queueId: entry.id,
+      messageId: result.id,
+      threadId: result.threadId,
+      attempts: entry.attempts
+    });
+
+    try {
+      await this.spool.remove(entry.id);
+    } catch (error) {
+      // Left in the spool, the entry would be sent again after a restart
+      Logger.error('Delivered message could not be removed from the spool, remove it by hand', {
+        queueId: entry.id,
+        error: (error as Error).message
+      });
+    }
+
+    if (!entry.message.draft) {
+      await this.notify(entry, 'relayed', RELAYED);
+    }
+  }
+
+  /**
+   * Retry a failed attempt later, or give up: move the entry to the
+   * failed directory and report it
+   */
+  private async deliveryFailed(entry: SpoolEntry, error: unknown): Promise<void> {
+    entry.lastError = (error as Error).message;
+
+    const retryable = error instanceof AgentMailAPIError && isRetryableHttpStatus(error.httpStatus);
+    // A DSN is not sent with a credential the API has just refused
+    const credentialRejected = error instanceof AgentMailAPIError && CREDENTIAL_REJECTED.includes(error.httpStatus);
+    const result = error instanceof AgentMailAPIError ? error.smtpError : LOCAL_FAILURE;
+    const age = Date.now() - entry.createdAt;
+
+    if (retryable && age < this.settings.maxAgeMs) {
+      entry.nextAttemptAt = Date.now() + this.backoff(entry.attempts);
+      if (this.dsn && this.dsn.delayWarningMs > 0 && age >= this.dsn.delayWarningMs && !entry.delayNotified) {
+        entry.delayNotified = true;
+        await this.notify(entry, 'delayed', result, credentialRejected);
+      }
+      await this.spool.write(entry);
+      Logger.warn('Spooled message delivery deferred', {
+        queueId: entry.id,
+        attempts: entry.attempts,
+        httpStatus: error instanceof AgentMailAPIError ? error.httpStatus : undefined,
+        retryAt: new Date(entry.nextAttemptAt).toISOString()
+      });
+      return;
+    }
+
+    this.pending.delete(entry.id);
+    await this.spool.moveToFailed(entry);
+    Logger.error('Spooled message delivery failed', {
+      queueId: entry.id,
+      attempts: entry.attempts,
+      reason: retryable ? 'expired' : 'permanent',
+      httpStatus: error instanceof AgentMailAPIError ? error.httpStatus : undefined,
+      error: entry.lastError
+    });
+    await this.notify(entry, 'failed', result, credentialRejected);
+  }
+
+  /**
+   * Send a DSN to the sending inbox. Failures are logged, never retried.
+   */
+  private async notify(
+    entry: SpoolEntry,
+    action: DsnAction,
+    result: SMTPErrorResult,
+    credentialRejected = false
+  ): Promise<void> {
+    if (!this.dsn) {
+      return;
+    }
+
+    try {
+      const apiKey = credentialRejected ? null : this.spool.openCredential(entry);
+      const sent = await sendDsn(this.dsn, entry.inbox, apiKey, {
+        action,
+        queueId: entry.id,
+        envid: entry.envelopeDsn?.envid,
+        arrivalDate: new Date(entry.createdAt),
+        lastAttemptDate: new Date(),
+        willRetryUntil: action === 'delayed' ? new Date(entry.createdAt + this.settings.maxAgeMs) : undefined,
+        recipients: entry.recipients,
+        result,
+        originalHeaders: entry.originalHeaders,
+        originalMessage: entry.originalMessage ? Buffer.from(entry.originalMessage, 'base64') : undefined,
+        subject: entry.message.subject
+      });
+      if (sent) {
+        Logger.info('DSN sent', { queueId: entry.id, action, inbox_id: entry.inbox.inbox_id });
+      }
+    } catch (error) {
+      Logger.error('Failed to send DSN', { queueId: entry.id, action, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Delay before the next attempt: doubling from retryBaseMs, capped at
+   * retryMaxMs, with ±10% jitter so retries after an outage spread out
+   */
+  private backoff(attempts: number): number {
+    const delay = Math.min(this.settings.retryBaseMs * 2 ** (attempts - 1), this.settings.retryMaxMs);
+    return Math.round(delay * (0.9 + Math.random() * 0.2));
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * DSN Sinks
+ *
+ * Where delivery status notifications go (DSN_SINK):
+ * - none (default): no DSNs
+ * - agentmail: into the sending inbox, sent from the inbox to its own
+ *   address with messages.send and the message's credential, unless the
+ *   API rejected that credential
+ * - directory: .eml files in DSN_DIR (local testing)
+ *
+ * Only recipients whose NOTIFY asks for the kind of report are listed;
+ * no DSN is sent when none does.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { simpleParser } from 'mailparser';
+import type { ClientFactory } from './delivery-queue';
+import { SendingInbox } from '../session/session-state';
+import { wantsDsn } from '../email/dsn-params';
+import { DsnAction, DsnReport, buildDsn } from './dsn';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DsnSink {
+  /**
+   * Deliver a DSN to the sending inbox
+   *
+   * @param apiKey - Credential of the original message; null if the API rejected it
+   */
+  send(inbox: SendingInbox, apiKey: string | null, dsn: Buffer): Promise<void>;
+}
+
+export interface DsnSettings {
+  sink: DsnSink;
+  /** Host name in Reporting-MTA and the DSN's From: */
+  reportingMta: string;
+  /** Send a delay DSN once a message is this old and still undelivered (ms, 0 = never) */
+  delayWarningMs: number;
+}
+
+/** NOTIFY keyword that asks for each kind of report */
+const NOTIFY_FOR_ACTION = {
+  failed: 'FAILURE',
+  delayed: 'DELAY',
+  relayed: 'SUCCESS',
+} as const satisfies Record<DsnAction, string>;
+
+// ============================================================================
+// IMPLEMENTATIONS
+// ============================================================================
+
+export class AgentMailDsnSink implements DsnSink {
+  constructor(private createClient: ClientFactory) {}
+
+  /**
+   * The API takes structured messages only: the explanation and the
+   * delivery-status block go in the text, the returned headers or message
+   * as an attachment.
+   */
+  async send(inbox: SendingInbox, apiKey: string | null, dsn: Buffer): Promise<void> {
+    if (!apiKey) {
+      throw new Error('The AgentMail API rejected the credential of the message');
+    }
+    const parsed = await simpleParser(dsn);
+    await this.createClient(apiKey).sendMessage({
+      inbox_id: inbox.inbox_id,
+      to: [inbox.email_address],
+      subject: parsed.subject,
+      text: parsed.text,
+      attachments: parsed.attachments.map(attachment => ({
+        filename: attachment.filename
+          || (attachment.contentType === 'message/rfc822' ? 'original-message.eml' : 'original-headers.txt'),
+        content: attachment.content.toString('base64'),
+        contentType: attachment.contentType
+      }))
+    });
+  }
+}
+
+export class DirectoryDsnSink implements DsnSink {
+  constructor(private dir: string) {}
+
+  async send(inbox: SendingInbox, _apiKey: string | null, dsn: Buffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = `${inbox.inbox_id}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    // Renamed into place so a reader of the directory never sees half a file
+    const tmpPath = path.join(this.dir, `.${file}.tmp`);
+    await fs.writeFile(tmpPath, dsn);
+    await fs.rename(tmpPath, path.join(this.dir, file));
+  }
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Build a DSN for the recipients that asked for this kind of report and
+ * deliver it to the sending inbox.
+ *
+ * @returns false if no recipient wants the report
+ */
+export async function sendDsn(
+  settings: DsnSettings,
+  inbox: SendingInbox,
+  apiKey: string | null,
+  report: Omit<DsnReport, 'reportingMta' | 'to'>
+): Promise<boolean> {
+  const recipients = report.recipients.filter(recipient => wantsDsn(recipient, NOTIFY_FOR_ACTION[report.action]));
+  if (recipients.length === 0) {
+    return false;
+  }
+
+  const dsn = buildDsn({ ...report, recipients, reportingMta: settings.reportingMta, to: inbox.email_address });
+  await settings.sink.send(inbox, apiKey, dsn);
+  return true;
+}
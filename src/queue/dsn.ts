@@ -0,0 +1,201 @@
+/**
+ * Delivery Status Notifications
+ *
+ * Builds RFC 3464 DSNs for spooled messages whose delivery failed after the
+ * client already got 250, or is still being retried after
+ * DSN_DELAY_WARNING_MS, and for recipients that asked for success DSNs
+ * (NOTIFY=SUCCESS). A DSN is a multipart/report (RFC 6522) with:
+ * 1. a human-readable explanation (text/plain)
+ * 2. the machine-readable report (message/delivery-status): one block per
+ *    recipient with Action, Status (enhanced code from mapHttpToSmtp) and
+ *    Diagnostic-Code, plus ENVID/ORCPT when the client gave them
+ * 3. the headers of the original message (text/rfc822-headers), or the
+ *    whole message (message/rfc822) for failures with RET=FULL
+ */
+
+import crypto from 'crypto';
+import { SMTPErrorResult } from '../errors/http-to-smtp-mapping';
+import { SessionRecipient } from '../session/session-state';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * failed: delivery given up; delayed: still being retried; relayed: accepted
+ * by AgentMail, which reports nothing further (RFC 3464 2.3.3)
+ */
+export type DsnAction = 'failed' | 'delayed' | 'relayed';
+
+/**
+ * Envelope recipient with its DSN parameters
+ */
+export type DsnRecipient = Pick<SessionRecipient, 'address' | 'notify' | 'orcpt'>;
+
+export interface DsnReport {
+  action: DsnAction;
+  /** Reporting MTA host name */
+  reportingMta: string;
+  /** Address the DSN is sent to (the sending inbox) */
+  to: string;
+  queueId: string;
+  /** ENVID of MAIL FROM */
+  envid?: string;
+  arrivalDate: Date;
+  lastAttemptDate: Date;
+  /** For delayed DSNs: when the gateway stops retrying */
+  willRetryUntil?: Date;
+  recipients: DsnRecipient[];
+  /** SMTP reply of the last attempt */
+  result: SMTPErrorResult;
+  /** Header section of the original message */
+  originalHeaders: string;
+  /** Whole original message, returned in failure DSNs (RET=FULL) */
+  originalMessage?: Buffer;
+  /** Subject of the original message, for the human-readable part */
+  subject?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** RFC 3463 X.4.7: delivery time expired */
+const EXPIRED_STATUS = '5.4.7';
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Status code for the report. A message that is given up on after
+ * temporary failures is reported as permanently failed with 5.4.7.
+ */
+export function dsnStatus(action: DsnAction, result: SMTPErrorResult): string {
+  if (action === 'failed' && !result.enhancedCode.startsWith('5.')) {
+    return EXPIRED_STATUS;
+  }
+  return result.enhancedCode;
+}
+
+function humanReadable(report: DsnReport): string {
+  const subject = report.subject ? ` "${report.subject}"` : '';
+  const diagnostic = `${report.result.smtpCode} ${report.result.enhancedCode} ${report.result.message}`;
+  const recipients = report.recipients.map(({ address }) => `  ${address}`);
+
+  if (report.action === 'relayed') {
+    return [
+      `Your message${subject} was accepted by AgentMail for delivery to:`,
+      '',
+      ...recipients,
+      '',
+      'AgentMail does not report further delivery status.',
+    ].join('\r\n');
+  }
+  if (report.action === 'delayed') {
+    return [
+      `Your message${subject} has not been delivered yet to:`,
+      '',
+      ...recipients,
+      '',
+      `The AgentMail API answered: ${diagnostic}`,
+      `Delivery will be retried until ${report.willRetryUntil?.toUTCString()}. You do not need to resend it.`,
+    ].join('\r\n');
+  }
+  return [
+    `Your message${subject} could not be delivered to:`,
+    '',
+    ...recipients,
+    '',
+    `The AgentMail API answered: ${diagnostic}`,
+    'The message will not be retried.',
+  ].join('\r\n');
+}
+
+function deliveryStatus(report: DsnReport): string {
+  const status = dsnStatus(report.action, report.result);
+  const messageFields = [
+    ...(report.envid ? [`Original-Envelope-Id: ${report.envid}`] : []),
+    `Reporting-MTA: dns; ${report.reportingMta}`,
+    `X-AgentMail-Queue-ID: ${report.queueId}`,
+    `Arrival-Date: ${report.arrivalDate.toUTCString()}`,
+  ];
+  const recipientFields = report.recipients.map(({ address, orcpt }) => [
+    ...(orcpt ? [`Original-Recipient: ${orcpt.replace(';', '; ')}`] : []),
+    `Final-Recipient: rfc822; ${address}`,
+    `Action: ${report.action}`,
+    `Status: ${status}`,
+    `Diagnostic-Code: smtp; ${report.result.smtpCode} ${report.result.enhancedCode} ${report.result.message}`,
+    `Last-Attempt-Date: ${report.lastAttemptDate.toUTCString()}`,
+    ...(report.willRetryUntil ? [`Will-Retry-Until: ${report.willRetryUntil.toUTCString()}`] : []),
+  ].join('\r\n'));
+
+  return [messageFields.join('\r\n'), ...recipientFields].join('\r\n\r\n');
+}
+
+/**
+ * CRLF line endings, without trailing blank lines. Works on text decoded
+ * as latin1 too, since it only touches ASCII.
+ */
+function toCrlf(text: string): string {
+  return text.replace(/\r?\n/g, '\r\n').replace(/[ \t\r\n]+$/, '');
+}
+
+/**
+ * Build the DSN message (RFC 5322, CRLF line endings).
+ */
+export function buildDsn(report: DsnReport): Buffer {
+  const boundary = `dsn_${crypto.randomBytes(12).toString('hex')}`;
+  const subject = {
+    failed: 'Undelivered Mail Returned to Sender',
+    delayed: 'Delayed Mail (still being retried)',
+    relayed: 'Successful Mail Delivery Report',
+  }[report.action];
+  // Success and delay reports return headers only (RFC 3461 4.3). A
+  // returned message keeps its own bytes, whatever charset its 8-bit parts use.
+  const [returnedType, returned] = report.action === 'failed' && report.originalMessage
+    ? ['message/rfc822', Buffer.from(toCrlf(report.originalMessage.toString('latin1')), 'latin1')]
+    : ['text/rfc822-headers', Buffer.from(toCrlf(report.originalHeaders), 'utf8')];
+
+  const lines = [
+    `From: Mail Delivery System <MAILER-DAEMON@${report.reportingMta}>`,
+    `To: <${report.to}>`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${report.queueId}.${Date.now()}@${report.reportingMta}>`,
+    'Auto-Submitted: auto-replied',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/report; report-type=delivery-status; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    humanReadable(report),
+    '',
+    `--${boundary}`,
+    'Content-Type: message/delivery-status',
+    '',
+    deliveryStatus(report),
+    '',
+    `--${boundary}`,
+    `Content-Type: ${returnedType}`,
+    '',
+    '',
+  ];
+
+  return Buffer.concat([
+    Buffer.from(lines.join('\r\n'), 'utf8'),
+    returned,
+    Buffer.from(['', '', `--${boundary}--`, ''].join('\r\n'), 'utf8'),
+  ]);
+}
+
+/**
+ * Header section of a raw message (up to the first empty line)
+ */
+export function extractHeaderSection(raw: Buffer): string {
+  const text = raw.toString('latin1');
+  const end = text.search(/\r?\n\r?\n/);
+  return Buffer.from(end === -1 ? text : text.slice(0, end), 'latin1').toString('utf8');
+}
@@ -0,0 +1,255 @@
+/**
+ * Message Spool
+ *
+ * Durable on-disk store for messages accepted with 250 but not yet
+ * delivered to AgentMail (DELIVERY_MODE=queue). One JSON file per message
+ * in SPOOL_DIR; messages that failed for good are moved to SPOOL_DIR/failed.
+ *
+ * Every write goes to a temporary file that is fsync'd, renamed over the
+ * entry and followed by an fsync of the directory, so an accepted message
+ * survives a crash or power loss and an entry is never half-written.
+ *
+ * The sender's API key is needed again at delivery time.
+ * It is stored sealed with AES-256-GCM under the spool key (SPOOL_KEY, or
+ * SPOOL_KEY_FILE, generated on first start), bound to the entry ID. The key
+ * never lives in SPOOL_DIR, so a copy of the spool alone does not reveal the
+ * API keys in it, and an entry moved to failed/ keeps no credential at all.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { TransformedMessage } from '../email/transformer';
+import type { DeliveryRequest } from '../email/delivery';
+import type { EnvelopeDsn, SendingInbox } from '../session/session-state';
+import type { DsnRecipient } from './dsn';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A spooled message, as stored on disk
+ */
+export interface SpoolEntry {
+  /** Queue ID, given to the client in the 250 reply */
+  id: string;
+  /** Accepted at (epoch ms) */
+  createdAt: number;
+  attempts: number;
+  /** Next delivery attempt (epoch ms) */
+  nextAttemptAt: number;
+  /** Last delivery error, for logs and inspection */
+  lastError?: string;
+  /** A delay DSN has been sent */
+  delayNotified?: boolean;
+  inbox: SendingInbox;
+  organization_id: string;
+  /** API key, sealed (iv | auth tag | ciphertext, base64); dropped in failed/ */
+  credential: string;
+  message: TransformedMessage;
+  /** DATA bytes (base64), for raw MIME passthrough */
+  raw?: string;
+  replyTarget: string | null;
+  /** Idempotency-Key for every delivery attempt */
+  idempotencyKey?: string;
+  /** Envelope recipients with their NOTIFY/ORCPT parameters */
+  recipients: DsnRecipient[];
+  /** RET/ENVID of MAIL FROM */
+  envelopeDsn?: EnvelopeDsn;
+  /** Header section of the original message, for DSNs */
+  originalHeaders: string;
+  /** Whole original message (base64), kept for failure DSNs with RET=FULL */
+  originalMessage?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ENTRY_SUFFIX = '.json';
+const FAILED_DIR = 'failed';
+
+// ============================================================================
+// SPOOL
+// ============================================================================
+
+export class Spool {
+  private key: Buffer | null = null;
+
+  /**
+   * @param dir - Spool directory (created if missing)
+   * @param configuredKey - Base64 AES-256 key; empty to use keyFile
+   * @param keyFile - Key file outside dir, generated if missing
+   */
+  constructor(private dir: string, private configuredKey: string, private keyFile: string = '') {}
+
+  /**
+   * Create the spool directories and load the spool key.
+   *
+   * @throws Error if neither a key nor a key file outside the spool is configured
+   */
+  async init(): Promise<void> {
+    if (!this.configuredKey) {
+      if (!this.keyFile) {
+        throw new Error('SPOOL_KEY or SPOOL_KEY_FILE is required with DELIVERY_MODE=queue');
+      }
+      const relative = path.relative(path.resolve(this.dir), path.resolve(this.keyFile));
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        throw new Error('SPOOL_KEY_FILE must not be inside SPOOL_DIR');
+      }
+    }
+    await fs.mkdir(path.join(this.dir, FAILED_DIR), { recursive: true, mode: 0o700 });
+    this.key = this.configuredKey ? Buffer.from(this.configuredKey, 'base64') : await this.loadKeyFile();
+    if (this.key.length !== 32) {
+      throw new Error('Invalid spool key: expected 32 bytes (base64)');
+    }
+  }
+
+  /**
+   * New queue ID
+   */
+  createId(): string {
+    return `q_${Date.now().toString(36)}${crypto.randomBytes(6).toString('hex')}`;
+  }
+
+  /**
+   * Seal a credential for an entry
+   */
+  sealCredential(id: string, credential: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.requireKey(), iv);
+    cipher.setAAD(Buffer.from(id));
+    const ciphertext = Buffer.concat([cipher.update(credential, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  /**
+   * Unseal the credential of an entry
+   *
+   * @throws Error if the entry was sealed under another spool key or altered
+   */
+  openCredential(entry: SpoolEntry): string {
+    const sealed = Buffer.from(entry.credential, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.requireKey(), sealed.subarray(0, 12));
+    decipher.setAAD(Buffer.from(entry.id));
+    decipher.setAuthTag(sealed.subarray(12, 28));
+    return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Durably write (create or replace) an entry. Resolves once it is on disk.
+   */
+  async write(entry: SpoolEntry): Promise<void> {
+    await this.writeDurably(this.entryPath(entry.id), JSON.stringify(entry));
+  }
+
+  /**
+   * All spooled entries; unreadable files are logged and skipped
+   */
+  async list(): Promise<SpoolEntry[]> {
+    const entries: SpoolEntry[] = [];
+    for (const file of await fs.readdir(this.dir)) {
+      if (!file.endsWith(ENTRY_SUFFIX)) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8')));
+      } catch (error) {
+        Logger.error('Unreadable spool entry skipped', { file, error: (error as Error).message });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Delete a delivered entry
+   */
+  async remove(id: string): Promise<void> {
+    await fs.rm(this.entryPath(id), { force: true });
+    await this.syncDirectory(this.dir);
+  }
+
+  /**
+   * Move an entry that will not be retried to the failed directory, without
+   * its credential: nothing will send it again.
+   */
+  async moveToFailed(entry: SpoolEntry): Promise<void> {
+    const { credential: _credential, ...failed } = entry;
+    await this.writeDurably(path.join(this.dir, FAILED_DIR, `${entry.id}${ENTRY_SUFFIX}`), JSON.stringify(failed));
+    await this.remove(entry.id);
+  }
+
+  /**
+   * Delivery request for an entry (revives the Date and Buffer fields)
+   */
+  static toDeliveryRequest(entry: SpoolEntry): DeliveryRequest {
+    const message = { ...entry.message };
+    if (message.draft?.sendAt) {
+      message.draft = { sendAt: new Date(message.draft.sendAt) };
+    }
+    return {
+      message,
+      raw: entry.raw ? Buffer.from(entry.raw, 'base64') : undefined,
+      replyTarget: entry.replyTarget,
+      idempotencyKey: entry.idempotencyKey
+    };
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.dir, `${id}${ENTRY_SUFFIX}`);
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new Error('Spool not initialized');
+    }
+    return this.key;
+  }
+
+  /**
+   * Read the key file, creating it on first start
+   */
+  private async loadKeyFile(): Promise<Buffer> {
+    const keyPath = this.keyFile;
+    try {
+      return Buffer.from((await fs.readFile(keyPath, 'utf8')).trim(), 'base64');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const key = crypto.randomBytes(32);
+    await fs.mkdir(path.dirname(keyPath), { recursive: true, mode: 0o700 });
+    await this.writeDurably(keyPath, key.toString('base64'));
+    Logger.info('Spool key generated', { path: keyPath });
+    return key;
+  }
+
+  /**
+   * Write to a temporary file, fsync it, rename it into place and fsync
+   * the directory so the rename itself is durable.
+   */
+  private async writeDurably(filePath: string, data: string): Promise<void> {
+    const tmpPath = `${filePath}.tmp`;
+    const handle = await fs.open(tmpPath, 'w', 0o600);
+    try {
+      await handle.writeFile(data, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tmpPath, filePath);
+    await this.syncDirectory(path.dirname(filePath));
+  }
+
+  private async syncDirectory(dir: string): Promise<void> {
+    const handle = await fs.open(dir, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Minimal RESP (Redis Serialization Protocol) Client
+ *
+ * Speaks RESP2 over a single TCP connection with request pipelining.
+ * Only what the gateway needs: send a command, get the reply.
+ *
+ * Works against Redis, Valkey, KeyDB, or the in-process stand-in
+ * in mock/resp-server.ts.
+ */
+
+import net from 'net';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A decoded RESP2 reply.
+ * Bulk strings decode to string, null bulk/array to null.
+ */
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * Error reply from the server (e.g. "-ERR unknown command").
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+/**
+ * Connection options parsed from a redis:// URL
+ */
+export interface RespClientOptions {
+  host: string;
+  port: number;
+  password?: string;
+  db?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// URL PARSING
+// ============================================================================
+
+/**
+ * Parse a redis://[:password@]host[:port][/db] URL.
+ */
+export function parseRedisUrl(url: string): RespClientOptions {
+  const parsed = new URL(url);
+  const db = parsed.pathname.replace('/', '');
+
+  return {
+    host: parsed.hostname || '127.0.0.1',
+    port: parsed.port ? parseInt(parsed.port) : 6379,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    db: db ? parseInt(db) : undefined
+  };
+}
+
+// ============================================================================
+// ENCODING / DECODING
+// ============================================================================
+
+/**
+ * Encode a command as a RESP array of bulk strings.
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Try to decode one RESP value from the buffer starting at offset.
+ *
+ * @returns The value and the offset after it, or null if the buffer
+ *          does not yet hold a complete value
+ */
+export function decodeValue(
+  buffer: Buffer,
+  offset: number = 0
+): { value: RespValue | RespError; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RespError(line), next: afterLine };
+    case ':':
+      return { value: parseInt(line), next: afterLine };
+    case '$': {
+      const length = parseInt(line);
+      if (length === -1) {
+        return { value: null, next: afterLine };
+      }
+      if (buffer.length < afterLine + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line);
+      if (count === -1) {
+        return { value: null, next: afterLine };
+      }
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = decodeValue(buffer, next);
+        if (!item) {
+          return null;
+        }
+        if (item.value instanceof RespError) {
+          return { value: item.value, next: item.next };
+        }
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new RespError(`Unknown RESP type byte: ${JSON.stringify(type)}`);
+  }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * RESP client with lazy connect and automatic reconnect.
+ *
+ * Commands are pipelined: replies are matched to requests in order.
+ * If the connection drops, pending commands are rejected and the next
+ * command opens a new connection.
+ */
+export class RespClient {
+  private socket?: net.Socket;
+  private connecting?: Promise<net.Socket>;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(private options: RespClientOptions) {}
+
+  /**
+   * Send a command and wait for its reply.
+   *
+   * @throws RespError on an error reply, Error on connection failure
+   */
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Close the connection (for graceful shutdown).
+   */
+  close(): void {
+    if (this.socket) {
+      this.socket.end();
+      this.socket = undefined;
+    }
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.connect(this.options.port, this.options.host);
+
+      socket.once('connect', async () => {
+        this.socket = socket;
+        this.connecting = undefined;
+        try {
+          if (this.options.password) {
+            await this.send(socket, ['AUTH', this.options.password]);
+          }
+          if (this.options.db !== undefined) {
+            await this.send(socket, ['SELECT', this.options.db]);
+          }
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+
+      socket.on('data', chunk => this.onData(chunk));
+
+      socket.on('error', error => {
+        Logger.error('RESP connection error', {
+          host: this.options.host,
+          port: this.options.port,
+          error: error.message
+        });
+        if (this.connecting) {
+          this.connecting = undefined;
+          reject(error);
+        }
+      });
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = undefined;
+        }
+        this.buffer = Buffer.alloc(0);
+        const pending = this.pending;
+        this.pending = [];
+        for (const reply of pending) {
+          reply.reject(new Error('RESP connection closed'));
+        }
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    for (;;) {
+      const decoded = decodeValue(this.buffer, offset);
+      if (!decoded) {
+        break;
+      }
+      offset = decoded.next;
+
+      const reply = this.pending.shift();
+      if (!reply) {
+        Logger.warn('RESP reply without pending command');
+        continue;
+      }
+      if (decoded.value instanceof RespError) {
+        reply.reject(decoded.value);
+      } else {
+        reply.resolve(decoded.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
@@ -3,35 +3,335 @@
  *
  * A demonstration SMTP server showing:
  * - Authentication with inbox_id (username) + API key (password)
+ * - XOAUTH2 / OAUTHBEARER bearer token authentication
+ * - SCRAM-SHA-256 challenge-response authentication
+ * - Organization-wide sessions that pick the sending inbox per message
+ * - STARTTLS with AUTH refused until the connection is encrypted
+ * - SNI certificate selection and certificate hot reload
  * - Stateful session management with command validation
  * - Comprehensive error handling with proper SMTP codes
  * - Message receiving and parsing
+ * - Optional store-and-forward delivery through a durable spool
+ * - DSN extension (RET, ENVID, NOTIFY, ORCPT) and delivery status notifications
  */
 
-import { SMTPServer, SMTPServerAuthentication, SMTPServerSession } from 'smtp-server';
+import {
+  SMTPServer,
+  SMTPServerAddress,
+  SMTPServerAuthentication,
+  SMTPServerAuthenticationResponse,
+  SMTPServerSession
+} from 'smtp-server';
 import { simpleParser, ParsedMail } from 'mailparser';
 import { Readable } from 'stream';
+import { Socket } from 'net';
+import { TLSSocket } from 'tls';
+import fs from 'fs';
 
-import { validateSMTPCredentials } from './auth/validator';
-import { AuthenticatedUser, createSMTPAuthError, AuthErrorCode, AUTH_ERRORS } from './auth/errors';
-import { mapToSMTPError, SMTPErrorCode, createSMTPError } from './errors/mapping';
+import {
+  validateSMTPCredentials,
+  validateSMTPCredentialsLive,
+  validateSMTPBearerToken
+} from './auth/validator';
+import {
+  AuthResult,
+  createAuthError,
+  createSMTPAuthError,
+  AuthErrorCode,
+  AUTH_ERRORS
+} from './auth/errors';
+import { mapErrorName, mapToSMTPError, SMTPError, SMTPErrorCode, createSMTPError } from './errors/mapping';
 import Logger from './utils/logger';
-import { printTestScenarios } from './mock/database';
+import { printTestScenarios, createMockCredentialProvider } from './mock/database';
+import { CredentialProvider } from './auth/credential-provider';
+import { FileCredentialProvider } from './auth/file-credential-provider';
+import { apiKeyVault } from './auth/api-key-vault';
+import { AuthCache } from './auth/auth-cache';
+import { AuthFailureLimiter } from './auth/auth-rate-limiter';
+import { LocalJwtVerifier, TokenVerifier } from './auth/token-verifier';
+import { registerSaslMechanisms } from './auth/sasl-mechanisms';
+import { SCRAM_MECHANISM, ScramCredential, parseScramCredential } from './auth/scram';
+import { findOrganizationInbox, findOrganizationInboxLive } from './auth/sending-inbox';
 import {
   sessionManager,
   SMTPSessionState,
-  ConnectionMetadata
+  ConnectionMetadata,
+  SessionUser,
+  SendingInbox,
+  EnvelopeDsn,
+  SessionRecipient,
+  SMTPSession
 } from './session';
-import { config } from './config';
-import { transformToAgentMailFormat, validateTransformedMessage } from './email/transformer';
+import { config, ListenerConfig } from './config';
+import { MAIL_PARSER_OPTIONS, transformToAgentMailFormat, validateTransformedMessage } from './email/transformer';
+import { SenderNotAuthorized, isAlignedSender } from './email/sender-policy';
+import { RecipientNotInEnvelope, forRecipient } from './email/recipients';
+import { findReplyTarget } from './email/threading';
+import { ControlHeaderError } from './email/control-headers';
+import { InvalidHeaderFormat } from './email/header-policy';
+import { DsnParameterError, EsmtpArgs, parseMailDsnParams, parseRcptDsnParams } from './email/dsn-params';
+import { filterRawHeaders, findRawPassthroughBlocker, isRawMimeEnabled } from './email/raw-mime';
+import { DeliveryRequest, DeliveryResult, deliverMessage } from './email/delivery';
+import {
+  DedupeClaim,
+  DedupeRecord,
+  DedupeStore,
+  MemoryDedupeStore,
+  RedisDedupeStore,
+  submissionKey
+} from './email/dedupe';
 import { AgentMailClient, AgentMailAPIError } from './api/agentmail-client';
+import { Spool } from './queue/spool';
+import { DeliveryQueue } from './queue/delivery-queue';
+import { AgentMailDsnSink, DirectoryDsnSink, DsnSettings, sendDsn } from './queue/dsn-sink';
+import { extractHeaderSection } from './queue/dsn';
+import { CertificateStore } from './tls/certificates';
+import { MockRespServer } from './mock/resp-server';
+import { MockAgentMailApi } from './mock/agentmail-api';
+import { RespClient, parseRedisUrl } from './redis/resp-client';
 
 // ============================================================================
 // SERVER CONFIGURATION
 // ============================================================================
 
-const PORT = config.smtp.port;
-const MAX_MESSAGE_SIZE = config.smtp.maxMessageSize;
+const certificateStore = new CertificateStore();
+
+// Credentials file when configured, otherwise the built-in mock database
+const credentialFile = config.credentials.filePath
+  ? new FileCredentialProvider(config.credentials.filePath)
+  : null;
+const credentialProvider: CredentialProvider = credentialFile || createMockCredentialProvider();
+
+// Cached AuthResults; edits to the credentials file take effect immediately
+const authCache = new AuthCache(config.auth.cache);
+credentialFile?.onReload(changes => {
+  changes.apiKeyIds.forEach(apiKeyId => authCache.invalidateApiKey(apiKeyId));
+  changes.inboxIds.forEach(inboxId => authCache.invalidateInbox(inboxId));
+});
+
+// Failed-AUTH lockout per remote address and per username
+const authLimiter = new AuthFailureLimiter(config.auth.rateLimit);
+
+// Bearer token verifier for XOAUTH2/OAUTHBEARER (null = mechanisms not offered)
+const tokenVerifier: TokenVerifier | null = config.auth.oauth.enabled
+  ? new LocalJwtVerifier({
+      hmacSecret: config.auth.oauth.hmacSecret || undefined,
+      jwks: config.auth.oauth.jwksPath
+        ? JSON.parse(fs.readFileSync(config.auth.oauth.jwksPath, 'utf8'))
+        : undefined,
+      issuer: config.auth.oauth.issuer || undefined,
+      audience: config.auth.oauth.audience || undefined
+    })
+  : null;
+
+/**
+ * AgentMail API client for a user's API key
+ */
+function createApiClient(apiKey: string): AgentMailClient {
+  return new AgentMailClient(
+    apiKey,
+    Math.floor(config.agentmail.timeout / 1000),  // Convert ms to seconds
+    config.agentmail.apiBaseUrl
+  );
+}
+
+// DSNs for queued messages that fail or are delayed, and for NOTIFY=SUCCESS (DSN_SINK=none: no DSNs)
+const dsnSettings: DsnSettings | null = config.delivery.dsn.sink === 'none'
+  ? null
+  : {
+      sink: config.delivery.dsn.sink === 'directory'
+        ? new DirectoryDsnSink(config.delivery.dsn.dir)
+        : new AgentMailDsnSink(createApiClient),
+      reportingMta: config.delivery.dsn.reportingMta,
+      delayWarningMs: config.delivery.dsn.delayWarningMs
+    };
+
+// Store-and-forward delivery (DELIVERY_MODE=queue); null = deliver inline during DATA
+const deliveryQueue: DeliveryQueue | null = config.delivery.mode === 'queue'
+  ? new DeliveryQueue(
+      new Spool(config.delivery.spoolDir, config.delivery.spoolKey, config.delivery.spoolKeyFile),
+      config.delivery.queue,
+      createApiClient,
+      dsnSettings
+    )
+  : null;
+
+// Duplicate submissions (DEDUPE_WINDOW_MS); shared across replicas with SESSION_STORE=redis
+const dedupeStore: DedupeStore | null = config.dedupe.windowMs <= 0
+  ? null
+  : config.session.store === 'redis'
+    ? new RedisDedupeStore(new RespClient(parseRedisUrl(config.session.redisUrl)), config.dedupe.windowMs, config.session.keyPrefix)
+    : new MemoryDedupeStore(config.dedupe.windowMs);
+
+/**
+ * Claim a submission key. Dedupe store failures only cost dedupe (the
+ * Idempotency-Key is still sent); they never fail a submission.
+ */
+async function claimSubmission(key: string): Promise<DedupeClaim> {
+  try {
+    return await dedupeStore!.claim(key);
+  } catch (error) {
+    Logger.warn('Dedupe store unavailable, submission not deduplicated', { error: (error as Error).message });
+    return { status: 'claimed' };
+  }
+}
+
+/**
+ * Remember the reply to a claimed submission (no-op without a claim)
+ */
+async function completeSubmission(key: string | null, record: DedupeRecord): Promise<void> {
+  if (!key) {
+    return;
+  }
+  await dedupeStore!.complete(key, record).catch(error => {
+    Logger.warn('Failed to record submission for dedupe', { messageId: record.id, error: (error as Error).message });
+  });
+}
+
+/**
+ * Drop a claim so a resend is delivered (no-op without a claim)
+ */
+async function releaseSubmission(key: string | null): Promise<void> {
+  if (!key) {
+    return;
+  }
+  await dedupeStore!.release(key).catch(error => {
+    Logger.warn('Failed to release dedupe claim', { error: (error as Error).message });
+  });
+}
+
+/**
+ * SCRAM credential for an api_key_id (the SCRAM authcid)
+ */
+async function lookupScramCredential(apiKeyId: string): Promise<ScramCredential | null> {
+  const record = await credentialProvider.findApiKeyById(apiKeyId);
+  return record ? parseScramCredential(record.scram_sha256, record.scram_sealed_key) : null;
+}
+
+registerSaslMechanisms({ scramLookup: config.auth.scram ? lookupScramCredential : undefined });
+
+/**
+ * Validate credentials in the configured auth mode, through the auth cache.
+ */
+async function authenticateCredentials(username: string, password: string): Promise<AuthResult> {
+  const cached = authCache.get(username, password);
+  if (cached) {
+    return cached;
+  }
+
+  const result = config.auth.mode === 'api'
+    ? await validateSMTPCredentialsLive(
+        username,
+        password,
+        new AgentMailClient(password, Math.floor(config.agentmail.timeout / 1000), config.agentmail.apiBaseUrl)
+      )
+    : await validateSMTPCredentials(username, password, credentialProvider);
+
+  authCache.set(username, password, result);
+  return result;
+}
+
+/**
+ * Validate a bearer token. Not cached: tokens are short-lived and the
+ * verifier is local.
+ *
+ * The AgentMail API does not accept these tokens, so a bearer session
+ * sends with the service API key of the token's organization
+ * (OAUTH_SERVICE_API_KEYS); without one the token is refused with 454.
+ *
+ * @returns The result and, on success, the API key the session sends with
+ */
+async function authenticateBearerToken(
+  username: string,
+  token: string
+): Promise<{ result: AuthResult; apiKey?: string }> {
+  if (!tokenVerifier) {
+    return {
+      result: {
+        success: false,
+        error: createAuthError(AuthErrorCode.SERVICE_UNAVAILABLE, 'No token verifier configured')
+      }
+    };
+  }
+
+  const result = await validateSMTPBearerToken(username, token, tokenVerifier, credentialProvider);
+  if (!result.success) {
+    return { result };
+  }
+
+  const organizationId = result.user.organization_id;
+  const apiKey = Object.prototype.hasOwnProperty.call(config.auth.oauth.serviceApiKeys, organizationId)
+    ? config.auth.oauth.serviceApiKeys[organizationId]
+    : undefined;
+  if (!apiKey) {
+    return {
+      result: {
+        success: false,
+        error: createAuthError(
+          AuthErrorCode.SERVICE_UNAVAILABLE,
+          `No service API key for organization ${organizationId} (OAUTH_SERVICE_API_KEYS)`
+        )
+      }
+    };
+  }
+  return { result, apiKey };
+}
+
+/**
+ * Error challenge for a rejected bearer token, sent base64-encoded in a
+ * 334 before the final 535 (RFC 7628 3.2.2; XOAUTH2 uses an HTTP status).
+ */
+function bearerErrorChallenge(method: string, code: AuthErrorCode): object {
+  const insufficientScope = code === AuthErrorCode.INSUFFICIENT_PERMISSIONS;
+  if (method === 'XOAUTH2') {
+    return { status: insufficientScope ? '403' : '401', schemes: 'bearer', scope: 'smtp:send' };
+  }
+  return { status: insufficientScope ? 'insufficient_scope' : 'invalid_token', scope: 'smtp:send' };
+}
+
+/**
+ * Read the whole DATA stream (the original message bytes)
+ */
+async function readMessage(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Find the inbox an organization-wide session may send from for an
+ * address, in the configured auth mode.
+ *
+ * @returns The inbox, or null if the organization does not own the address
+ * @throws Error if the lookup fails (temporary)
+ */
+async function resolveOrganizationInbox(user: SessionUser, address: string): Promise<SendingInbox | null> {
+  if (config.auth.mode !== 'api') {
+    return findOrganizationInbox(user.organization_id, address, credentialProvider);
+  }
+
+  const apiKey = apiKeyVault.reveal(user.api_key_handle);
+  if (!apiKey) {
+    throw new Error('API key handle expired or unknown');
+  }
+  return findOrganizationInboxLive(
+    address,
+    new AgentMailClient(apiKey, Math.floor(config.agentmail.timeout / 1000), config.agentmail.apiBaseUrl)
+  );
+}
+
+/**
+ * Record a command as session activity. The vaulted API key is kept alive
+ * with the session, so a long-lived connection does not lose it mid-way.
+ */
+async function updateActivity(smtpSession: SMTPSession): Promise<void> {
+  await sessionManager.updateActivity(smtpSession.id);
+  if (smtpSession.user) {
+    apiKeyVault.touch(smtpSession.user.api_key_handle);
+  }
+}
 
 // ============================================================================
 // SMTP SERVER HOOKS
@@ -42,30 +342,64 @@ const MAX_MESSAGE_SIZE = config.smtp.maxMessageSize;
  *
  * Creates a new session and initializes session state.
  */
-function onConnect(
+async function onConnect(
+  listener: ListenerConfig,
   session: SMTPServerSession,
   callback: (err?: Error | null) => void
-): void {
+): Promise<void> {
+  // Slow down addresses that are locked out for failed AUTH attempts
+  const tarpitMs = authLimiter.getTarpitDelayMs(session.remoteAddress);
+  if (tarpitMs > 0) {
+    Logger.warn('Tarpitting connection from locked-out address', {
+      sessionId: session.id,
+      remoteAddress: session.remoteAddress,
+      delayMs: tarpitMs
+    });
+    await new Promise(resolve => setTimeout(resolve, tarpitMs));
+  }
+
   // Extract connection metadata
   const connection: ConnectionMetadata = {
     remoteAddress: session.remoteAddress,
     remotePort: session.remotePort,
     clientHostname: session.clientHostname,
-    tlsEnabled: session.secure
+    tlsEnabled: session.secure,
+    listener: listener.name
   };
 
   // Create session in session manager
-  sessionManager.createSession(session.id, connection);
+  await sessionManager.createSession(session.id, connection);
 
   Logger.info('Client connected', {
     sessionId: session.id,
     remoteAddress: session.remoteAddress,
-    clientHostname: session.clientHostname || 'unknown'
+    clientHostname: session.clientHostname || 'unknown',
+    listener: listener.name
   });
 
   // Transition to HELLO state (EHLO/HELO is handled by smtp-server library)
   // smtp-server automatically handles EHLO, so we mark as HELLO here
-  sessionManager.handleHello(session.id, session.clientHostname);
+  await sessionManager.handleHello(session.id, session.clientHostname);
+
+  callback();
+}
+
+/**
+ * onSecure - Called after the TLS handshake completes (STARTTLS or implicit TLS)
+ *
+ * Marks the session connection as encrypted so AUTH is allowed.
+ */
+async function onSecure(
+  socket: Socket | TLSSocket,
+  session: SMTPServerSession,
+  callback: (err?: Error | null) => void
+): Promise<void> {
+  await sessionManager.handleSecure(session.id);
+
+  Logger.info('TLS established', {
+    sessionId: session.id,
+    protocol: socket instanceof TLSSocket ? socket.getProtocol() : 'unknown'
+  });
 
   callback();
 }
@@ -81,14 +415,20 @@ function onConnect(
  * - Organization mismatch
  * - Revoked/expired keys
  * - Database errors (temporary failures)
+ * - Repeated failures (454 per-username / 421 per-address lockout)
+ * - Rejected bearer tokens (334 error challenge, then 535)
+ * - SCRAM-SHA-256 proofs that do not verify
+ *
+ * The mechanism used is recorded on the session (auth_method).
  */
 async function onAuth(
+  listener: ListenerConfig,
   auth: SMTPServerAuthentication,
   session: SMTPServerSession,
-  callback: (err: Error | null | undefined, response?: { user: AuthenticatedUser }) => void
+  callback: (err: Error | null | undefined, response?: SMTPServerAuthenticationResponse) => void
 ): Promise<void> {
   const startTime = Date.now();
-  const smtpSession = sessionManager.getSession(session.id);
+  const smtpSession = await sessionManager.getSession(session.id);
 
   // Check session exists
   if (!smtpSession) {
@@ -97,10 +437,22 @@ async function onAuth(
   }
 
   // Update activity
-  sessionManager.updateActivity(session.id);
+  await updateActivity(smtpSession);
+
+  // Credentials must not be sent over a plaintext connection (SCRAM never sends them)
+  const method = auth.method as string;
+  if (listener.auth.requireTls && !smtpSession.connection.tlsEnabled && method !== SCRAM_MECHANISM) {
+    Logger.warn('AUTH attempted before STARTTLS', {
+      sessionId: session.id,
+      listener: listener.name,
+      method: auth.method
+    });
+    Logger.smtpResponse(538, '5.7.11', 'Encryption required for this operation');
+    return callback(createSMTPError(SMTPErrorCode.ENCRYPTION_REQUIRED, '5.7.11', 'Encryption required for this operation'));
+  }
 
   // Verify we're in a valid state for authentication
-  if (!sessionManager.canExecuteCommand(session.id, 'AUTH')) {
+  if (!(await sessionManager.canExecuteCommand(session.id, 'AUTH'))) {
     Logger.warn('AUTH attempted in invalid state', {
       sessionId: session.id,
       currentState: smtpSession.state
@@ -109,17 +461,63 @@ async function onAuth(
     return callback(createSMTPError(SMTPErrorCode.BAD_SEQUENCE, '5.5.1', 'Bad sequence of commands'));
   }
 
+  // Refuse without checking credentials while a failure limit is exceeded
+  const limitScope = authLimiter.check(session.remoteAddress, auth.username || '');
+  if (limitScope) {
+    const rateLimited = createAuthError(
+      AuthErrorCode.RATE_LIMITED,
+      `AUTH failure limit reached for ${limitScope === 'ip' ? session.remoteAddress : auth.username}`
+    );
+    // Per-address lockout closes the connection (421); per-username keeps it open (454)
+    const lockoutError = limitScope === 'ip'
+      ? { ...rateLimited, smtpCode: SMTPErrorCode.SERVICE_UNAVAILABLE }
+      : rateLimited;
+
+    Logger.warn('Authentication refused, failure limit reached', {
+      sessionId: session.id,
+      scope: limitScope,
+      remoteAddress: session.remoteAddress
+    });
+    Logger.smtpResponse(lockoutError.smtpCode, lockoutError.enhancedCode, lockoutError.message);
+    return callback(createSMTPAuthError(lockoutError));
+  }
+
   Logger.info('Authentication attempt', {
     sessionId: session.id,
     method: auth.method,
     username: auth.username ? auth.username.substring(0, 15) + '...' : 'none'
   });
 
+  // XOAUTH2/OAUTHBEARER carry a bearer token in place of the API key;
+  // SCRAM passes the key recovered from a valid proof (empty otherwise)
+  const bearer = method === 'XOAUTH2' || method === 'OAUTHBEARER';
+  const secret = (bearer ? auth.accessToken : auth.password) || '';
+
   try {
-    // Validate credentials using the validator module
-    const result = await validateSMTPCredentials(auth.username || '', auth.password || '');
+    // Validate credentials using the validator module (or a cached result)
+    let result: AuthResult;
+    // API key the session sends with (a bearer session's is the organization's service key)
+    let apiKey = secret;
+    if (method === SCRAM_MECHANISM && !secret) {
+      Logger.authStep('Verifying SCRAM-SHA-256 proof', 'FAIL');
+      result = {
+        success: false,
+        error: createAuthError(AuthErrorCode.API_KEY_NOT_FOUND, 'SCRAM-SHA-256 proof did not verify')
+      };
+    } else if (bearer) {
+      const bearerAuth = await authenticateBearerToken(auth.username || '', secret);
+      result = bearerAuth.result;
+      apiKey = bearerAuth.apiKey || '';
+    } else {
+      result = await authenticateCredentials(auth.username || '', secret);
+    }
 
     if (!result.success) {
+      // Only credential failures count towards the lockout, not 454s
+      if (result.error.smtpCode >= 500) {
+        authLimiter.recordFailure(session.remoteAddress, auth.username || '');
+      }
+
       // Log detailed error internally
       Logger.warn('Authentication failed', {
         sessionId: session.id,
@@ -135,20 +533,31 @@ async function onAuth(
         result.error.message
       );
 
+      // Rejected tokens get the SASL error challenge; temporary failures do not
+      if (bearer && result.error.smtpCode >= 500) {
+        return callback(null, { data: bearerErrorChallenge(method, result.error.code) });
+      }
+
       return callback(createSMTPAuthError(result.error));
     }
 
+    authLimiter.recordSuccess(auth.username || '');
+
     // Update session with authenticated user
-    sessionManager.handleAuthentication(session.id, {
+    await sessionManager.handleAuthentication(session.id, {
+      scope: result.user.scope,
       inbox_id: result.user.inbox_id,
       organization_id: result.user.organization_id,
       email_address: result.user.email_address,
       api_key_id: result.user.api_key_id,
-      api_key: auth.password || ''  // Store API key for later API calls
+      api_key_handle: apiKeyVault.store(apiKey),  // Raw key stays out of the session
+      auth_method: method
     });
 
     Logger.info('Authentication successful', {
       sessionId: session.id,
+      method,
+      scope: result.user.scope,
       inbox_id: result.user.inbox_id,
       organization_id: result.user.organization_id,
       durationMs: Date.now() - startTime
@@ -179,14 +588,18 @@ async function onAuth(
 /**
  * onMailFrom - Called when client sends MAIL FROM command
  *
- * Validates state transition and stores sender address.
+ * Validates state transition and stores sender address. Organization-wide
+ * sessions send from the inbox MAIL FROM names (553 5.7.1 if the
+ * organization does not own it); a null sender defers the choice to the
+ * From: header in DATA. Inbox sessions apply the sender policy to
+ * MAIL FROM.
  */
-function onMailFrom(
-  address: { address: string; args: Record<string, string | boolean> },
+async function onMailFrom(
+  address: SMTPServerAddress,
   session: SMTPServerSession,
   callback: (err?: Error | null) => void
-): void {
-  const smtpSession = sessionManager.getSession(session.id);
+): Promise<void> {
+  const smtpSession = await sessionManager.getSession(session.id);
 
   // Check session exists
   if (!smtpSession) {
@@ -195,7 +608,7 @@ function onMailFrom(
   }
 
   // Update activity
-  sessionManager.updateActivity(session.id);
+  await updateActivity(smtpSession);
 
   Logger.info('MAIL FROM received', {
     sessionId: session.id,
@@ -212,11 +625,11 @@ function onMailFrom(
 
   // Reset session if coming from COMPLETED state (sending another email)
   if (smtpSession.state === SMTPSessionState.COMPLETED) {
-    sessionManager.resetForNewMessage(session.id);
+    await sessionManager.resetForNewMessage(session.id);
   }
 
   // Validate command is allowed in current state
-  if (!sessionManager.canExecuteCommand(session.id, 'MAIL')) {
+  if (!(await sessionManager.canExecuteCommand(session.id, 'MAIL'))) {
     Logger.warn('MAIL FROM in invalid state', {
       sessionId: session.id,
       currentState: smtpSession.state
@@ -225,8 +638,68 @@ function onMailFrom(
     return callback(createSMTPError(SMTPErrorCode.BAD_SEQUENCE, '5.5.1', 'Bad sequence of commands'));
   }
 
+  // RET / ENVID (DSN extension)
+  let dsn: EnvelopeDsn | undefined;
+  try {
+    dsn = parseMailDsnParams(address.args as EsmtpArgs);
+  } catch (error) {
+    if (!(error instanceof DsnParameterError)) {
+      throw error;
+    }
+    Logger.warn('Invalid DSN parameter on MAIL FROM', { sessionId: session.id, error: error.message });
+    Logger.smtpResponse(501, '5.5.4', error.message);
+    return callback(createSMTPError(SMTPErrorCode.SYNTAX_ERROR_PARAMS, '5.5.4', error.message));
+  }
+
+  // Pick the inbox this message is sent from
+  const user = smtpSession.user!;
+  let sendingInbox: SendingInbox | undefined;
+  if (user.scope === 'inbox') {
+    sendingInbox = { inbox_id: user.inbox_id!, email_address: user.email_address! };
+
+    if (address.address && !isAlignedSender(address.address, sendingInbox)) {
+      if (config.sender.policy === 'reject') {
+        const smtpError = mapToSMTPError(new SenderNotAuthorized(address.address, sendingInbox));
+        Logger.warn('MAIL FROM not owned by sending inbox', {
+          sessionId: session.id,
+          from: address.address,
+          inbox_id: sendingInbox.inbox_id
+        });
+        Logger.smtpResponse(smtpError.responseCode, smtpError.enhancedCode, smtpError.message);
+        return callback(smtpError);
+      }
+
+      Logger.info('MAIL FROM not owned by sending inbox, accepted by policy', {
+        sessionId: session.id,
+        from: address.address,
+        inbox_id: sendingInbox.inbox_id,
+        policy: config.sender.policy
+      });
+    }
+  } else if (address.address) {
+    let owned: SendingInbox | null;
+    try {
+      owned = await resolveOrganizationInbox(user, address.address);
+    } catch (error) {
+      Logger.error('Sending inbox lookup failed', { sessionId: session.id, error: (error as Error).message });
+      Logger.smtpResponse(451, '4.3.0', 'Temporary failure checking sender, please retry');
+      return callback(createSMTPError(SMTPErrorCode.LOCAL_ERROR, '4.3.0', 'Temporary failure checking sender, please retry'));
+    }
+
+    if (!owned) {
+      Logger.warn('MAIL FROM not owned by organization', {
+        sessionId: session.id,
+        from: address.address,
+        organization_id: user.organization_id
+      });
+      Logger.smtpResponse(553, '5.7.1', 'Sender address not owned by this organization');
+      return callback(createSMTPError(SMTPErrorCode.MAILBOX_NAME_INVALID, '5.7.1', 'Sender address not owned by this organization'));
+    }
+    sendingInbox = owned;
+  }
+
   // Update session state
-  const updated = sessionManager.handleMailFrom(session.id, address.address);
+  const updated = await sessionManager.handleMailFrom(session.id, address.address, sendingInbox, dsn);
 
   if (!updated) {
     Logger.smtpResponse(503, '5.5.1', 'Bad sequence of commands');
@@ -242,12 +715,12 @@ function onMailFrom(
  *
  * Validates state transition and stores recipient address.
  */
-function onRcptTo(
-  address: { address: string; args: Record<string, string | boolean> },
+async function onRcptTo(
+  address: SMTPServerAddress,
   session: SMTPServerSession,
   callback: (err?: Error | null) => void
-): void {
-  const smtpSession = sessionManager.getSession(session.id);
+): Promise<void> {
+  const smtpSession = await sessionManager.getSession(session.id);
 
   // Check session exists
   if (!smtpSession) {
@@ -256,7 +729,7 @@ function onRcptTo(
   }
 
   // Update activity
-  sessionManager.updateActivity(session.id);
+  await updateActivity(smtpSession);
 
   Logger.info('RCPT TO received', {
     sessionId: session.id,
@@ -266,7 +739,7 @@ function onRcptTo(
   });
 
   // Validate command is allowed in current state
-  if (!sessionManager.canExecuteCommand(session.id, 'RCPT')) {
+  if (!(await sessionManager.canExecuteCommand(session.id, 'RCPT'))) {
     Logger.warn('RCPT TO in invalid state', {
       sessionId: session.id,
       currentState: smtpSession.state
@@ -275,8 +748,21 @@ function onRcptTo(
     return callback(createSMTPError(SMTPErrorCode.BAD_SEQUENCE, '5.5.1', 'Bad sequence of commands'));
   }
 
+  // NOTIFY / ORCPT (DSN extension)
+  let dsn: Pick<SessionRecipient, 'notify' | 'orcpt'>;
+  try {
+    dsn = parseRcptDsnParams(address.dsn);
+  } catch (error) {
+    if (!(error instanceof DsnParameterError)) {
+      throw error;
+    }
+    Logger.warn('Invalid DSN parameter on RCPT TO', { sessionId: session.id, error: error.message });
+    Logger.smtpResponse(501, '5.5.4', error.message);
+    return callback(createSMTPError(SMTPErrorCode.SYNTAX_ERROR_PARAMS, '5.5.4', error.message));
+  }
+
   // Update session state (handleRcptTo checks recipient limit)
-  const updated = sessionManager.handleRcptTo(session.id, address.address);
+  const updated = await sessionManager.handleRcptTo(session.id, address.address, dsn);
 
   if (!updated) {
     // Check if it was a recipient limit issue
@@ -292,17 +778,205 @@ function onRcptTo(
   callback();
 }
 
+// ============================================================================
+// SUBMISSION
+// ============================================================================
+
+/**
+ * A message that passed the DATA checks, ready to be sent or spooled
+ */
+interface Submission {
+  session: SMTPServerSession;
+  smtpSession: SMTPSession;
+  sendingInbox: SendingInbox;
+  apiKey: string;
+  /** DATA bytes */
+  raw: Buffer;
+  /** Message-ID header, for dedupe */
+  messageId?: string;
+}
+
+/**
+ * The 250 reply (with the message, draft or queue ID), or a refusal by the
+ * gateway itself (duplicate in flight, spool failure)
+ */
+type SubmissionOutcome = DedupeRecord | { error: SMTPError };
+
+/**
+ * Send or spool a message for some envelope recipients, with dedupe.
+ *
+ * @param recipients - Envelope recipients of this send (part of the dedupe key)
+ * @throws AgentMailAPIError if an inline send fails
+ */
+async function submit(
+  submission: Submission,
+  request: DeliveryRequest,
+  recipients: SessionRecipient[]
+): Promise<SubmissionOutcome> {
+  const { session, smtpSession, sendingInbox, apiKey, raw } = submission;
+
+  // Repeated submission (same inbox, recipients and Message-ID or bytes): answer with the original reply
+  let key: string | null = null;
+  if (dedupeStore) {
+    const candidate = submissionKey(
+      sendingInbox.inbox_id,
+      submission.messageId,
+      raw,
+      recipients.map(recipient => recipient.address)
+    );
+    const claim = await claimSubmission(candidate);
+    if (claim.status === 'duplicate') {
+      Logger.info('Duplicate submission, not sent again', {
+        sessionId: session.id,
+        inbox_id: sendingInbox.inbox_id,
+        messageId: claim.record.id
+      });
+      return claim.record;
+    }
+    if (claim.status === 'in-flight') {
+      Logger.warn('Duplicate submission while the original is in flight', {
+        sessionId: session.id,
+        inbox_id: sendingInbox.inbox_id
+      });
+      return { error: createSMTPError(SMTPErrorCode.LOCAL_ERROR, '4.3.0', 'Message is already being delivered, please retry later') };
+    }
+    key = candidate;
+    request = { ...request, idempotencyKey: key };
+  }
+
+  // DELIVERY_MODE=queue: accept once the message is on disk, deliver in the background
+  if (deliveryQueue) {
+    let queueId: string;
+    try {
+      queueId = await deliveryQueue.enqueue({
+        inbox: sendingInbox,
+        organizationId: smtpSession.user!.organization_id,
+        apiKey,
+        request,
+        recipients: recipients.map(({ address, notify, orcpt }) => ({ address, notify, orcpt })),
+        envelopeDsn: smtpSession.dsn,
+        original: raw
+      });
+    } catch (error) {
+      Logger.error('Failed to spool message', { sessionId: session.id, error: (error as Error).message });
+      await releaseSubmission(key);
+      return { error: createSMTPError(SMTPErrorCode.INSUFFICIENT_STORAGE, '4.3.1', 'Insufficient system storage, please retry') };
+    }
+
+    const record = { id: queueId, reply: `Queued as ${queueId}` };
+    await completeSubmission(key, record);
+    return record;
+  }
+
+  // Draft, raw send, reply or plain send with the user's API key (per-request client)
+  let result: DeliveryResult;
+  try {
+    result = await deliverMessage(createApiClient(apiKey), request);
+  } catch (error) {
+    // Not accepted: a resend must be sent, not deduplicated
+    await releaseSubmission(key);
+    throw error;
+  }
+
+  // Log success
+  Logger.info(request.message.draft ? 'Draft created' : 'Email sent successfully', {
+    sessionId: session.id,
+    messageId: result.id,
+    threadId: result.threadId,
+    repliedTo: result.repliedTo,
+    sendAt: request.message.draft?.sendAt?.toISOString()
+  });
+
+  // Success DSN for NOTIFY=SUCCESS recipients (failures were answered in DATA)
+  if (dsnSettings && !request.message.draft) {
+    sendDsn(dsnSettings, sendingInbox, apiKey, {
+      action: 'relayed',
+      queueId: result.id,
+      envid: smtpSession.dsn?.envid,
+      arrivalDate: new Date(),
+      lastAttemptDate: new Date(),
+      recipients,
+      result: { smtpCode: 250, enhancedCode: '2.0.0', message: result.reply, retryable: false },
+      originalHeaders: extractHeaderSection(raw),
+      subject: request.message.subject
+    }).catch(error => {
+      Logger.error('Failed to send DSN', { sessionId: session.id, action: 'relayed', error: (error as Error).message });
+    });
+  }
+
+  const record = { id: result.id, reply: result.reply };
+  await completeSubmission(key, record);
+  return record;
+}
+
+/**
+ * Send every envelope recipient its own copy (LMTP listener).
+ *
+ * smtp-server keeps a repeated RCPT TO as one envelope recipient (the
+ * latest parameters win) and expects exactly one DATA reply per entry of
+ * session.envelope.rcptTo, so the replies follow that list.
+ *
+ * @returns One outcome per envelope recipient, in session.envelope.rcptTo order
+ */
+async function submitPerRecipient(submission: Submission, request: DeliveryRequest): Promise<SubmissionOutcome[]> {
+  const { session, smtpSession } = submission;
+  // Map.set keeps the first position of a repeated address, like the envelope
+  const unique = new Map<string, SessionRecipient>();
+  for (const recipient of smtpSession.rcptTo) {
+    unique.set(recipient.address.toLowerCase(), recipient);
+  }
+
+  const outcomes = new Map<string, SubmissionOutcome>();
+  await Promise.all([...unique].map(async ([key, recipient]) => {
+    let outcome: SubmissionOutcome;
+    try {
+      const message = forRecipient(request.message, recipient.address);
+      outcome = await submit(submission, { ...request, message }, [recipient]);
+    } catch (error) {
+      outcome = { error: recipientError(error) };
+    }
+
+    if ('error' in outcome) {
+      Logger.warn('Recipient not accepted', { sessionId: session.id, recipient: recipient.address, error: outcome.error.message });
+      Logger.smtpResponse(outcome.error.responseCode, outcome.error.enhancedCode, outcome.error.message);
+    } else {
+      Logger.smtpResponse(250, '2.0.0', outcome.reply);
+    }
+    outcomes.set(key, outcome);
+  }));
+
+  return session.envelope.rcptTo.map(address => outcomes.get(address.address.toLowerCase()) ?? {
+    // Accepted by smtp-server but not recorded on the session; never sent
+    error: createSMTPError(SMTPErrorCode.LOCAL_ERROR, '4.3.0', 'Recipient not processed, please retry')
+  });
+}
+
+/**
+ * SMTP reply for one recipient's failed send: the API error name through
+ * ERROR_MAPPINGS (e.g. RecipientNotFound → 556 5.1.1), else the HTTP status
+ * through mapHttpToSmtp; local errors through mapToSMTPError
+ */
+function recipientError(error: unknown): SMTPError {
+  if (error instanceof AgentMailAPIError) {
+    const name = (error.apiBody as { name?: unknown } | null)?.name;
+    return (typeof name === 'string' ? mapErrorName(name) : null)
+      || createSMTPError(error.smtpError.smtpCode, error.smtpError.enhancedCode, error.smtpError.message);
+  }
+  return mapToSMTPError(error as Error);
+}
+
 /**
  * onData - Called when client sends DATA command and message content
  *
  * Validates state, parses message, and updates session.
  */
 async function onData(
+  listener: ListenerConfig,
   stream: Readable,
   session: SMTPServerSession,
-  callback: (err?: Error | null, message?: string) => void
+  callback: (err?: Error | null, message?: string | Array<string | SMTPError>) => void
 ): Promise<void> {
-  const smtpSession = sessionManager.getSession(session.id);
+  const smtpSession = await sessionManager.getSession(session.id);
 
   // Check session exists
   if (!smtpSession) {
@@ -311,10 +985,10 @@ async function onData(
   }
 
   // Update activity
-  sessionManager.updateActivity(session.id);
+  await updateActivity(smtpSession);
 
   // Validate command is allowed in current state
-  if (!sessionManager.canExecuteCommand(session.id, 'DATA')) {
+  if (!(await sessionManager.canExecuteCommand(session.id, 'DATA'))) {
     Logger.warn('DATA in invalid state', {
       sessionId: session.id,
       currentState: smtpSession.state
@@ -330,7 +1004,7 @@ async function onData(
   }
 
   // Transition to DATA state
-  sessionManager.handleDataStart(session.id);
+  await sessionManager.handleDataStart(session.id);
 
   Logger.info('DATA received, processing message', {
     sessionId: session.id,
@@ -340,7 +1014,9 @@ async function onData(
 
   try {
     // Parse the email message
-    const parsed: ParsedMail = await simpleParser(stream);
+    // Keep the original bytes for raw MIME passthrough
+    const raw = await readMessage(stream);
+    const parsed: ParsedMail = await simpleParser(raw, MAIL_PARSER_OPTIONS);
 
     // Log parsed message details
     Logger.info('Message parsed successfully', {
@@ -352,15 +1028,36 @@ async function onData(
       attachmentCount: parsed.attachments?.length || 0
     });
 
+    // Organization-wide session with a null sender: the From: header picks the inbox
+    if (!smtpSession.sendingInbox) {
+      const fromAddress = parsed.from?.value[0]?.address || '';
+      const owned = fromAddress ? await resolveOrganizationInbox(smtpSession.user!, fromAddress) : null;
+      if (!owned) {
+        Logger.warn('From: header not owned by organization', {
+          sessionId: session.id,
+          from: fromAddress || '(none)',
+          organization_id: smtpSession.user!.organization_id
+        });
+        Logger.smtpResponse(550, '5.7.1', 'From address not owned by this organization');
+        return callback(createSMTPError(SMTPErrorCode.MAILBOX_NOT_FOUND, '5.7.1', 'From address not owned by this organization'));
+      }
+      await sessionManager.setSendingInbox(session.id, owned);
+      smtpSession.sendingInbox = owned;
+    }
+
     // Transform email to AgentMail API format
     Logger.info('Transforming email for AgentMail API', {
       sessionId: session.id,
-      inbox_id: smtpSession.user!.inbox_id,
+      inbox_id: smtpSession.sendingInbox.inbox_id,
       recipientCount: smtpSession.rcptTo.length,
       hasAttachments: (parsed.attachments?.length || 0) > 0
     });
 
-    const apiMessage = transformToAgentMailFormat(parsed, smtpSession);
+    const apiMessage = transformToAgentMailFormat(parsed, smtpSession, {
+      senderPolicy: config.sender.policy,
+      headerRecipientPolicy: config.recipients.headerOnlyPolicy,
+      headerPolicy: config.headers
+    });
 
     // Validate before sending
     validateTransformedMessage(apiMessage);
@@ -372,30 +1069,97 @@ async function onData(
       messageSize: JSON.stringify(apiMessage).length
     });
 
-    // Create SDK client with user's API key (per-request)
-    const sdkClient = new AgentMailClient(
-      smtpSession.user!.api_key,
-      Math.floor(config.agentmail.timeout / 1000)  // Convert ms to seconds
-    );
+    // Recover the user's API key from the vault (expires with the session)
+    const apiKey = apiKeyVault.reveal(smtpSession.user!.api_key_handle);
+    if (!apiKey) {
+      Logger.warn('API key handle expired or unknown', { sessionId: session.id });
+      Logger.smtpResponse(454, '4.7.0', 'Credentials expired, please re-authenticate');
+      return callback(createSMTPError(
+        SMTPErrorCode.TEMP_AUTH_FAILURE,
+        '4.7.0',
+        'Credentials expired, please re-authenticate'
+      ));
+    }
 
-    // Send via SDK client
-    const result = await sdkClient.sendMessage(apiMessage);
+    // Raw MIME passthrough (RAW_MIME_INBOXES / RAW_MIME_ORGS): the original bytes, minus Bcc: and denied headers
+    const sendingInbox = smtpSession.sendingInbox;
+    const request: DeliveryRequest = { message: apiMessage, replyTarget: findReplyTarget(parsed) };
+    if (isRawMimeEnabled(sendingInbox, smtpSession.user!.organization_id, config.rawMime)) {
+      const blocker = findRawPassthroughBlocker(parsed, sendingInbox);
+      if (blocker) {
+        Logger.info('Raw MIME passthrough not possible, sending structured message', {
+          sessionId: session.id,
+          reason: blocker
+        });
+      } else {
+        request.raw = filterRawHeaders(raw, config.headers);
+      }
+    }
 
-    // Log success
-    Logger.info('Email sent successfully', {
-      sessionId: session.id,
-      messageId: result.messageId,
-      threadId: result.threadId
-    });
+    const submission: Submission = { session, smtpSession, sendingInbox, apiKey, raw, messageId: parsed.messageId };
+
+    // LMTP listener: every recipient gets its own copy and its own reply
+    if (listener.lmtp && !apiMessage.draft) {
+      const outcomes = await submitPerRecipient(submission, request);
+      const ids = [...new Set(outcomes.flatMap(outcome => 'error' in outcome ? [] : [outcome.id]))];
+      if (ids.length > 0) {
+        await sessionManager.handleDataComplete(session.id, ids.join(', '));
+      }
+      return callback(null, outcomes.map(outcome => 'error' in outcome ? outcome.error : outcome.reply));
+    }
+
+    const outcome = await submit(submission, request, smtpSession.rcptTo);
+    if ('error' in outcome) {
+      Logger.smtpResponse(outcome.error.responseCode, outcome.error.enhancedCode, outcome.error.message);
+      return callback(outcome.error);
+    }
 
     // Complete the DATA phase
-    sessionManager.handleDataComplete(session.id, result.messageId);
+    await sessionManager.handleDataComplete(session.id, outcome.id);
 
-    Logger.smtpResponse(250, '2.0.0', `Message queued as ${result.messageId}`);
+    Logger.smtpResponse(250, '2.0.0', outcome.reply);
 
-    callback(null, `Message queued as ${result.messageId}`);
+    callback(null, outcome.reply);
 
   } catch (error) {
+    // From: header not owned by the sending inbox (SENDER_POLICY=reject)
+    if (error instanceof SenderNotAuthorized) {
+      const smtpError = mapToSMTPError(error);
+      Logger.warn('From: header not owned by sending inbox', {
+        sessionId: session.id,
+        from: error.address,
+        inbox_id: error.inbox.inbox_id
+      });
+      Logger.smtpResponse(smtpError.responseCode, smtpError.enhancedCode, smtpError.message);
+      return callback(smtpError);
+    }
+
+    // Unknown or invalid X-AgentMail-* control header
+    if (error instanceof ControlHeaderError) {
+      Logger.warn('Invalid control header', { sessionId: session.id, error: error.message });
+      Logger.smtpResponse(501, '5.5.4', error.message);
+      return callback(createSMTPError(SMTPErrorCode.SYNTAX_ERROR_PARAMS, '5.5.4', error.message));
+    }
+
+    // Forwarded header with an invalid name or value (e.g. CR/LF injection)
+    if (error instanceof InvalidHeaderFormat) {
+      const smtpError = mapToSMTPError(error);
+      Logger.warn('Invalid header', { sessionId: session.id, error: error.message });
+      Logger.smtpResponse(smtpError.responseCode, smtpError.enhancedCode, smtpError.message);
+      return callback(smtpError);
+    }
+
+    // To:/Cc:/Bcc: names a recipient outside the envelope (HEADER_RECIPIENT_POLICY=reject)
+    if (error instanceof RecipientNotInEnvelope) {
+      const smtpError = mapToSMTPError(error);
+      Logger.warn('Header recipients not in envelope', {
+        sessionId: session.id,
+        recipients: error.addresses.join(', ')
+      });
+      Logger.smtpResponse(smtpError.responseCode, smtpError.enhancedCode, smtpError.message);
+      return callback(smtpError);
+    }
+
     // Handle AgentMail API errors
     if (error instanceof AgentMailAPIError) {
       Logger.error('AgentMail API error in onData', {
@@ -447,8 +1211,8 @@ async function onData(
  *
  * Cleans up session data.
  */
-function onClose(session: SMTPServerSession): void {
-  const smtpSession = sessionManager.getSession(session.id);
+async function onClose(session: SMTPServerSession): Promise<void> {
+  const smtpSession = await sessionManager.getSession(session.id);
 
   Logger.info('Client disconnected', {
     sessionId: session.id,
@@ -457,66 +1221,161 @@ function onClose(session: SMTPServerSession): void {
     messagesDelivered: smtpSession?.messageCount || 0
   });
 
-  // Delete the session
-  sessionManager.deleteSession(session.id);
+  // Forget the API key and delete the session
+  if (smtpSession?.user) {
+    apiKeyVault.release(smtpSession.user.api_key_handle);
+  }
+  await sessionManager.deleteSession(session.id);
 }
 
 // ============================================================================
-// CREATE AND START SERVER
+// CREATE AND START SERVERS
 // ============================================================================
 
-const server = new SMTPServer({
-  // Disable TLS for demo (would enable in production)
-  secure: false,
-  disabledCommands: ['STARTTLS'],
+/**
+ * Build a rejection handler for an async hook.
+ *
+ * Session store failures (e.g. an unreachable backend) would otherwise leave
+ * the client waiting forever; answer with a temporary error instead.
+ */
+function hookErrorHandler(
+  hook: string,
+  session: SMTPServerSession,
+  callback?: (err?: Error | null) => void
+): (error: Error) => void {
+  return (error: Error) => {
+    Logger.error('Unhandled error in SMTP hook', {
+      hook,
+      sessionId: session.id,
+      error: error.message
+    });
 
-  // Authentication
-  authMethods: ['PLAIN', 'LOGIN'],
-  authOptional: false, // Require authentication
+    if (callback) {
+      Logger.smtpResponse(451, '4.3.0', 'Session error');
+      callback(createSMTPError(SMTPErrorCode.LOCAL_ERROR, '4.3.0', 'Session error'));
+    }
+  };
+}
 
-  // Limits
-  size: MAX_MESSAGE_SIZE,
+/**
+ * Create an SMTPServer for one configured listener.
+ *
+ * Every listener shares the same hooks and sessionManager; only the
+ * transport (STARTTLS vs implicit TLS), banner, size limit and auth policy differ.
+ */
+function createSMTPServer(listener: ListenerConfig): SMTPServer {
+  const server = new SMTPServer({
+    // Implicit TLS (SMTPS) or plaintext listener that advertises STARTTLS
+    secure: listener.secure,
+    ...(certificateStore.getDefaultCredentials() || {}),
+    SNICallback: certificateStore.SNICallback,
+
+    // Authentication
+    authMethods: listener.auth.methods,
+    authOptional: false, // Require authentication
+    // TLS-before-AUTH is enforced in onAuth so clients get 538 5.7.11
+    allowInsecureAuth: true,
+
+    // Limits
+    size: listener.maxMessageSize,
+
+    // Advertise DSN (RFC 3461); smtp-server validates RET and NOTIFY
+    hideDSN: false,
+
+    // Banner
+    banner: listener.banner,
+
+    // LHLO and one reply to DATA per recipient (RFC 2033)
+    lmtp: listener.lmtp,
+
+    // Hooks
+    onConnect: (session, callback) => {
+      onConnect(listener, session, callback).catch(hookErrorHandler('CONNECT', session, callback));
+    },
+    onSecure: (socket, session, callback) => {
+      onSecure(socket, session, callback).catch(hookErrorHandler('STARTTLS', session, callback));
+    },
+    onAuth: (auth, session, callback) => {
+      onAuth(listener, auth, session, callback).catch(hookErrorHandler('AUTH', session, callback));
+    },
+    onMailFrom: (address, session, callback) => {
+      onMailFrom(address, session, callback).catch(hookErrorHandler('MAIL FROM', session, callback));
+    },
+    onRcptTo: (address, session, callback) => {
+      onRcptTo(address, session, callback).catch(hookErrorHandler('RCPT TO', session, callback));
+    },
+    onData: (stream, session, callback) => {
+      onData(listener, stream, session, callback).catch(hookErrorHandler('DATA', session, callback));
+    },
+    onClose: session => {
+      onClose(session).catch(hookErrorHandler('CLOSE', session));
+    },
+
+    // Built-in logging (we use our own logger, but enable for debug)
+    logger: false
+  });
 
-  // Banner
-  banner: 'AgentMail SMTP Demo Server',
+  // Error handling
+  server.on('error', (err: Error) => {
+    Logger.error('SMTP Server error', { listener: listener.name, error: err.message });
+  });
 
-  // Hooks
-  onConnect,
-  onAuth,
-  onMailFrom,
-  onRcptTo,
-  onData,
-  onClose,
+  return server;
+}
 
-  // Built-in logging (we use our own logger, but enable for debug)
-  logger: false
-});
+const servers = config.smtp.listeners.map(listener => ({
+  listener,
+  server: createSMTPServer(listener)
+}));
 
-// Error handling
-server.on('error', (err: Error) => {
-  Logger.error('SMTP Server error', { error: err.message });
+// Rotated certificates apply to new handshakes; open sessions are untouched
+certificateStore.onReload(credentials => {
+  for (const { server } of servers) {
+    server.updateSecureContext(credentials);
+  }
 });
+certificateStore.watch();
+credentialFile?.watch();
 
 // ============================================================================
-// START SERVER
+// START SERVERS
 // ============================================================================
 
-server.listen(PORT, () => {
+/**
+ * Print the startup banner once every listener is bound.
+ */
+function printStartupBanner(): void {
+  const submission = config.smtp.listeners.find(listener => !listener.secure && !listener.lmtp);
+
   console.log('\n' + '='.repeat(60));
   console.log('    AgentMail SMTP Server Demo');
   console.log('='.repeat(60));
-  console.log(`\n  Server running on port ${PORT}`);
-  console.log('  Auth: PLAIN/LOGIN (inbox_id + API key)');
-  console.log('  TLS: Disabled (demo only)');
-  console.log(`  Max message size: ${MAX_MESSAGE_SIZE / 1024 / 1024}MB`);
+  for (const { name, port, secure, lmtp, maxMessageSize, auth } of config.smtp.listeners) {
+    console.log(`\n  [${name}] port ${port}${lmtp ? ' (LMTP, one reply per recipient)' : ''}`);
+    console.log(`    TLS: ${secure ? 'Implicit (SMTPS)' : 'STARTTLS'}`);
+    console.log(`    Auth: ${auth.methods.join('/')} (inbox_id + API key${config.auth.oauth.enabled ? ' or bearer token' : ''}), requires TLS: ${auth.requireTls ? 'yes' : 'no'}`);
+    console.log(`    Max message size: ${maxMessageSize / 1024 / 1024}MB`);
+  }
+  console.log(`\n  Certificate: ${certificateStore.getDefaultCredentials() ? config.tls.certPath : 'built-in self-signed cert'}`);
+  const sniHostnames = certificateStore.getSniHostnames();
+  console.log(`  SNI hostnames: ${sniHostnames.length > 0 ? sniHostnames.join(', ') : 'none'}`);
   console.log('  Session timeout: 30 minutes');
-  console.log('\n  Test with swaks:');
-  console.log(`    swaks --to test@example.com \\`);
-  console.log(`          --from test@agentmail.dev \\`);
-  console.log(`          --server localhost:${PORT} \\`);
-  console.log(`          --auth PLAIN \\`);
-  console.log(`          --auth-user inb_valid1234567890 \\`);
-  console.log(`          --auth-password am_validkey12345678901234567890123456`);
+  console.log(`  Auth mode: ${config.auth.mode === 'api' ? `AgentMail API (${config.agentmail.apiBaseUrl})` : 'local'}`);
+  console.log(`  Credentials: ${config.credentials.filePath || 'mock database'}`);
+  console.log(`  AUTH lockout: ${config.auth.rateLimit.maxFailuresPerIp}/IP, ${config.auth.rateLimit.maxFailuresPerUsername}/username per ${config.auth.rateLimit.windowMs / 1000}s`);
+  console.log(`  Auth cache: ${config.auth.cache.successTtlMs / 1000}s success / ${config.auth.cache.failureTtlMs / 1000}s failure TTL, ${config.auth.cache.maxEntries} entries`);
+  console.log(`  Session store: ${config.session.store}${config.session.redisMock ? ' (in-process mock)' : ''}`);
+  console.log(`  Dedupe window: ${dedupeStore ? `${config.dedupe.windowMs / 1000}s` : 'off'}`);
+  console.log(`  Delivery: ${deliveryQueue ? `queue (spool ${config.delivery.spoolDir}, ${config.delivery.queue.workers} workers, DSNs: ${config.delivery.dsn.sink})` : 'inline'}`);
+  if (submission) {
+    console.log('\n  Test with swaks:');
+    console.log(`    swaks --to test@example.com \\`);
+    console.log(`          --from test@agentmail.dev \\`);
+    console.log(`          --server localhost:${submission.port} --tls \\`);
+    console.log(`          --auth PLAIN \\`);
+    console.log(`          --auth-user inb_valid1234567890 \\`);
+    console.log(`          --auth-password am_validkey12345678901234567890123456`);
+  }
   console.log('\n' + '='.repeat(60));
 
   // Print test scenarios
@@ -525,26 +1384,95 @@ server.listen(PORT, () => {
   console.log('='.repeat(60));
   console.log('  Server ready. Waiting for connections...');
   console.log('='.repeat(60) + '\n');
-});
+}
+
+/**
+ * Start the in-process RESP stand-in when REDIS_MOCK=true, so the Redis
+ * session store can be exercised without a real Redis.
+ */
+async function startMockRedisIfConfigured(): Promise<void> {
+  if (config.session.store !== 'redis' || !config.session.redisMock) {
+    return;
+  }
+  const { host, port } = parseRedisUrl(config.session.redisUrl);
+  await new MockRespServer().listen(port, host);
+}
+
+/**
+ * Start the in-process fake AgentMail API when AGENTMAIL_API_MOCK=true,
+ * on the port of AGENTMAIL_API_URL. It serves the same credentials as
+ * AUTH_MODE=local would.
+ */
+async function startMockApiIfConfigured(): Promise<void> {
+  if (!config.agentmail.apiMock) {
+    return;
+  }
+  const url = new URL(config.agentmail.apiBaseUrl);
+  await new MockAgentMailApi(credentialProvider).listen(parseInt(url.port) || 80, url.hostname);
+}
+
+/**
+ * Load the spool and start the delivery workers when DELIVERY_MODE=queue.
+ * Runs before the listeners open, so a broken spool stops startup.
+ */
+async function startDeliveryQueueIfConfigured(): Promise<void> {
+  if (!deliveryQueue) {
+    return;
+  }
+  const spooled = await deliveryQueue.start();
+  Logger.info('Delivery queue started', { spoolDir: config.delivery.spoolDir, spooled });
+}
+
+function startListeners(): void {
+  let listening = 0;
+  for (const { listener, server } of servers) {
+    server.listen(listener.port, () => {
+      Logger.info('Listener started', { listener: listener.name, port: listener.port, secure: listener.secure });
+      if (++listening === servers.length) {
+        printStartupBanner();
+      }
+    });
+  }
+}
+
+startMockRedisIfConfigured()
+  .then(startMockApiIfConfigured)
+  .then(startDeliveryQueueIfConfigured)
+  .then(startListeners)
+  .catch(error => {
+    Logger.error('Failed to start SMTP server', { error: (error as Error).message });
+    process.exit(1);
+  });
 
 // ============================================================================
 // GRACEFUL SHUTDOWN
 // ============================================================================
 
-process.on('SIGINT', () => {
+function shutdown(): void {
   Logger.info('Shutting down SMTP server...');
   sessionManager.stopCleanupTimer();
-  server.close(() => {
-    Logger.info('SMTP server closed');
-    process.exit(0);
-  });
-});
+  deliveryQueue?.stop();
+  certificateStore.close();
+  credentialFile?.close();
+
+  let open = servers.length;
+  for (const { listener, server } of servers) {
+    server.close(() => {
+      Logger.info('SMTP listener closed', { listener: listener.name });
+      if (--open === 0) {
+        Logger.info('SMTP server closed');
+        process.exit(0);
+      }
+    });
+  }
+}
 
-process.on('SIGTERM', () => {
-  Logger.info('Shutting down SMTP server...');
-  sessionManager.stopCleanupTimer();
-  server.close(() => {
-    Logger.info('SMTP server closed');
-    process.exit(0);
-  });
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+// SIGHUP: re-read credentials and forget cached auth results (e.g. right after revoking a key)
+process.on('SIGHUP', () => {
+  Logger.info('SIGHUP received, reloading credentials');
+  credentialFile?.reload();
+  authCache.clear();
 });
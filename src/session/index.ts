@@ -18,7 +18,10 @@ export { SMTPSessionState } from './session-state';
 export type {
   SMTPSession,
   SessionUser,
+  SendingInbox,
   SessionRecipient,
+  DsnNotify,
+  EnvelopeDsn,
   ConnectionMetadata,
   SessionTimestamps,
   StateTransition
@@ -45,3 +48,8 @@ export type {
   SessionStore,
 } from './session-store';
 export { MemorySessionStore } from './session-store';
+export {
+  RedisSessionStore,
+  serializeSession,
+  deserializeSession
+} from './redis-session-store';
@@ -0,0 +1,188 @@
+/**
+ * Redis Session Store
+ *
+ * SessionStore backed by any RESP-speaking server (Redis, Valkey, ...),
+ * so several gateway replicas behind a load balancer share session state.
+ *
+ * Key layout (prefix defaults to "smtp:"):
+ * - <prefix>session:<id>  JSON-serialized SMTPSession, TTL = SESSION_TIMEOUT_MS
+ * - <prefix>sessions      Sorted set of session IDs scored by lastActivityAt
+ *
+ * The TTL is refreshed on every write, so an idle session disappears on its
+ * own even if the instance that owned it is gone. The sorted set is the
+ * cross-instance index used by findExpired, countByState and count.
+ */
+
+import {
+  SMTPSession,
+  SMTPSessionState,
+  SessionTimestamps,
+  SESSION_TIMEOUT_MS
+} from './session-state';
+import { SessionStore } from './session-store';
+import { RespClient, RespValue } from '../redis/resp-client';
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+const TIMESTAMP_FIELDS: Array<keyof SessionTimestamps> = [
+  'createdAt',
+  'lastActivityAt',
+  'authenticatedAt',
+  'mailFromAt',
+  'dataStartedAt',
+  'completedAt'
+];
+
+/**
+ * Serialize a session to JSON. Dates become ISO-8601 strings.
+ */
+export function serializeSession(session: SMTPSession): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Deserialize a session from JSON, restoring every Date field:
+ * timestamps.*, rcptTo[].addedAt and stateHistory[].timestamp.
+ */
+export function deserializeSession(json: string): SMTPSession {
+  const session = JSON.parse(json) as SMTPSession;
+
+  const timestamps = session.timestamps as unknown as Record<string, string | undefined>;
+  const restored = {} as Record<string, Date>;
+  for (const field of TIMESTAMP_FIELDS) {
+    const value = timestamps[field];
+    if (value) {
+      restored[field] = new Date(value);
+    }
+  }
+  session.timestamps = restored as unknown as SessionTimestamps;
+
+  session.rcptTo = session.rcptTo.map(recipient => ({
+    ...recipient,
+    addedAt: new Date(recipient.addedAt)
+  }));
+
+  session.stateHistory = session.stateHistory.map(transition => ({
+    ...transition,
+    timestamp: new Date(transition.timestamp)
+  }));
+
+  return session;
+}
+
+// ============================================================================
+// REDIS STORE IMPLEMENTATION
+// ============================================================================
+
+/**
+ * Session store for multi-instance deployments.
+ */
+export class RedisSessionStore implements SessionStore {
+  constructor(
+    private client: RespClient,
+    private keyPrefix: string = 'smtp:',
+    private ttlMs: number = SESSION_TIMEOUT_MS
+  ) {}
+
+  private sessionKey(sessionId: string): string {
+    return `${this.keyPrefix}session:${sessionId}`;
+  }
+
+  private indexKey(): string {
+    return `${this.keyPrefix}sessions`;
+  }
+
+  async create(session: SMTPSession): Promise<SMTPSession> {
+    return this.write(session);
+  }
+
+  async get(sessionId: string): Promise<SMTPSession | null> {
+    const json = await this.client.command('GET', this.sessionKey(sessionId));
+    return typeof json === 'string' ? deserializeSession(json) : null;
+  }
+
+  async update(session: SMTPSession): Promise<SMTPSession> {
+    return this.write(session);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const deleted = await this.client.command('DEL', this.sessionKey(sessionId));
+    await this.client.command('ZREM', this.indexKey(), sessionId);
+    return deleted === 1;
+  }
+
+  async findExpired(maxAgeMs: number): Promise<string[]> {
+    const cutoff = Date.now() - maxAgeMs;
+    const ids = await this.client.command('ZRANGEBYSCORE', this.indexKey(), '-inf', `(${cutoff}`);
+    return asStringArray(ids);
+  }
+
+  async countByState(): Promise<Record<SMTPSessionState, number>> {
+    const counts = {} as Record<SMTPSessionState, number>;
+
+    // Initialize all states with 0
+    for (const state of Object.values(SMTPSessionState)) {
+      counts[state] = 0;
+    }
+
+    for (const session of await this.getAll()) {
+      counts[session.state]++;
+    }
+
+    return counts;
+  }
+
+  async count(): Promise<number> {
+    await this.pruneIndex();
+    const count = await this.client.command('ZCARD', this.indexKey());
+    return typeof count === 'number' ? count : 0;
+  }
+
+  async clear(): Promise<void> {
+    const ids = asStringArray(await this.client.command('ZRANGE', this.indexKey(), 0, -1));
+    if (ids.length > 0) {
+      await this.client.command('DEL', ...ids.map(id => this.sessionKey(id)));
+    }
+    await this.client.command('DEL', this.indexKey());
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // HELPERS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  private async write(session: SMTPSession): Promise<SMTPSession> {
+    await this.client.command('SET', this.sessionKey(session.id), serializeSession(session), 'PX', this.ttlMs);
+    await this.client.command('ZADD', this.indexKey(), session.timestamps.lastActivityAt.getTime(), session.id);
+    return session;
+  }
+
+  /**
+   * Drop index entries whose session key has already expired via TTL.
+   */
+  private async pruneIndex(): Promise<void> {
+    await this.client.command('ZREMRANGEBYSCORE', this.indexKey(), '-inf', `(${Date.now() - this.ttlMs}`);
+  }
+
+  /**
+   * Load every live session across all instances.
+   */
+  private async getAll(): Promise<SMTPSession[]> {
+    await this.pruneIndex();
+
+    const ids = asStringArray(await this.client.command('ZRANGE', this.indexKey(), 0, -1));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const values = await this.client.command('MGET', ...ids.map(id => this.sessionKey(id)));
+    return (Array.isArray(values) ? values : [])
+      .filter((json): json is string => typeof json === 'string')
+      .map(deserializeSession);
+  }
+}
+
+function asStringArray(value: RespValue): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -9,7 +9,9 @@ import {
   SMTPSession,
   SMTPSessionState,
   SessionUser,
+  SendingInbox,
   SessionRecipient,
+  EnvelopeDsn,
   ConnectionMetadata,
   StateTransition,
   SESSION_TIMEOUT_MS,
@@ -19,6 +21,10 @@ import {
   getNextState,
   createEmptySession
 } from './session-state';
+import { SessionStore, MemorySessionStore } from './session-store';
+import { RedisSessionStore } from './redis-session-store';
+import { RespClient, parseRedisUrl } from '../redis/resp-client';
+import { config } from '../config';
 import Logger from '../utils/logger';
 
 // ============================================================================
@@ -34,16 +40,20 @@ import Logger from '../utils/logger';
  * - Tracking session data (user, mailFrom, rcptTo, etc.)
  * - Cleaning up expired sessions
  * - Providing session state for hook validation
+ *
+ * All reads and writes go through a SessionStore, so the backend
+ * (memory, Redis, ...) can be swapped without touching the hooks.
+ * Every mutation is persisted with store.update() before returning.
  */
 export class SessionManager {
-  /** In-memory session storage */
-  private sessions: Map<string, SMTPSession> = new Map();
+  /** Session storage backend */
+  private store: SessionStore;
 
   /** Cleanup interval handle */
   private cleanupIntervalId?: NodeJS.Timeout;
 
-  constructor() {
-    this.sessions = new Map();
+  constructor(store: SessionStore = new MemorySessionStore()) {
+    this.store = store;
     this.startCleanupTimer();
   }
 
@@ -58,9 +68,8 @@ export class SessionManager {
    * @param connection - Connection metadata
    * @returns The created session
    */
-  createSession(sessionId: string, connection: ConnectionMetadata): SMTPSession {
-    const session = createEmptySession(sessionId, connection);
-    this.sessions.set(sessionId, session);
+  async createSession(sessionId: string, connection: ConnectionMetadata): Promise<SMTPSession> {
+    const session = await this.store.create(createEmptySession(sessionId, connection));
 
     Logger.info('Session created', {
       sessionId,
@@ -75,10 +84,10 @@ export class SessionManager {
    * Get an existing session by ID.
    *
    * @param sessionId - Session identifier
-   * @returns Session or undefined if not found
+   * @returns Session or null if not found
    */
-  getSession(sessionId: string): SMTPSession | undefined {
-    return this.sessions.get(sessionId);
+  async getSession(sessionId: string): Promise<SMTPSession | null> {
+    return this.store.get(sessionId);
   }
 
   /**
@@ -87,17 +96,18 @@ export class SessionManager {
    * @param sessionId - Session identifier
    * @returns true if session was deleted, false if not found
    */
-  deleteSession(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const session = await this.store.get(sessionId);
     if (session) {
       const durationMs = Date.now() - session.timestamps.createdAt.getTime();
       Logger.info('Session deleted', {
         sessionId,
+        listener: session.connection.listener,
         finalState: session.state,
         messagesDelivered: session.messageCount,
         durationMs
       });
-      return this.sessions.delete(sessionId);
+      return this.store.delete(sessionId);
     }
     return false;
   }
@@ -113,8 +123,8 @@ export class SessionManager {
    * @param command - SMTP command (e.g., 'MAIL', 'RCPT', 'DATA')
    * @returns true if command is allowed
    */
-  canExecuteCommand(sessionId: string, command: string): boolean {
-    const session = this.getSession(sessionId);
+  async canExecuteCommand(sessionId: string, command: string): Promise<boolean> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return false;
     }
@@ -126,25 +136,19 @@ export class SessionManager {
   // ─────────────────────────────────────────────────────────────────────────
 
   /**
-   * Transition session to a new state after command execution.
+   * Transition session to a new state after command execution and persist it.
    *
-   * @param sessionId - Session identifier
+   * @param session - Session (already carrying the command's data changes)
    * @param command - Command that triggered the transition
    * @param newState - Target state
-   * @returns Updated session or null if transition invalid
+   * @returns Updated session
    */
-  private transitionState(
-    sessionId: string,
+  private async transitionState(
+    session: SMTPSession,
     command: string,
     newState: SMTPSessionState
-  ): SMTPSession | null {
-    const session = this.sessions.get(sessionId);
-
-    if (!session) {
-      Logger.error('Session not found for state transition', { sessionId, command, newState });
-      return null;
-    }
-
+  ): Promise<SMTPSession> {
+    const sessionId = session.id;
     const currentState = session.state;
 
     // Record transition in history
@@ -166,7 +170,7 @@ export class SessionManager {
       command
     });
 
-    return session;
+    return this.store.update(session);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -180,8 +184,8 @@ export class SessionManager {
    * @param clientHostname - Hostname provided by client
    * @returns Updated session or null if invalid
    */
-  handleHello(sessionId: string, clientHostname?: string): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleHello(sessionId: string, clientHostname?: string): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -196,7 +200,30 @@ export class SessionManager {
       session.connection.clientHostname = clientHostname;
     }
 
-    return this.transitionState(sessionId, 'EHLO', nextState);
+    return this.transitionState(session, 'EHLO', nextState);
+  }
+
+  /**
+   * Handle completed TLS handshake (STARTTLS) - mark the connection as encrypted.
+   *
+   * Does not change the protocol state; the client re-issues EHLO on the
+   * upgraded connection.
+   *
+   * @param sessionId - Session identifier
+   * @returns Updated session or null if not found
+   */
+  async handleSecure(sessionId: string): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    session.connection.tlsEnabled = true;
+    session.timestamps.lastActivityAt = new Date();
+
+    Logger.info('Session upgraded to TLS', { sessionId });
+
+    return this.store.update(session);
   }
 
   /**
@@ -206,8 +233,8 @@ export class SessionManager {
    * @param user - Authenticated user information
    * @returns Updated session or null if invalid
    */
-  handleAuthentication(sessionId: string, user: SessionUser): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleAuthentication(sessionId: string, user: SessionUser): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -224,11 +251,13 @@ export class SessionManager {
 
     Logger.info('Session authenticated', {
       sessionId,
+      scope: user.scope,
       inbox_id: user.inbox_id,
-      organization_id: user.organization_id
+      organization_id: user.organization_id,
+      auth_method: user.auth_method
     });
 
-    return this.transitionState(sessionId, 'AUTH', nextState);
+    return this.transitionState(session, 'AUTH', nextState);
   }
 
   /**
@@ -236,10 +265,17 @@ export class SessionManager {
    *
    * @param sessionId - Session identifier
    * @param mailFrom - Sender email address
+   * @param sendingInbox - Inbox the message will be sent from, if already known
+   * @param dsn - RET/ENVID parameters
    * @returns Updated session or null if invalid
    */
-  handleMailFrom(sessionId: string, mailFrom: string): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleMailFrom(
+    sessionId: string,
+    mailFrom: string,
+    sendingInbox?: SendingInbox,
+    dsn?: EnvelopeDsn
+  ): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -251,6 +287,8 @@ export class SessionManager {
     }
 
     session.mailFrom = mailFrom;
+    session.sendingInbox = sendingInbox;
+    session.dsn = dsn;
     session.timestamps.mailFromAt = new Date();
     // Clear any previous recipients
     session.rcptTo = [];
@@ -259,10 +297,30 @@ export class SessionManager {
 
     Logger.info('MAIL FROM stored', {
       sessionId,
-      mailFrom
+      mailFrom,
+      sendingInbox: sendingInbox?.inbox_id
     });
 
-    return this.transitionState(sessionId, 'MAIL', nextState);
+    return this.transitionState(session, 'MAIL', nextState);
+  }
+
+  /**
+   * Set the sending inbox after MAIL FROM (organization-scoped sessions
+   * with a null sender resolve it from the From: header during DATA).
+   *
+   * @param sessionId - Session identifier
+   * @param sendingInbox - Inbox the message will be sent from
+   * @returns Updated session or null if not found
+   */
+  async setSendingInbox(sessionId: string, sendingInbox: SendingInbox): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    session.sendingInbox = sendingInbox;
+    session.timestamps.lastActivityAt = new Date();
+    return this.store.update(session);
   }
 
   /**
@@ -270,10 +328,15 @@ export class SessionManager {
    *
    * @param sessionId - Session identifier
    * @param recipient - Recipient email address
+   * @param dsn - NOTIFY/ORCPT parameters
    * @returns Updated session or null if invalid/limit exceeded
    */
-  handleRcptTo(sessionId: string, recipient: string): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleRcptTo(
+    sessionId: string,
+    recipient: string,
+    dsn: Pick<SessionRecipient, 'notify' | 'orcpt'> = {}
+  ): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -297,7 +360,8 @@ export class SessionManager {
     // Add recipient
     const recipientEntry: SessionRecipient = {
       address: recipient,
-      addedAt: new Date()
+      addedAt: new Date(),
+      ...dsn
     };
     session.rcptTo.push(recipientEntry);
 
@@ -309,12 +373,12 @@ export class SessionManager {
 
     // Only transition state if we're not already in RCPT_TO
     if (session.state !== SMTPSessionState.RCPT_TO) {
-      return this.transitionState(sessionId, 'RCPT', nextState);
+      return this.transitionState(session, 'RCPT', nextState);
     }
 
     // Update activity timestamp
     session.timestamps.lastActivityAt = new Date();
-    return session;
+    return this.store.update(session);
   }
 
   /**
@@ -323,8 +387,8 @@ export class SessionManager {
    * @param sessionId - Session identifier
    * @returns Updated session or null if invalid
    */
-  handleDataStart(sessionId: string): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleDataStart(sessionId: string): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -343,7 +407,7 @@ export class SessionManager {
 
     session.timestamps.dataStartedAt = new Date();
 
-    return this.transitionState(sessionId, 'DATA', nextState);
+    return this.transitionState(session, 'DATA', nextState);
   }
 
   /**
@@ -353,8 +417,8 @@ export class SessionManager {
    * @param messageId - Assigned message ID
    * @returns Updated session or null if invalid
    */
-  handleDataComplete(sessionId: string, messageId: string): SMTPSession | null {
-    const session = this.getSession(sessionId);
+  async handleDataComplete(sessionId: string, messageId: string): Promise<SMTPSession | null> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return null;
     }
@@ -375,7 +439,7 @@ export class SessionManager {
       messageCount: session.messageCount
     });
 
-    return this.transitionState(sessionId, 'DATA_COMPLETE', nextState);
+    return this.transitionState(session, 'DATA_COMPLETE', nextState);
   }
 
   /**
@@ -386,8 +450,8 @@ export class SessionManager {
    *
    * @param sessionId - Session identifier
    */
-  resetForNewMessage(sessionId: string): void {
-    const session = this.getSession(sessionId);
+  async resetForNewMessage(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       Logger.warn('Cannot reset: session not found', { sessionId });
       return;
@@ -395,6 +459,8 @@ export class SessionManager {
 
     // Clear email-specific data
     session.mailFrom = undefined;
+    session.sendingInbox = undefined;
+    session.dsn = undefined;
     session.rcptTo = [];
     session.messageData = undefined;
     session.messageId = undefined;
@@ -421,6 +487,8 @@ export class SessionManager {
       command: 'RESET'
     });
 
+    await this.store.update(session);
+
     Logger.info('Session reset for new message', {
       sessionId,
       messagesDelivered: session.messageCount,
@@ -438,10 +506,11 @@ export class SessionManager {
    *
    * @param sessionId - Session identifier
    */
-  updateActivity(sessionId: string): void {
-    const session = this.getSession(sessionId);
+  async updateActivity(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
     if (session) {
       session.timestamps.lastActivityAt = new Date();
+      await this.store.update(session);
     }
   }
 
@@ -454,21 +523,23 @@ export class SessionManager {
    *
    * @returns Number of sessions cleaned up
    */
-  cleanupExpiredSessions(): number {
+  async cleanupExpiredSessions(): Promise<number> {
     const now = Date.now();
     let cleanedCount = 0;
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      const inactiveMs = now - session.timestamps.lastActivityAt.getTime();
+    for (const sessionId of await this.store.findExpired(SESSION_TIMEOUT_MS)) {
+      const session = await this.store.get(sessionId);
 
-      if (inactiveMs > SESSION_TIMEOUT_MS) {
+      if (session) {
         Logger.info('Session expired - cleaning up', {
           sessionId,
-          inactiveMinutes: Math.round(inactiveMs / 60000),
+          inactiveMinutes: Math.round((now - session.timestamps.lastActivityAt.getTime()) / 60000),
           state: session.state,
           messagesDelivered: session.messageCount
         });
-        this.sessions.delete(sessionId);
+      }
+
+      if (await this.store.delete(sessionId)) {
         cleanedCount++;
       }
     }
@@ -481,10 +552,15 @@ export class SessionManager {
    */
   private startCleanupTimer(): void {
     this.cleanupIntervalId = setInterval(() => {
-      const count = this.cleanupExpiredSessions();
-      if (count > 0) {
-        Logger.info(`Cleaned up ${count} expired sessions`);
-      }
+      this.cleanupExpiredSessions()
+        .then(count => {
+          if (count > 0) {
+            Logger.info(`Cleaned up ${count} expired sessions`);
+          }
+        })
+        .catch(error => {
+          Logger.error('Session cleanup failed', { error: (error as Error).message });
+        });
     }, CLEANUP_INTERVAL_MS);
 
     // Don't prevent process exit
@@ -511,8 +587,8 @@ export class SessionManager {
   /**
    * Get current session count.
    */
-  getSessionCount(): number {
-    return this.sessions.size;
+  async getSessionCount(): Promise<number> {
+    return this.store.count();
   }
 
   /**
@@ -520,23 +596,11 @@ export class SessionManager {
    *
    * @returns Session stats including total and breakdown by state
    */
-  getStats(): { total: number; byState: Record<string, number> } {
-    const stats = {
-      total: this.sessions.size,
-      byState: {} as Record<string, number>
+  async getStats(): Promise<{ total: number; byState: Record<string, number> }> {
+    return {
+      total: await this.store.count(),
+      byState: await this.store.countByState()
     };
-
-    // Initialize all states with 0
-    for (const state of Object.values(SMTPSessionState)) {
-      stats.byState[state] = 0;
-    }
-
-    // Count sessions by state
-    for (const session of this.sessions.values()) {
-      stats.byState[session.state]++;
-    }
-
-    return stats;
   }
 
   /**
@@ -545,7 +609,7 @@ export class SessionManager {
    * @param sessionId - Session identifier
    * @returns Session details or undefined
    */
-  getSessionDetails(sessionId: string): {
+  async getSessionDetails(sessionId: string): Promise<{
     state: string;
     authenticated: boolean;
     user?: string;
@@ -554,8 +618,8 @@ export class SessionManager {
     messageCount: number;
     ageSeconds: number;
     lastActivitySeconds: number;
-  } | undefined {
-    const session = this.getSession(sessionId);
+  } | undefined> {
+    const session = await this.getSession(sessionId);
     if (!session) {
       return undefined;
     }
@@ -564,7 +628,7 @@ export class SessionManager {
     return {
       state: session.state,
       authenticated: session.authenticated,
-      user: session.user?.inbox_id,
+      user: session.user?.inbox_id || session.user?.organization_id,
       mailFrom: session.mailFrom,
       recipientCount: session.rcptTo.length,
       messageCount: session.messageCount,
@@ -578,8 +642,26 @@ export class SessionManager {
 // SINGLETON EXPORT
 // ============================================================================
 
+/**
+ * Build the session store selected by config.session.store.
+ */
+function createSessionStore(): SessionStore {
+  if (config.session.store === 'redis') {
+    Logger.info('Using Redis session store', {
+      redisUrl: config.session.redisUrl.replace(/\/\/[^@]*@/, '//***@'),
+      keyPrefix: config.session.keyPrefix
+    });
+    return new RedisSessionStore(
+      new RespClient(parseRedisUrl(config.session.redisUrl)),
+      config.session.keyPrefix
+    );
+  }
+
+  return new MemorySessionStore();
+}
+
 /**
  * Default session manager instance.
  * Use this for the main SMTP server.
  */
-export const sessionManager = new SessionManager();
+export const sessionManager = new SessionManager(createSessionStore());
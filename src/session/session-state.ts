@@ -5,6 +5,8 @@
  * Based on RFC 5321 state transitions with command-based validation.
  */
 
+import type { AuthScope } from '../auth/errors';
+
 // ============================================================================
 // SESSION STATE ENUM
 // ============================================================================
@@ -54,22 +56,51 @@ export interface ConnectionMetadata {
   clientHostname?: string;
   /** Whether TLS is enabled */
   tlsEnabled: boolean;
+  /** Name of the listener that accepted the connection (see config.smtp.listeners) */
+  listener: string;
 }
 
 /**
  * Authenticated user information stored in session
  */
 export interface SessionUser {
-  /** AgentMail inbox ID */
-  inbox_id: string;
+  /** 'inbox' = bound to inbox_id; 'organization' = any inbox of the org, picked per message */
+  scope: AuthScope;
+  /** AgentMail inbox ID (inbox scope only) */
+  inbox_id?: string;
   /** Organization ID */
   organization_id: string;
-  /** Email address for this inbox */
-  email_address: string;
+  /** Email address for this inbox (inbox scope only) */
+  email_address?: string;
   /** API key ID used for authentication */
   api_key_id: string;
-  /** API key used for authentication (needed for API calls) */
-  api_key: string;
+  /** Opaque apiKeyVault handle for the API key used for API calls (a service key for bearer sessions) */
+  api_key_handle: string;
+  /** SASL mechanism used to authenticate (PLAIN, LOGIN, SCRAM-SHA-256, ...), for auditing */
+  auth_method: string;
+}
+
+/**
+ * Inbox the current message is sent from
+ */
+export interface SendingInbox {
+  inbox_id: string;
+  email_address: string;
+}
+
+/**
+ * RCPT TO NOTIFY value (RFC 3461 4.1)
+ */
+export type DsnNotify = 'NEVER' | 'SUCCESS' | 'FAILURE' | 'DELAY';
+
+/**
+ * MAIL FROM DSN parameters (RFC 3461 4.3, 4.4)
+ */
+export interface EnvelopeDsn {
+  /** Return the full message or only its headers in failure DSNs */
+  ret?: 'FULL' | 'HDRS';
+  /** Envelope identifier, echoed as Original-Envelope-Id */
+  envid?: string;
 }
 
 /**
@@ -80,6 +111,10 @@ export interface SessionRecipient {
   address: string;
   /** Timestamp when recipient was added */
   addedAt: Date;
+  /** Which DSNs the client wants for this recipient (unset = failure and delay) */
+  notify?: DsnNotify[];
+  /** Original recipient ("addr-type;address"), echoed as Original-Recipient */
+  orcpt?: string;
 }
 
 /**
@@ -130,6 +165,10 @@ export interface SMTPSession {
   authenticated: boolean;
   /* MAIL FROM address (set after MAIL FROM) */
   mailFrom?: string;
+  /* Inbox sending the current message (the session's inbox, or resolved per message for organization scope) */
+  sendingInbox?: SendingInbox;
+  /* DSN parameters of MAIL FROM (set after MAIL FROM) */
+  dsn?: EnvelopeDsn;
   /* List of RCPT TO addresses */
   rcptTo: SessionRecipient[];
   /* Raw message data (populated during DATA phase) */
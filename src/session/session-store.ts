@@ -2,8 +2,9 @@
  * Abstract Session Store Interface
  *
  * Defines the contract for session storage backends.
- * Current implementation uses in-memory Map (in SessionManager),
- * but this interface allows future migration to Redis, DynamoDB, etc.
+ * SessionManager reads and writes every session through this interface,
+ * so backends can be swapped (memory, Redis, DynamoDB, etc.) without
+ * touching the SMTP hooks.
  */
 
 import { SMTPSession, SMTPSessionState } from './session-state';
@@ -15,8 +16,11 @@ import { SMTPSession, SMTPSessionState } from './session-state';
 /**
  * Abstract interface for session storage.
  *
+ * Implementations:
+ * - MemorySessionStore - single instance (below)
+ * - RedisSessionStore - for distributed deployments (redis-session-store.ts)
+ *
  * Future implementations:
- * - RedisSessionStore - for distributed deployments
  * - DynamoDBSessionStore - for AWS deployments
  * - PostgresSessionStore - for relational DB storage
  */
@@ -81,21 +85,25 @@ export interface SessionStore {
  *
  * Suitable for single-instance deployments and testing.
  * For multi-instance or production deployments, use RedisSessionStore.
+ *
+ * Sessions are copied in and out, as a remote store would serialize them:
+ * a change to a returned session is only kept once it is passed to update().
  */
 export class MemorySessionStore implements SessionStore {
   private sessions: Map<string, SMTPSession> = new Map();
 
   async create(session: SMTPSession): Promise<SMTPSession> {
-    this.sessions.set(session.id, session);
+    this.sessions.set(session.id, structuredClone(session));
     return session;
   }
 
   async get(sessionId: string): Promise<SMTPSession | null> {
-    return this.sessions.get(sessionId) ?? null;
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
   }
 
   async update(session: SMTPSession): Promise<SMTPSession> {
-    this.sessions.set(session.id, session);
+    this.sessions.set(session.id, structuredClone(session));
     return session;
   }
 
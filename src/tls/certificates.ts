@@ -0,0 +1,358 @@
+/**
+ * TLS Certificate Loading
+ *
+ * Loads the PEM key/certificate pair configured in config.ts so the
+ * SMTP server can offer STARTTLS and implicit TLS.
+ *
+ * CertificateStore adds:
+ * - Per-hostname certificates (SNI) from a certificate directory
+ * - Hot reload when certificate files change, without restarting
+ *   the server or dropping existing sessions
+ * - Last-good fallback: a certificate that fails to load is logged and
+ *   the previously loaded one keeps being served
+ */
+
+import fs from 'fs';
+import path from 'path';
+import tls from 'tls';
+import { config } from '../config';
+import Logger from '../utils/logger';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Key/certificate pair passed straight into the SMTPServer TLS options
+ */
+export interface TlsCredentials {
+  key: Buffer;
+  cert: Buffer;
+}
+
+/**
+ * Called with the new default credentials after a successful reload
+ */
+export type CertificateReloadListener = (credentials: TlsCredentials) => void;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * SNI certificate file naming inside the certificate directory:
+ *   <hostname>.crt + <hostname>.key (e.g. smtp.agentmail.to.crt)
+ */
+const SNI_CERT_EXTENSION = '.crt';
+const SNI_KEY_EXTENSION = '.key';
+
+/**
+ * Delay before reloading after a file change.
+ * Cert rotation usually writes key and cert separately; wait for both.
+ */
+const RELOAD_DEBOUNCE_MS = 500;
+
+// ============================================================================
+// LOADER
+// ============================================================================
+
+/**
+ * Load the TLS key and certificate from disk.
+ *
+ * Returns null when no paths are configured, in which case smtp-server
+ * falls back to its bundled self-signed certificate (fine for local testing).
+ *
+ * @param keyPath - Path to the PEM private key
+ * @param certPath - Path to the PEM certificate chain
+ * @returns TlsCredentials or null if TLS files are not configured
+ * @throws Error if a configured file cannot be read
+ */
+export function loadTlsCredentials(
+  keyPath: string = config.tls.keyPath,
+  certPath: string = config.tls.certPath
+): TlsCredentials | null {
+  if (!keyPath || !certPath) {
+    Logger.warn('TLS key/cert not configured, using built-in self-signed certificate', {
+      keyPath: keyPath || 'unset',
+      certPath: certPath || 'unset'
+    });
+    return null;
+  }
+
+  try {
+    const credentials: TlsCredentials = {
+      key: fs.readFileSync(keyPath),
+      cert: fs.readFileSync(certPath)
+    };
+
+    Logger.info('TLS certificate loaded', { keyPath, certPath });
+
+    return credentials;
+  } catch (error) {
+    Logger.error('Failed to load TLS certificate', {
+      keyPath,
+      certPath,
+      error: (error as Error).message
+    });
+    throw error;
+  }
+}
+
+// ============================================================================
+// CERTIFICATE STORE
+// ============================================================================
+
+/**
+ * CertificateStore holds the default certificate and per-hostname
+ * certificates, and reloads them when the files on disk change.
+ *
+ * Usage with smtp-server:
+ * - Spread getDefaultCredentials() into the SMTPServer options
+ * - Pass SNICallback as the SMTPServer SNICallback option
+ * - Forward onReload() credentials to server.updateSecureContext()
+ */
+export class CertificateStore {
+  /** Last good default key/cert pair */
+  private defaultCredentials: TlsCredentials | null;
+
+  /** Secure context for the default pair (SNI fallback) */
+  private defaultContext?: tls.SecureContext;
+
+  /** Per-hostname secure contexts, keyed by lowercase hostname */
+  private sniContexts: Map<string, tls.SecureContext> = new Map();
+
+  /** Directory watchers (one per watched directory) */
+  private watchers: fs.FSWatcher[] = [];
+
+  /** Pending debounced reload */
+  private reloadTimer?: NodeJS.Timeout;
+
+  private reloadListeners: CertificateReloadListener[] = [];
+
+  constructor(
+    private keyPath: string = config.tls.keyPath,
+    private certPath: string = config.tls.certPath,
+    private certDir: string = config.tls.certDir
+  ) {
+    // Startup is fail-fast: a configured but unreadable cert throws here
+    this.defaultCredentials = loadTlsCredentials(keyPath, certPath);
+    if (this.defaultCredentials) {
+      this.defaultContext = tls.createSecureContext(this.defaultCredentials);
+    }
+    this.loadSniCertificates();
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // ACCESSORS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Current default key/cert pair, or null when using the built-in certificate.
+   */
+  getDefaultCredentials(): TlsCredentials | null {
+    return this.defaultCredentials;
+  }
+
+  /**
+   * Hostnames that have their own certificate.
+   */
+  getSniHostnames(): string[] {
+    return Array.from(this.sniContexts.keys());
+  }
+
+  /**
+   * SNI handler for the SMTPServer `SNICallback` option.
+   *
+   * Falls back to the default certificate for unknown hostnames.
+   * Declared as an arrow function so it can be passed unbound.
+   */
+  SNICallback = (
+    servername: string,
+    callback: (err: Error | null, ctx?: tls.SecureContext) => void
+  ): void => {
+    const context = this.sniContexts.get(servername.toLowerCase()) || this.defaultContext;
+
+    Logger.debug('SNI certificate selected', {
+      servername,
+      match: this.sniContexts.has(servername.toLowerCase()) ? 'hostname' : 'default'
+    });
+
+    callback(null, context);
+  };
+
+  /**
+   * Register a listener for default certificate changes.
+   */
+  onReload(listener: CertificateReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RELOAD
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Reload the default and SNI certificates from disk.
+   *
+   * Never throws: failures are logged and the last good certificate is kept.
+   * Existing TLS sessions are unaffected; new handshakes use the new certificates.
+   */
+  reload(): void {
+    this.reloadDefaultCertificate();
+    this.loadSniCertificates();
+  }
+
+  private reloadDefaultCertificate(): void {
+    if (!this.keyPath || !this.certPath) {
+      return;
+    }
+
+    let credentials: TlsCredentials | null;
+    let context: tls.SecureContext;
+    try {
+      credentials = loadTlsCredentials(this.keyPath, this.certPath);
+      if (!credentials) {
+        return;
+      }
+      // Validates that key and cert parse and belong together
+      context = tls.createSecureContext(credentials);
+    } catch (error) {
+      Logger.error('TLS certificate reload failed, keeping last good certificate', {
+        certPath: this.certPath,
+        error: (error as Error).message
+      });
+      return;
+    }
+
+    this.defaultCredentials = credentials;
+    this.defaultContext = context;
+
+    Logger.info('TLS certificate reloaded', { certPath: this.certPath });
+
+    for (const listener of this.reloadListeners) {
+      listener(credentials);
+    }
+  }
+
+  /**
+   * Load <hostname>.crt / <hostname>.key pairs from the certificate directory.
+   *
+   * Hostnames whose files disappear are dropped; hostnames whose files
+   * fail to load keep their previous context.
+   */
+  private loadSniCertificates(): void {
+    if (!this.certDir) {
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.certDir);
+    } catch (error) {
+      Logger.error('Failed to read TLS certificate directory', {
+        certDir: this.certDir,
+        error: (error as Error).message
+      });
+      return;
+    }
+
+    const contexts: Map<string, tls.SecureContext> = new Map();
+
+    for (const file of files) {
+      if (!file.endsWith(SNI_CERT_EXTENSION)) {
+        continue;
+      }
+
+      const hostname = file.slice(0, -SNI_CERT_EXTENSION.length).toLowerCase();
+      const certFile = path.join(this.certDir, file);
+      const keyFile = path.join(this.certDir, hostname + SNI_KEY_EXTENSION);
+
+      try {
+        contexts.set(hostname, tls.createSecureContext({
+          key: fs.readFileSync(keyFile),
+          cert: fs.readFileSync(certFile)
+        }));
+      } catch (error) {
+        Logger.error('Failed to load SNI certificate, keeping last good certificate', {
+          hostname,
+          certFile,
+          error: (error as Error).message
+        });
+        const previous = this.sniContexts.get(hostname);
+        if (previous) {
+          contexts.set(hostname, previous);
+        }
+      }
+    }
+
+    this.sniContexts = contexts;
+
+    Logger.info('SNI certificates loaded', {
+      certDir: this.certDir,
+      hostnames: contexts.size > 0 ? Array.from(contexts.keys()).join(', ') : 'none'
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // FILE WATCHING
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Watch certificate files and reload on change.
+   *
+   * Directories are watched rather than files so that rotations that
+   * replace the file (write + rename) are picked up.
+   */
+  watch(): void {
+    const directories = new Set<string>();
+    if (this.keyPath && this.certPath) {
+      directories.add(path.dirname(path.resolve(this.keyPath)));
+      directories.add(path.dirname(path.resolve(this.certPath)));
+    }
+    if (this.certDir) {
+      directories.add(path.resolve(this.certDir));
+    }
+
+    for (const directory of directories) {
+      try {
+        const watcher = fs.watch(directory, () => this.scheduleReload());
+        watcher.on('error', error => {
+          Logger.error('TLS certificate watcher error', { directory, error: error.message });
+        });
+        watcher.unref();
+        this.watchers.push(watcher);
+        Logger.info('Watching TLS certificates', { directory });
+      } catch (error) {
+        Logger.error('Failed to watch TLS certificate directory', {
+          directory,
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reload();
+    }, RELOAD_DEBOUNCE_MS);
+    this.reloadTimer.unref();
+  }
+
+  /**
+   * Stop watching (for graceful shutdown).
+   */
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = undefined;
+    }
+  }
+}
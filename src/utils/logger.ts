@@ -73,8 +73,8 @@ export const Logger = {
   },
 
   // Special logging for auth steps (detailed for demo)
-  authStep(step: string, result: 'OK' | 'FAIL' | 'FOUND' | 'NOT_FOUND'): void {
-    const icon = result === 'OK' || result === 'FOUND' ? '✓' : '✗';
+  authStep(step: string, result: 'OK' | 'FAIL' | 'FOUND' | 'NOT_FOUND' | 'HIT' | 'MISS'): void {
+    const icon = result === 'OK' || result === 'FOUND' || result === 'HIT' ? '✓' : result === 'MISS' ? '○' : '✗';
     log(LogLevel.INFO, `Auth step: ${step}... ${icon} ${result}`);
   },
 
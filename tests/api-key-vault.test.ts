@@ -0,0 +1,51 @@
+/**
+ * API key vault tests
+ *
+ * Expiry of vaulted keys, which must follow session activity.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiKeyVault } from '../src/auth/api-key-vault';
+
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('a key expires after the TTL without activity', async () => {
+  const vault = new ApiKeyVault(50);
+  const handle = vault.store(API_KEY);
+  assert.equal(vault.reveal(handle), API_KEY);
+
+  await sleep(80);
+  assert.equal(vault.reveal(handle), null);
+  assert.equal(vault.touch(handle), false);
+  assert.equal(vault.size(), 0);
+});
+
+test('activity keeps a key alive past the TTL', async () => {
+  const vault = new ApiKeyVault(400);
+  const handle = vault.store(API_KEY);
+
+  // Well past the TTL in all, never more than half of it between commands
+  for (let i = 0; i < 4; i++) {
+    await sleep(150);
+    assert.equal(vault.touch(handle), true);
+  }
+  await sleep(150);
+  assert.equal(vault.reveal(handle), API_KEY);
+
+  // Using the key counts as activity too
+  await sleep(150);
+  assert.equal(vault.reveal(handle), API_KEY);
+});
+
+test('a released key is gone', () => {
+  const vault = new ApiKeyVault();
+  const handle = vault.store(API_KEY);
+  assert.equal(vault.release(handle), true);
+  assert.equal(vault.reveal(handle), null);
+  assert.equal(vault.release(handle), false);
+});
@@ -0,0 +1,193 @@
+/**
+ * Auth cache tests
+ *
+ * Hits and misses, the success and failure TTLs on a mocked clock, LRU
+ * eviction, and invalidation by a credentials file reload.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthCache, AuthCacheOptions } from '../src/auth/auth-cache';
+import { AuthErrorCode, AuthResult, createAuthError } from '../src/auth/errors';
+import { FileCredentialProvider } from '../src/auth/file-credential-provider';
+import { getApiKeyPrefix, hashApiKey } from '../src/auth/api-key-hash';
+import { validateSMTPCredentials } from '../src/auth/validator';
+
+const OPTIONS: AuthCacheOptions = { maxEntries: 100, successTtlMs: 60000, failureTtlMs: 10000 };
+
+function success(inboxId: string, apiKeyId = 'key_1'): AuthResult {
+  return { success: true, user: { scope: 'inbox', inbox_id: inboxId, organization_id: 'org_abc', api_key_id: apiKeyId } };
+}
+
+function failure(code: AuthErrorCode): AuthResult {
+  return { success: false, error: createAuthError(code, 'test') };
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+test('a cached result is a hit for the same inbox and key only', () => {
+  const cache = new AuthCache(OPTIONS);
+  assert.equal(cache.get('inb_1', 'am_key'), null);
+
+  cache.set('inb_1', 'am_key', success('inb_1'));
+  assert.deepEqual(cache.get('inb_1', 'am_key'), success('inb_1'));
+  assert.equal(cache.get('inb_1', 'am_other'), null);
+  assert.equal(cache.get('inb_2', 'am_key'), null);
+  assert.deepEqual(cache.getStats(), { size: 1, hits: 1, misses: 3 });
+});
+
+test('successes and permanent failures expire after their own TTLs', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const cache = new AuthCache(OPTIONS);
+  cache.set('inb_1', 'am_good', success('inb_1'));
+  cache.set('inb_1', 'am_bad', failure(AuthErrorCode.API_KEY_NOT_FOUND));
+
+  t.mock.timers.tick(9999);
+  assert.notEqual(cache.get('inb_1', 'am_bad'), null);
+  t.mock.timers.tick(1);
+  assert.equal(cache.get('inb_1', 'am_bad'), null);
+
+  t.mock.timers.tick(49999);
+  assert.notEqual(cache.get('inb_1', 'am_good'), null);
+  t.mock.timers.tick(1);
+  assert.equal(cache.get('inb_1', 'am_good'), null);
+  assert.equal(cache.getStats().size, 0);
+});
+
+test('temporary failures are never cached, nor anything with a TTL of 0', () => {
+  const cache = new AuthCache(OPTIONS);
+  cache.set('inb_1', 'am_key', failure(AuthErrorCode.SERVICE_UNAVAILABLE));
+  assert.equal(cache.get('inb_1', 'am_key'), null);
+
+  const noFailures = new AuthCache({ ...OPTIONS, failureTtlMs: 0 });
+  noFailures.set('inb_1', 'am_key', failure(AuthErrorCode.API_KEY_NOT_FOUND));
+  assert.equal(noFailures.get('inb_1', 'am_key'), null);
+
+  const noSuccesses = new AuthCache({ ...OPTIONS, successTtlMs: 0 });
+  noSuccesses.set('inb_1', 'am_key', success('inb_1'));
+  assert.equal(noSuccesses.get('inb_1', 'am_key'), null);
+});
+
+test('the least recently used entry is evicted at the size limit', () => {
+  const cache = new AuthCache({ ...OPTIONS, maxEntries: 2 });
+  cache.set('inb_1', 'am_key', success('inb_1'));
+  cache.set('inb_2', 'am_key', success('inb_2'));
+  // inb_1 becomes the most recently used
+  assert.notEqual(cache.get('inb_1', 'am_key'), null);
+
+  cache.set('inb_3', 'am_key', success('inb_3'));
+  assert.equal(cache.getStats().size, 2);
+  assert.equal(cache.get('inb_2', 'am_key'), null);
+  assert.notEqual(cache.get('inb_1', 'am_key'), null);
+  assert.notEqual(cache.get('inb_3', 'am_key'), null);
+});
+
+test('invalidating a key or an inbox drops only its entries', () => {
+  const cache = new AuthCache(OPTIONS);
+  cache.set('inb_1', 'am_key1', success('inb_1', 'key_1'));
+  cache.set('inb_2', 'am_key1', success('inb_2', 'key_1'));
+  cache.set('inb_2', 'am_key2', success('inb_2', 'key_2'));
+  cache.set('inb_3', 'am_bad', failure(AuthErrorCode.INBOX_NOT_FOUND));
+
+  assert.equal(cache.invalidateApiKey('key_1'), 2);
+  assert.equal(cache.get('inb_1', 'am_key1'), null);
+  assert.notEqual(cache.get('inb_2', 'am_key2'), null);
+
+  assert.equal(cache.invalidateInbox('inb_3'), 1);
+  assert.equal(cache.get('inb_3', 'am_bad'), null);
+  assert.equal(cache.getStats().size, 1);
+});
+
+// ============================================================================
+// CREDENTIALS FILE RELOAD
+// ============================================================================
+
+const KEY_1 = 'am_reloadkey1234567890123456789012345';
+const KEY_2 = 'am_otherkey12345678901234567890123456';
+// Hashed once: a fresh salt would make an unchanged key look edited
+const HASHES = { [KEY_1]: hashApiKey(KEY_1), [KEY_2]: hashApiKey(KEY_2) };
+
+const directories: string[] = [];
+
+after(() => {
+  for (const directory of directories) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+function credentialsFile(revokedAt: string | null, newInbox = false): Record<string, unknown> {
+  const inbox = (inboxId: string) => ({
+    inbox_id: inboxId,
+    email_address: `${inboxId}@example.com`,
+    organization_id: 'org_abc',
+    status: 'active',
+    created_at: '2026-01-01T00:00:00Z'
+  });
+  const apiKey = (key: string, apiKeyId: string, revoked: string | null) => ({
+    api_key_id: apiKeyId,
+    key_prefix: getApiKeyPrefix(key),
+    key_hash: HASHES[key],
+    organization_id: 'org_abc',
+    revoked_at: revoked,
+    expires_at: null,
+    scopes: ['smtp:send'],
+    created_at: '2026-01-01T00:00:00Z'
+  });
+  return {
+    inboxes: newInbox ? [inbox('inb_reloadone1234'), inbox('inb_reloadnew1234')] : [inbox('inb_reloadone1234')],
+    api_keys: [apiKey(KEY_1, 'key_1', revokedAt), apiKey(KEY_2, 'key_2', null)]
+  };
+}
+
+test('a reload that revokes a key or adds an inbox takes effect on the next AUTH', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-cache-'));
+  directories.push(directory);
+  const filePath = path.join(directory, 'credentials.json');
+  fs.writeFileSync(filePath, JSON.stringify(credentialsFile(null)));
+
+  const provider = new FileCredentialProvider(filePath);
+  const cache = new AuthCache(OPTIONS);
+  provider.onReload(changes => {
+    changes.apiKeyIds.forEach(apiKeyId => cache.invalidateApiKey(apiKeyId));
+    changes.inboxIds.forEach(inboxId => cache.invalidateInbox(inboxId));
+  });
+
+  // The same path as the server's AUTH handler
+  async function authenticate(inboxId: string, apiKey: string): Promise<AuthResult> {
+    const cached = cache.get(inboxId, apiKey);
+    if (cached) {
+      return cached;
+    }
+    const result = await validateSMTPCredentials(inboxId, apiKey, provider);
+    cache.set(inboxId, apiKey, result);
+    return result;
+  }
+
+  assert.equal((await authenticate('inb_reloadone1234', KEY_1)).success, true);
+  assert.equal((await authenticate('inb_reloadone1234', KEY_2)).success, true);
+  assert.equal((await authenticate('inb_reloadnew1234', KEY_2)).success, false);
+  assert.equal(cache.getStats().size, 3);
+
+  // Revoke key_1 and add inb_reloadnew1234; key_2's record is unchanged
+  fs.writeFileSync(filePath, JSON.stringify(credentialsFile('2026-10-19T00:00:00Z', true)));
+  provider.reload();
+
+  const revoked = await authenticate('inb_reloadone1234', KEY_1);
+  assert.equal(revoked.success, false);
+  if (!revoked.success) {
+    assert.equal(revoked.error.code, AuthErrorCode.API_KEY_REVOKED);
+  }
+  assert.equal((await authenticate('inb_reloadnew1234', KEY_2)).success, true);
+
+  const hits = cache.getStats().hits;
+  assert.equal((await authenticate('inb_reloadone1234', KEY_2)).success, true);
+  assert.equal(cache.getStats().hits, hits + 1);
+  provider.close();
+});
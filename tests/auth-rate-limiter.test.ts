@@ -0,0 +1,100 @@
+/**
+ * AUTH failure limiter tests
+ *
+ * Sliding window and the per-address and per-username limits, on a mocked
+ * clock.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthFailureLimiter, AuthFailureLimiterOptions } from '../src/auth/auth-rate-limiter';
+
+const OPTIONS: AuthFailureLimiterOptions = {
+  windowMs: 60000,
+  maxFailuresPerIp: 5,
+  maxFailuresPerUsername: 3,
+  tarpitMs: 2000,
+  exemptAddresses: ['127.0.0.1']
+};
+
+const IP = '203.0.113.7';
+
+function fail(limiter: AuthFailureLimiter, times: number, remoteAddress: string, username: (i: number) => string): void {
+  for (let i = 0; i < times; i++) {
+    limiter.recordFailure(remoteAddress, username(i));
+  }
+}
+
+test('a username is locked out after its limit, from any address', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = new AuthFailureLimiter(OPTIONS);
+
+  fail(limiter, 2, IP, () => 'inb_target');
+  assert.equal(limiter.check(IP, 'inb_target'), null);
+
+  limiter.recordFailure('198.51.100.1', 'INB_Target ');
+  assert.equal(limiter.check('198.51.100.2', 'inb_target'), 'username');
+  assert.equal(limiter.check(IP, 'inb_other'), null);
+  assert.equal(limiter.getTarpitDelayMs(IP), 0);
+});
+
+test('an address is locked out and tarpitted after its limit, for any username', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = new AuthFailureLimiter(OPTIONS);
+
+  fail(limiter, 4, IP, i => `inb_scan${i}`);
+  assert.equal(limiter.check(IP, 'inb_next'), null);
+  assert.equal(limiter.getTarpitDelayMs(IP), 0);
+
+  limiter.recordFailure(IP, 'inb_scan4');
+  assert.equal(limiter.check(IP, 'inb_next'), 'ip');
+  assert.equal(limiter.getTarpitDelayMs(IP), 2000);
+  assert.equal(limiter.check('198.51.100.1', 'inb_next'), null);
+});
+
+test('failures slide out of the window one by one', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = new AuthFailureLimiter(OPTIONS);
+
+  limiter.recordFailure(IP, 'inb_target');
+  t.mock.timers.tick(30000);
+  fail(limiter, 2, IP, () => 'inb_target');
+  assert.equal(limiter.check(IP, 'inb_target'), 'username');
+
+  // The first failure leaves the window; the two later ones are still in it
+  t.mock.timers.tick(30000);
+  assert.equal(limiter.check(IP, 'inb_target'), null);
+  limiter.recordFailure(IP, 'inb_target');
+  assert.equal(limiter.check(IP, 'inb_target'), 'username');
+
+  // Nothing left in the window: nothing is tracked any more
+  t.mock.timers.tick(60000);
+  assert.equal(limiter.check(IP, 'inb_target'), null);
+  assert.deepEqual(limiter.getStats(), { trackedIps: 0, trackedUsernames: 0 });
+});
+
+test('a success clears the username but not the address', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = new AuthFailureLimiter(OPTIONS);
+
+  fail(limiter, 3, IP, () => 'inb_target');
+  fail(limiter, 2, IP, i => `inb_scan${i}`);
+  limiter.recordSuccess('inb_target');
+  assert.equal(limiter.check('198.51.100.1', 'inb_target'), null);
+  assert.equal(limiter.check(IP, 'inb_target'), 'ip');
+});
+
+test('exempt addresses and disabled limits are never locked out', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = new AuthFailureLimiter({ ...OPTIONS, maxFailuresPerUsername: 0 });
+
+  fail(limiter, 10, '127.0.0.1', () => 'inb_target');
+  assert.equal(limiter.check('127.0.0.1', 'inb_target'), null);
+  assert.equal(limiter.getTarpitDelayMs('127.0.0.1'), 0);
+
+  fail(limiter, 4, IP, () => 'inb_target');
+  assert.equal(limiter.check(IP, 'inb_target'), null);
+  assert.deepEqual(limiter.getStats(), { trackedIps: 1, trackedUsernames: 0 });
+});
@@ -0,0 +1,70 @@
+/**
+ * Bearer session tests
+ *
+ * Runs the gateway with XOAUTH2/OAUTHBEARER against the fake AgentMail API,
+ * which (like the real one) accepts only API keys: a bearer session must
+ * send with its organization's service API key.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess } from 'child_process';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { SmtpTestClient, freePort, startGateway, stopGateway } from './helpers/smtp';
+import { signJwt, tokenClaims, xoauth2Response } from './helpers/tokens';
+
+const SECRET = 'test-secret';
+const SERVICE_API_KEY = 'am_validkey12345678901234567890123456';
+
+let api: MockAgentMailApi;
+let gateway: ChildProcess;
+let smtpPort: number;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  const apiPort = await api.listen(0);
+
+  smtpPort = await freePort();
+  gateway = await startGateway({
+    SMTP_PORT: String(smtpPort),
+    SMTP_REQUIRE_TLS_FOR_AUTH: 'false',
+    OAUTH_HMAC_SECRET: SECRET,
+    OAUTH_SERVICE_API_KEYS: `org_abc=${SERVICE_API_KEY}`,
+    AGENTMAIL_API_URL: `http://127.0.0.1:${apiPort}`
+  });
+});
+
+after(async () => {
+  await stopGateway(gateway);
+  await api.close();
+});
+
+test('a bearer session sends with the service API key of its organization', async () => {
+  const token = signJwt({ alg: 'HS256', secret: SECRET }, tokenClaims({ inbox_id: 'inb_valid1234567890' }));
+  const { client } = await SmtpTestClient.connect(smtpPort);
+  await client.command('EHLO client.test');
+  assert.equal((await client.command(`AUTH XOAUTH2 ${xoauth2Response('inb_valid1234567890', token)}`)).code, 235);
+  assert.equal((await client.command('MAIL FROM:<test@agentmail.dev>')).code, 250);
+  assert.equal((await client.command('RCPT TO:<recipient@example.com>')).code, 250);
+  assert.equal((await client.command('DATA')).code, 354);
+  client.write('From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Bearer\r\n\r\nHello\r\n.\r\n');
+
+  // The fake API answers 401 to anything but an API key, as the real one does
+  assert.equal((await client.read()).code, 250);
+  assert.equal(api.sentMessages.length, 1);
+  await client.command('QUIT');
+  client.close();
+});
+
+test('a token for an organization without a service API key is refused with 454', async () => {
+  const token = signJwt({ alg: 'HS256', secret: SECRET }, tokenClaims({ org_id: 'org_xyz' }));
+  const { client } = await SmtpTestClient.connect(smtpPort);
+  await client.command('EHLO client.test');
+  const reply = await client.command(`AUTH XOAUTH2 ${xoauth2Response('org_xyz', token)}`);
+  assert.equal(reply.code, 454);
+  assert.match(reply.lines[0], /4\.7\.0/);
+  await client.command('QUIT');
+  client.close();
+});
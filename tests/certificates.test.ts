@@ -0,0 +1,155 @@
+/**
+ * TLS certificate store tests
+ *
+ * SNI selection and the default fallback over real handshakes, the
+ * debounced reload when files change, and keeping the last good
+ * certificate when new files are broken. Certificates are self-signed
+ * and generated in a temporary directory.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { AddressInfo } from 'net';
+import { CertificateStore, TlsCredentials } from '../src/tls/certificates';
+import { presentedCommonName, writeSelfSignedCertificate } from './helpers/certs';
+
+let dir: string;
+let certDir: string;
+let keyPath: string;
+let certPath: string;
+
+const stores: CertificateStore[] = [];
+const servers: tls.Server[] = [];
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'certs-'));
+  certDir = path.join(dir, 'sni');
+  fs.mkdirSync(certDir);
+  keyPath = path.join(dir, 'default.key');
+  certPath = path.join(dir, 'default.crt');
+  writeSelfSignedCertificate(keyPath, certPath, 'default.test');
+  writeSelfSignedCertificate(path.join(certDir, 'mail.example.com.key'), path.join(certDir, 'mail.example.com.crt'), 'mail.example.com');
+});
+
+after(async () => {
+  stores.forEach(store => store.close());
+  await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * A TLS server using the store the way the SMTP listeners do
+ */
+async function serve(store: CertificateStore): Promise<number> {
+  const server = tls.createServer({ ...store.getDefaultCredentials()!, SNICallback: store.SNICallback }, socket => socket.end());
+  store.onReload(credentials => server.setSecureContext(credentials));
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+function createStore(): CertificateStore {
+  const store = new CertificateStore(keyPath, certPath, certDir);
+  stores.push(store);
+  return store;
+}
+
+async function waitFor(condition: () => Promise<boolean> | boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('SNI picks the hostname certificate, in any case, and falls back to the default', async () => {
+  const store = createStore();
+  assert.deepEqual(store.getSniHostnames(), ['mail.example.com']);
+  const port = await serve(store);
+
+  assert.equal(await presentedCommonName(port, 'mail.example.com'), 'mail.example.com');
+  assert.equal(await presentedCommonName(port, 'MAIL.Example.com'), 'mail.example.com');
+  assert.equal(await presentedCommonName(port, 'other.example.com'), 'default.test');
+  assert.equal(await presentedCommonName(port), 'default.test');
+});
+
+test('a broken default or SNI pair keeps the last good certificate', async () => {
+  const store = createStore();
+  const port = await serve(store);
+  const reloads: TlsCredentials[] = [];
+  store.onReload(credentials => reloads.push(credentials));
+
+  const saved = {
+    defaultKey: fs.readFileSync(keyPath),
+    sniCert: fs.readFileSync(path.join(certDir, 'mail.example.com.crt'))
+  };
+  try {
+    // A key that does not belong to the certificate, and a certificate that is not PEM
+    writeSelfSignedCertificate(keyPath, path.join(dir, 'unused.crt'), 'unused.test');
+    fs.writeFileSync(path.join(certDir, 'mail.example.com.crt'), 'not a certificate');
+    store.reload();
+
+    assert.equal(reloads.length, 0);
+    assert.deepEqual(store.getDefaultCredentials()!.key, saved.defaultKey);
+    assert.deepEqual(store.getSniHostnames(), ['mail.example.com']);
+    assert.equal(await presentedCommonName(port), 'default.test');
+    assert.equal(await presentedCommonName(port, 'mail.example.com'), 'mail.example.com');
+  } finally {
+    fs.writeFileSync(keyPath, saved.defaultKey);
+    fs.writeFileSync(path.join(certDir, 'mail.example.com.crt'), saved.sniCert);
+  }
+});
+
+test('file changes are reloaded once, after the writes settle', async () => {
+  const store = createStore();
+  const port = await serve(store);
+  let reloads = 0;
+  store.onReload(() => reloads++);
+
+  // The rotated pair, made outside the watched directories
+  const staging = path.join(dir, 'staging');
+  fs.mkdirSync(staging);
+  writeSelfSignedCertificate(path.join(staging, 'key'), path.join(staging, 'crt'), 'rotated.test');
+  writeSelfSignedCertificate(path.join(staging, 'sni.key'), path.join(staging, 'sni.crt'), 'new.example.com');
+
+  // Count reload passes, whether or not they change the default certificate
+  let passes = 0;
+  const reload = store.reload.bind(store);
+  store.reload = () => {
+    passes++;
+    reload();
+  };
+  store.watch();
+
+  // A rotation: new key and certificate written separately, and a new SNI hostname
+  fs.copyFileSync(path.join(staging, 'key'), keyPath);
+  await sleep(100);
+  fs.copyFileSync(path.join(staging, 'crt'), certPath);
+  fs.copyFileSync(path.join(staging, 'sni.key'), path.join(certDir, 'new.example.com.key'));
+  fs.copyFileSync(path.join(staging, 'sni.crt'), path.join(certDir, 'new.example.com.crt'));
+
+  await waitFor(() => reloads > 0);
+  assert.equal(await presentedCommonName(port), 'rotated.test');
+  assert.equal(await presentedCommonName(port, 'new.example.com'), 'new.example.com');
+  assert.deepEqual(store.getSniHostnames().sort(), ['mail.example.com', 'new.example.com']);
+
+  // Several file events, one reload; nothing changed since
+  await sleep(700);
+  assert.equal(passes, 1);
+  assert.equal(reloads, 1);
+
+  // A removed SNI pair is dropped on the next reload
+  fs.rmSync(path.join(certDir, 'new.example.com.crt'));
+  await waitFor(() => store.getSniHostnames().length === 1);
+  assert.equal(await presentedCommonName(port, 'new.example.com'), 'rotated.test');
+});
@@ -0,0 +1,68 @@
+/**
+ * Control header tests
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simpleParser } from 'mailparser';
+import { MAIL_PARSER_OPTIONS } from '../src/email/transformer';
+import { ControlHeaderError, ControlOptions, parseControlHeaders } from '../src/email/control-headers';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+async function control(headers: string): Promise<ControlOptions> {
+  const parsed = await simpleParser(
+    `From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Hi\r\n${headers}\r\nBody\r\n`,
+    MAIL_PARSER_OPTIONS
+  );
+  return parseControlHeaders(parsed, NOW);
+}
+
+async function assertInvalid(headers: string, message: RegExp): Promise<void> {
+  await assert.rejects(control(headers), (error: unknown) => {
+    assert.ok(error instanceof ControlHeaderError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+test('a message without control headers is sent as is', async () => {
+  assert.deepEqual(await control('X-Mailer: Outlook\r\n'), { draft: false });
+});
+
+test('labels are split, trimmed and may be folded over several lines', async () => {
+  assert.deepEqual((await control('X-AgentMail-Labels: invoices, q3 ,,urgent\r\n')).labels, ['invoices', 'q3', 'urgent']);
+  assert.deepEqual((await control('x-agentmail-labels: a,\r\n b\r\n')).labels, ['a', 'b']);
+
+  await assertInvalid('X-AgentMail-Labels: , ,\r\n', /1-32 comma-separated labels/);
+  await assertInvalid(`X-AgentMail-Labels: ${Array.from({ length: 33 }, (_, i) => `l${i}`).join(',')}\r\n`, /1-32/);
+  await assertInvalid(`X-AgentMail-Labels: ${'a'.repeat(65)}\r\n`, /too long/);
+});
+
+test('X-AgentMail-Draft takes true/yes or false/no, in any case', async () => {
+  assert.equal((await control('X-AgentMail-Draft: TRUE\r\n')).draft, true);
+  assert.equal((await control('X-AgentMail-Draft: yes\r\n')).draft, true);
+  assert.equal((await control('X-AgentMail-Draft: No\r\n')).draft, false);
+  await assertInvalid('X-AgentMail-Draft: 1\r\n', /X-AgentMail-Draft: expected true or false/);
+});
+
+test('X-AgentMail-Send-At schedules a draft at a future time with an explicit offset', async () => {
+  assert.deepEqual(await control('X-AgentMail-Send-At: 2026-10-20T09:00:00+02:00\r\n'), {
+    draft: true,
+    sendAt: new Date('2026-10-20T07:00:00Z')
+  });
+  // Send-At wins over an explicit Draft: false
+  assert.equal((await control('X-AgentMail-Draft: false\r\nX-AgentMail-Send-At: 2026-10-20T09:00Z\r\n')).draft, true);
+
+  await assertInvalid('X-AgentMail-Send-At: 2026-10-20T09:00:00\r\n', /ISO 8601 time with offset/);
+  await assertInvalid('X-AgentMail-Send-At: tomorrow\r\n', /ISO 8601/);
+  await assertInvalid('X-AgentMail-Send-At: 2026-02-30T09:00:00Z\r\n', /ISO 8601/);
+  await assertInvalid('X-AgentMail-Send-At: 2026-10-19T12:00:00Z\r\n', /in the past/);
+});
+
+test('unknown and repeated control headers are rejected', async () => {
+  await assertInvalid('X-AgentMail-Priority: high\r\n', /Unknown control header X-AgentMail-Priority/);
+  await assertInvalid('X-AgentMail-Draft: true\r\nX-AGENTMAIL-DRAFT: false\r\n', /given more than once/);
+});
@@ -0,0 +1,197 @@
+/**
+ * Credentials file tests
+ *
+ * parseCredentialFile on JSON and YAML documents: accepted shapes, raw
+ * keys hashed at load, and invalid or duplicate entries rejected. Then
+ * FileCredentialProvider.reload keeping the last good credentials when
+ * the file is broken.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileCredentialProvider, parseCredentialFile } from '../src/auth/file-credential-provider';
+import { getApiKeyPrefix, hashApiKey, isApiKeyHash, verifyApiKey } from '../src/auth/api-key-hash';
+import { validateSMTPCredentials } from '../src/auth/validator';
+
+const KEY = 'am_filekey12345678901234567890123456';
+const KEY_HASH = hashApiKey(KEY);
+
+function inbox(inboxId = 'inb_fileinbox1234', overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    inbox_id: inboxId,
+    email_address: 'agent@example.com',
+    organization_id: 'org_abc',
+    status: 'active',
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function apiKey(apiKeyId = 'key_1', overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    api_key_id: apiKeyId,
+    key_prefix: getApiKeyPrefix(KEY),
+    key_hash: KEY_HASH,
+    organization_id: 'org_abc',
+    revoked_at: null,
+    expires_at: null,
+    scopes: ['smtp:send'],
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  };
+}
+
+function parseJson(document: unknown) {
+  return parseCredentialFile(JSON.stringify(document), 'credentials.json');
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+test('JSON and YAML files of the same shape load the same records', async () => {
+  const yaml = [
+    'inboxes:',
+    '  - inbox_id: inb_fileinbox1234',
+    '    email_address: agent@example.com',
+    '    organization_id: org_abc',
+    '    status: active',
+    '    created_at: "2026-01-01T00:00:00Z"',
+    'api_keys:',
+    `  - key_prefix: ${getApiKeyPrefix(KEY)}`,
+    `    key_hash: ${KEY_HASH}`,
+    '    api_key_id: key_1',
+    '    organization_id: org_abc',
+    '    revoked_at: null',
+    '    expires_at: null',
+    '    scopes: [smtp:send]',
+    '    created_at: "2026-01-01T00:00:00Z"',
+    ''
+  ].join('\n');
+
+  const fromJson = parseJson({ inboxes: [inbox()], api_keys: [apiKey()] });
+  for (const fileName of ['credentials.yaml', 'CREDENTIALS.YML']) {
+    assert.deepEqual(parseCredentialFile(yaml, fileName).getRecords(), fromJson.getRecords());
+  }
+
+  assert.deepEqual(fromJson.getCounts(), { inboxes: 1, apiKeys: 1 });
+  const key = await fromJson.findApiKeyById('key_1');
+  // name falls back to the api_key_id
+  assert.equal(key!.name, 'key_1');
+  assert.equal((await validateSMTPCredentials('inb_fileinbox1234', KEY, fromJson)).success, true);
+});
+
+test('a raw key is hashed at load, with SCRAM credentials, and never stored', async () => {
+  const { key_prefix: _prefix, key_hash: _hash, ...rest } = apiKey();
+  const provider = parseJson({ inboxes: [inbox()], api_keys: [{ ...rest, key: KEY }] });
+
+  const [record] = await provider.findApiKeysByPrefix(getApiKeyPrefix(KEY));
+  assert.ok(isApiKeyHash(record.key_hash));
+  assert.ok(verifyApiKey(KEY, record.key_hash));
+  assert.ok(record.scram_sha256 && record.scram_sealed_key);
+  assert.ok(!JSON.stringify(provider.getRecords()).includes(KEY));
+  assert.equal((await validateSMTPCredentials('inb_fileinbox1234', KEY, provider)).success, true);
+});
+
+test('missing sections are empty, and documents of another shape are rejected', () => {
+  assert.deepEqual(parseJson({ inboxes: [inbox()] }).getCounts(), { inboxes: 1, apiKeys: 0 });
+
+  assert.throws(() => parseJson(null), /must contain an object with "inboxes" and "api_keys"/);
+  assert.throws(() => parseCredentialFile('just a string', 'credentials.yaml'), /must contain an object/);
+  assert.throws(() => parseCredentialFile('{"inboxes": [', 'credentials.json'), SyntaxError);
+  assert.throws(() => parseJson({ inboxes: {} }), /"inboxes" must be a list of objects/);
+  assert.throws(() => parseJson({ api_keys: ['key_1'] }), /"api_keys" must be a list of objects/);
+});
+
+test('invalid entries are rejected with their position', () => {
+  const invalid: Array<[Record<string, unknown>, RegExp]> = [
+    [{ inboxes: [inbox(), inbox('inb_second12345', { email_address: '' })] }, /inboxes\[1\]: "email_address" must be a non-empty string/],
+    [{ inboxes: [inbox(undefined, { status: 'deleted' })] }, /inboxes\[0\]: "status" must be one of active, disabled, suspended/],
+    [{ inboxes: [inbox(undefined, { created_at: 'yesterday' })] }, /inboxes\[0\]: "created_at" must be an ISO-8601 timestamp or null/],
+    [{ api_keys: [apiKey(undefined, { key_prefix: 'am_short' })] }, /api_keys\[0\]: "key_prefix" must be \d+ characters/],
+    [{ api_keys: [apiKey(undefined, { key_hash: 'plaintext' })] }, /api_keys\[0\]: "key_hash" must look like sha256/],
+    [{ api_keys: [apiKey(undefined, { scopes: 'smtp:send' })] }, /api_keys\[0\]: "scopes" must be a list of strings/],
+    [{ api_keys: [apiKey(undefined, { scram_sha256: 'SCRAM-SHA-256$bad' })] }, /api_keys\[0\]: "scram_sealed_key" must be a non-empty string/],
+    [{ api_keys: [apiKey(undefined, { revoked_at: 42 })] }, /api_keys\[0\]: "revoked_at" must be an ISO-8601 timestamp or null/]
+  ];
+  for (const [document, message] of invalid) {
+    assert.throws(() => parseJson(document), message);
+  }
+});
+
+test('a second entry with the same inbox_id or api_key_id is rejected', () => {
+  assert.throws(
+    () => parseJson({ inboxes: [inbox(), inbox(undefined, { email_address: 'other@example.com' })] }),
+    /inboxes\[1\]: duplicate inbox_id "inb_fileinbox1234"/
+  );
+  assert.throws(
+    () => parseJson({ api_keys: [apiKey(), apiKey('key_2'), apiKey('key_1', { revoked_at: '2026-10-19T00:00:00Z' })] }),
+    /api_keys\[2\]: duplicate api_key_id "key_1"/
+  );
+  // Keys may share a prefix; the hash tells them apart
+  assert.deepEqual(parseJson({ api_keys: [apiKey(), apiKey('key_2')] }).getCounts(), { inboxes: 0, apiKeys: 2 });
+});
+
+// ============================================================================
+// RELOAD
+// ============================================================================
+
+const directories: string[] = [];
+
+after(() => {
+  for (const directory of directories) {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+function writeCredentials(fileName: string, content: string): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'credentials-'));
+  directories.push(directory);
+  const filePath = path.join(directory, fileName);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+test('an invalid file is refused at startup', () => {
+  const filePath = writeCredentials('credentials.json', JSON.stringify({ inboxes: [inbox(undefined, { status: 'gone' })] }));
+  assert.throws(() => new FileCredentialProvider(filePath), /inboxes\[0\]: "status"/);
+  assert.throws(() => new FileCredentialProvider(path.join(path.dirname(filePath), 'missing.json')), /ENOENT/);
+});
+
+test('a broken file on reload keeps the last good credentials, and a fixed one is picked up', async () => {
+  const filePath = writeCredentials('credentials.json', JSON.stringify({ inboxes: [inbox()], api_keys: [apiKey()] }));
+  const provider = new FileCredentialProvider(filePath);
+  let reloads = 0;
+  provider.onReload(() => reloads++);
+
+  const broken = [
+    '{"inboxes": [',
+    JSON.stringify({ inboxes: [inbox(), inbox()], api_keys: [apiKey()] }),
+    JSON.stringify({ inboxes: [inbox()], api_keys: [apiKey(undefined, { key_hash: 'x' })] })
+  ];
+  for (const content of broken) {
+    fs.writeFileSync(filePath, content);
+    provider.reload();
+    assert.equal(reloads, 0);
+    assert.ok(await provider.getInbox('inb_fileinbox1234'));
+    assert.equal((await validateSMTPCredentials('inb_fileinbox1234', KEY, provider)).success, true);
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify({ inboxes: [inbox(undefined, { status: 'disabled' })], api_keys: [apiKey()] }));
+  provider.reload();
+  assert.equal(reloads, 1);
+  assert.equal((await provider.getInbox('inb_fileinbox1234'))!.status, 'disabled');
+  assert.equal((await validateSMTPCredentials('inb_fileinbox1234', KEY, provider)).success, false);
+
+  // Removing the file is a failed reload too
+  fs.rmSync(filePath);
+  provider.reload();
+  assert.equal(reloads, 1);
+  assert.equal((await provider.getInbox('inb_fileinbox1234'))!.status, 'disabled');
+  provider.close();
+});
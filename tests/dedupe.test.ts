@@ -0,0 +1,110 @@
+/**
+ * Submission dedupe tests
+ *
+ * Dedupe keys, the memory and Redis stores (against the in-process RESP
+ * server), and Idempotency-Key on sends to the fake AgentMail API.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DedupeStore, MemoryDedupeStore, RedisDedupeStore, submissionKey } from '../src/email/dedupe';
+import { deliverMessage } from '../src/email/delivery';
+import { AgentMailClient } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { MockRespServer } from '../src/mock/resp-server';
+import { RespClient } from '../src/redis/resp-client';
+
+const API_KEY = 'am_validkey12345678901234567890123456';
+const INBOX_ID = 'inb_valid1234567890';
+const RAW = Buffer.from('From: test@agentmail.dev\r\nSubject: Hi\r\n\r\nHello\r\n');
+
+const RECIPIENTS = ['a@example.com', 'b@example.com'];
+
+test('submission key uses the Message-ID, or the bytes without one', () => {
+  const key = submissionKey(INBOX_ID, '<abc@example.com>', RAW, RECIPIENTS);
+  assert.match(key, /^[0-9a-f]{64}$/);
+  // A resend may differ in trace headers; the Message-ID identifies it
+  assert.equal(submissionKey(INBOX_ID, '<abc@example.com>', Buffer.from('other bytes'), RECIPIENTS), key);
+  assert.notEqual(submissionKey('inb_other', '<abc@example.com>', RAW, RECIPIENTS), key);
+
+  assert.equal(submissionKey(INBOX_ID, undefined, RAW, RECIPIENTS), submissionKey(INBOX_ID, '', RAW, RECIPIENTS));
+  assert.notEqual(
+    submissionKey(INBOX_ID, undefined, RAW, RECIPIENTS),
+    submissionKey(INBOX_ID, undefined, Buffer.from('other bytes'), RECIPIENTS)
+  );
+});
+
+test('submission key covers the envelope recipients in any order or case', () => {
+  const key = submissionKey(INBOX_ID, '<abc@example.com>', RAW, RECIPIENTS);
+  assert.equal(submissionKey(INBOX_ID, '<abc@example.com>', RAW, ['B@example.com', 'a@example.com']), key);
+  assert.equal(submissionKey(INBOX_ID, '<abc@example.com>', RAW, [...RECIPIENTS, 'A@example.com']), key);
+
+  // One message split over several transactions is several submissions
+  assert.notEqual(submissionKey(INBOX_ID, '<abc@example.com>', RAW, ['a@example.com']), key);
+  assert.notEqual(
+    submissionKey(INBOX_ID, '<abc@example.com>', RAW, ['a@example.com']),
+    submissionKey(INBOX_ID, '<abc@example.com>', RAW, ['b@example.com'])
+  );
+});
+
+async function exerciseStore(store: DedupeStore): Promise<void> {
+  assert.deepEqual(await store.claim('k1'), { status: 'claimed' });
+  assert.deepEqual(await store.claim('k1'), { status: 'in-flight' });
+
+  await store.complete('k1', { id: 'msg_1', reply: 'Message queued as msg_1' });
+  assert.deepEqual(await store.claim('k1'), {
+    status: 'duplicate',
+    record: { id: 'msg_1', reply: 'Message queued as msg_1' }
+  });
+
+  // A failed submission can be sent again
+  assert.deepEqual(await store.claim('k2'), { status: 'claimed' });
+  await store.release('k2');
+  assert.deepEqual(await store.claim('k2'), { status: 'claimed' });
+}
+
+test('memory store claims, completes and releases submissions', async () => {
+  await exerciseStore(new MemoryDedupeStore(60000));
+});
+
+test('memory store forgets submissions after the window', async () => {
+  const store = new MemoryDedupeStore(20);
+  await store.claim('k1');
+  await store.complete('k1', { id: 'msg_1', reply: 'Message queued as msg_1' });
+  await new Promise(resolve => setTimeout(resolve, 40));
+  assert.deepEqual(await store.claim('k1'), { status: 'claimed' });
+});
+
+test('Redis store claims, completes and releases submissions', async () => {
+  const server = new MockRespServer();
+  const port = await server.listen(0);
+  const client = new RespClient({ host: '127.0.0.1', port });
+
+  await exerciseStore(new RedisDedupeStore(client, 60000, 'test:'));
+  assert.match(String(await client.command('GET', 'test:dedupe:k1')), /"id":"msg_1"/);
+
+  client.close();
+  await server.close();
+});
+
+test('repeated Idempotency-Key returns the original message', async () => {
+  const api = new MockAgentMailApi();
+  const client = new AgentMailClient(API_KEY, 5, `http://127.0.0.1:${await api.listen(0)}`);
+  const request = {
+    message: { inbox_id: INBOX_ID, to: ['recipient@example.com'], subject: 'Once', text: 'Hello' },
+    replyTarget: null,
+    idempotencyKey: submissionKey(INBOX_ID, '<once@example.com>', RAW, ['recipient@example.com'])
+  };
+
+  const first = await deliverMessage(client, request);
+  const second = await deliverMessage(client, request);
+  assert.equal(second.id, first.id);
+  assert.equal(api.sentMessages.length, 1);
+
+  await deliverMessage(client, { ...request, idempotencyKey: undefined });
+  assert.equal(api.sentMessages.length, 2);
+
+  await api.close();
+});
@@ -0,0 +1,316 @@
+/**
+ * Delivery queue tests
+ *
+ * Spools messages in a temporary directory and delivers them to the fake
+ * AgentMail API.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AgentMailClient } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { DeliveryQueue, QueueSettings, QueueSubmission } from '../src/queue/delivery-queue';
+import { Spool, SpoolEntry } from '../src/queue/spool';
+import { AgentMailDsnSink, DirectoryDsnSink } from '../src/queue/dsn-sink';
+import { simpleParser } from 'mailparser';
+import { DeliveryRequest } from '../src/email/delivery';
+
+const API_KEY = 'am_validkey12345678901234567890123456';
+const INBOX = { inbox_id: 'inb_valid1234567890', email_address: 'test@agentmail.dev' };
+const SPOOL_KEY = crypto.randomBytes(32).toString('base64');
+const SETTINGS: QueueSettings = { workers: 2, retryBaseMs: 50, retryMaxMs: 200, maxAgeMs: 60000 };
+
+const REQUEST: DeliveryRequest = {
+  message: { inbox_id: INBOX.inbox_id, to: ['recipient@example.com'], subject: 'Queued', text: 'Hello' },
+  replyTarget: null
+};
+
+const SUBMISSION: QueueSubmission = {
+  inbox: INBOX,
+  organizationId: 'org_abc',
+  apiKey: API_KEY,
+  request: REQUEST,
+  recipients: [{ address: 'recipient@example.com' }],
+  original: Buffer.from('From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Queued\r\n\r\nHello\r\n')
+};
+
+const tempDirs: string[] = [];
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spool-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+after(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 15000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+async function setup(delayWarningMs = 0, dsnSink: 'directory' | 'agentmail' = 'directory') {
+  const api = new MockAgentMailApi();
+  const baseUrl = `http://127.0.0.1:${await api.listen(0)}`;
+  const spoolDir = tempDir();
+  const dsnDir = path.join(spoolDir, 'dsn');
+  const createClient = (key: string) => new AgentMailClient(key, 5, baseUrl);
+  const createQueue = (spool = new Spool(spoolDir, SPOOL_KEY)) => new DeliveryQueue(
+    spool,
+    SETTINGS,
+    createClient,
+    {
+      sink: dsnSink === 'agentmail' ? new AgentMailDsnSink(createClient) : new DirectoryDsnSink(dsnDir),
+      reportingMta: 'smtp.test',
+      delayWarningMs
+    }
+  );
+  const spooled = () => fs.readdirSync(spoolDir).filter(file => file.endsWith('.json'));
+  const failed = () => fs.readdirSync(path.join(spoolDir, 'failed'));
+  const dsns = () => fs.existsSync(dsnDir) ? fs.readdirSync(dsnDir).filter(file => file.endsWith('.eml')).map(file => fs.readFileSync(path.join(dsnDir, file))) : [];
+  return { api, spoolDir, createQueue, spooled, failed, dsns };
+}
+
+test('spooled message is delivered and removed from the spool', async () => {
+  const { api, createQueue, spooled } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  const queueId = await queue.enqueue(SUBMISSION);
+  assert.match(queueId, /^q_/);
+
+  await waitFor(() => api.sentMessages.length === 1 && spooled().length === 0);
+  assert.equal(api.sentMessages[0].body.subject, 'Queued');
+
+  queue.stop();
+  await api.close();
+});
+
+test('a delivered message whose spool entry cannot be removed is neither failed nor sent again', async () => {
+  const { api, spoolDir, createQueue, failed, dsns } = await setup();
+  const spool = new Spool(spoolDir, SPOOL_KEY);
+  let removes = 0;
+  spool.remove = async () => {
+    removes++;
+    throw new Error('EACCES: permission denied');
+  };
+  const queue = createQueue(spool);
+  await queue.start();
+
+  await queue.enqueue({ ...SUBMISSION, recipients: [{ address: 'recipient@example.com', notify: ['SUCCESS', 'FAILURE'] }] });
+  await waitFor(() => removes === 1 && dsns().length === 1);
+  assert.match(dsns()[0].toString(), /Action: relayed/);
+
+  // Several retry periods later: no second send, no failed entry or DSN
+  await new Promise(resolve => setTimeout(resolve, 500));
+  assert.equal(api.sentMessages.length, 1);
+  assert.equal(removes, 1);
+  assert.equal(failed().length, 0);
+  assert.equal(dsns().length, 1);
+  assert.deepEqual(queue.getStats(), { pending: 0, active: 0 });
+
+  queue.stop();
+  await api.close();
+});
+
+test('retryable failure is retried until the API recovers', async () => {
+  const { api, spoolDir, createQueue, spooled } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  api.setFailure(503);
+  const queueId = await queue.enqueue(SUBMISSION);
+  const attempts = () => JSON.parse(fs.readFileSync(path.join(spoolDir, `${queueId}.json`), 'utf8')).attempts;
+
+  await waitFor(() => attempts() >= 1);
+  assert.equal(api.sentMessages.length, 0);
+
+  api.setFailure(null);
+  await waitFor(() => api.sentMessages.length === 1 && spooled().length === 0);
+
+  queue.stop();
+  await api.close();
+});
+
+test('permanent failure moves the message to the failed directory', async () => {
+  const { api, spoolDir, createQueue, spooled, failed, dsns } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  api.setFailure(403);
+  await queue.enqueue(SUBMISSION);
+
+  await waitFor(() => failed().length === 1);
+  assert.equal(spooled().length, 0);
+
+  const entry = JSON.parse(fs.readFileSync(path.join(spoolDir, 'failed', failed()[0]), 'utf8'));
+  assert.equal(entry.attempts, 1);
+  // Nothing sends a failed entry again, so it keeps no credential
+  assert.equal(entry.credential, undefined);
+
+  // RFC 3464 report to the sending inbox, with the API error's enhanced code
+  await waitFor(() => dsns().length === 1);
+  const dsn = await simpleParser(dsns()[0]);
+  assert.equal(dsn.to && !Array.isArray(dsn.to) ? dsn.to.text : '', 'test@agentmail.dev');
+  assert.match(dsns()[0].toString(), /Content-Type: multipart\/report; report-type=delivery-status/);
+  assert.match(dsns()[0].toString(), /Final-Recipient: rfc822; recipient@example\.com\r\nAction: failed\r\nStatus: 5\.7\.1/);
+  assert.match(dsns()[0].toString(), /Content-Type: text\/rfc822-headers\r\n\r\nFrom: test@agentmail\.dev/);
+
+  queue.stop();
+  await api.close();
+});
+
+test('the agentmail sink sends the DSN to the inbox with messages.send', async () => {
+  const { api, createQueue, failed } = await setup(0, 'agentmail');
+  const queue = createQueue();
+  await queue.start();
+
+  api.rejectRecipient('recipient@example.com', 422, 'RecipientNotFound');
+  await queue.enqueue(SUBMISSION);
+
+  await waitFor(() => failed().length === 1 && api.sentMessages.length === 1);
+  const dsn = api.sentMessages[0];
+  assert.equal(dsn.inboxId, INBOX.inbox_id);
+  assert.deepEqual(dsn.body.to, ['test@agentmail.dev']);
+  assert.equal(dsn.body.subject, 'Undelivered Mail Returned to Sender');
+  assert.match(dsn.body.text as string, /Final-Recipient: rfc822; recipient@example\.com\nAction: failed/);
+  assert.equal((dsn.body.attachments as Array<{ filename: string }>)[0].filename, 'original-headers.txt');
+
+  queue.stop();
+  await api.close();
+});
+
+test('the agentmail sink sends no DSN with a credential the API refused', async () => {
+  const { api, createQueue, failed } = await setup(0, 'agentmail');
+  const queue = createQueue();
+  await queue.start();
+
+  // Only the message is refused, so a DSN would get through if one were sent
+  api.rejectRecipient('recipient@example.com', 401, 'Unauthorized');
+  await queue.enqueue(SUBMISSION);
+
+  await waitFor(() => failed().length === 1);
+  await new Promise(resolve => setTimeout(resolve, 200));
+  assert.equal(api.sentMessages.length, 0);
+
+  queue.stop();
+  await api.close();
+});
+
+test('one delay DSN is sent while a message is being retried', async () => {
+  const { api, createQueue, spooled, dsns } = await setup(1);
+  const queue = createQueue();
+  await queue.start();
+
+  api.setFailure(503);
+  const queueId = await queue.enqueue(SUBMISSION);
+
+  await waitFor(() => dsns().length === 1);
+  const report = dsns()[0].toString();
+  assert.match(report, /Action: delayed\r\nStatus: 4\.3\.0/);
+  assert.match(report, /Will-Retry-Until: /);
+  assert.match(report, new RegExp(`X-AgentMail-Queue-ID: ${queueId}`));
+
+  api.setFailure(null);
+  await waitFor(() => api.sentMessages.length === 1 && spooled().length === 0);
+  assert.equal(dsns().length, 1);
+
+  queue.stop();
+  await api.close();
+});
+
+test('NOTIFY=NEVER suppresses the failure DSN', async () => {
+  const { api, createQueue, failed, dsns } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  api.setFailure(403);
+  await queue.enqueue({ ...SUBMISSION, recipients: [{ address: 'recipient@example.com', notify: ['NEVER'] }] });
+
+  await waitFor(() => failed().length === 1);
+  assert.equal(dsns().length, 0);
+
+  queue.stop();
+  await api.close();
+});
+
+test('RET=FULL returns the whole message in the failure DSN', async () => {
+  const { api, createQueue, dsns } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  api.setFailure(403);
+  await queue.enqueue({ ...SUBMISSION, envelopeDsn: { ret: 'FULL', envid: 'env-42' } });
+
+  await waitFor(() => dsns().length === 1);
+  const report = dsns()[0].toString();
+  assert.match(report, /Original-Envelope-Id: env-42\r\n/);
+  assert.match(report, /Content-Type: message\/rfc822\r\n\r\nFrom: test@agentmail\.dev[^]*\r\n\r\nHello/);
+
+  queue.stop();
+  await api.close();
+});
+
+test('NOTIFY=SUCCESS gets a relayed DSN after delivery', async () => {
+  const { api, createQueue, spooled, dsns } = await setup();
+  const queue = createQueue();
+  await queue.start();
+
+  await queue.enqueue({
+    ...SUBMISSION,
+    recipients: [{ address: 'recipient@example.com', notify: ['SUCCESS'], orcpt: 'rfc822;alias@example.com' }]
+  });
+
+  await waitFor(() => api.sentMessages.length === 1 && spooled().length === 0 && dsns().length === 1);
+  const report = dsns()[0].toString();
+  assert.match(report, /Original-Recipient: rfc822; alias@example\.com\r\nFinal-Recipient: rfc822; recipient@example\.com\r\nAction: relayed\r\nStatus: 2\.0\.0/);
+  assert.match(report, /Content-Type: text\/rfc822-headers/);
+
+  queue.stop();
+  await api.close();
+});
+
+test('spooled messages are delivered after a restart', async () => {
+  const { api, createQueue, spooled } = await setup();
+  // Stopped before the first attempt, like a crash right after the 250
+  const first = createQueue();
+  await first.start();
+  first.stop();
+  await first.enqueue(SUBMISSION);
+  assert.equal(spooled().length, 1);
+  assert.equal(api.sentMessages.length, 0);
+
+  const second = createQueue();
+  assert.equal(await second.start(), 1);
+  await waitFor(() => api.sentMessages.length === 1 && spooled().length === 0);
+
+  second.stop();
+  await api.close();
+});
+
+test('the spool needs a key, and a key file outside the spool directory', async () => {
+  const spoolDir = tempDir();
+  await assert.rejects(new Spool(spoolDir, '').init(), /SPOOL_KEY or SPOOL_KEY_FILE is required/);
+  await assert.rejects(new Spool(spoolDir, '', path.join(spoolDir, 'spool.key')).init(), /must not be inside SPOOL_DIR/);
+
+  const keyFile = path.join(tempDir(), 'keys', 'spool.key');
+  const spool = new Spool(spoolDir, '', keyFile);
+  await spool.init();
+  assert.equal(Buffer.from(fs.readFileSync(keyFile, 'utf8'), 'base64').length, 32);
+  assert.equal(spool.openCredential({ id: 'q_1', credential: spool.sealCredential('q_1', API_KEY) } as SpoolEntry), API_KEY);
+});
@@ -0,0 +1,43 @@
+/**
+ * DSN parameter tests
+ *
+ * RET/ENVID (MAIL FROM) and NOTIFY/ORCPT (RCPT TO) parameters.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DsnParameterError, parseMailDsnParams, parseRcptDsnParams, wantsDsn } from '../src/email/dsn-params';
+
+test('MAIL FROM parameters are validated', () => {
+  assert.equal(parseMailDsnParams({}), undefined);
+  assert.equal(parseMailDsnParams(false), undefined);
+  assert.deepEqual(parseMailDsnParams({ RET: 'hdrs', ENVID: 'abc+123' }), { ret: 'HDRS', envid: 'abc+123' });
+
+  // RET values are validated by smtp-server before the hooks run
+  assert.throws(() => parseMailDsnParams({ ENVID: true }), DsnParameterError);
+  assert.throws(() => parseMailDsnParams({ ENVID: 'a b' }), DsnParameterError);
+  assert.throws(() => parseMailDsnParams({ ENVID: 'x'.repeat(101) }), DsnParameterError);
+});
+
+test('RCPT TO parameters come from smtp-server and ORCPT is validated', () => {
+  assert.deepEqual(parseRcptDsnParams(undefined), {});
+  assert.deepEqual(
+    parseRcptDsnParams({ notify: ['SUCCESS', 'DELAY'], orcpt: 'rfc822;user@example.com' }),
+    { notify: ['SUCCESS', 'DELAY'], orcpt: 'rfc822;user@example.com' }
+  );
+  assert.deepEqual(parseRcptDsnParams({ notify: ['NEVER'] }), { notify: ['NEVER'] });
+  assert.deepEqual(parseRcptDsnParams({ notify: ['FAILURE', 'FAILURE'] }), { notify: ['FAILURE'] });
+
+  assert.throws(() => parseRcptDsnParams({ orcpt: 'user@example.com' }), DsnParameterError);
+  assert.throws(() => parseRcptDsnParams({ orcpt: true }), DsnParameterError);
+});
+
+test('failures and delays are reported unless NOTIFY says otherwise', () => {
+  assert.equal(wantsDsn({}, 'FAILURE'), true);
+  assert.equal(wantsDsn({}, 'DELAY'), true);
+  assert.equal(wantsDsn({}, 'SUCCESS'), false);
+  assert.equal(wantsDsn({ notify: ['NEVER'] }, 'FAILURE'), false);
+  assert.equal(wantsDsn({ notify: ['SUCCESS'] }, 'SUCCESS'), true);
+});
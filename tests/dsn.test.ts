@@ -0,0 +1,82 @@
+/**
+ * DSN message tests
+ *
+ * buildDsn output: the three report parts, the headers returned for
+ * success and delay reports, and the whole original message returned
+ * byte for byte for failures with RET=FULL.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simpleParser } from 'mailparser';
+import { DsnReport, buildDsn, extractHeaderSection } from '../src/queue/dsn';
+
+// An 8-bit body that is not UTF-8 (latin1 "é"), bare LF line endings and a
+// last line ending in the UTF-8 bytes of "à" (C3 A0, where A0 is a latin1 space)
+const ORIGINAL = Buffer.concat([
+  Buffer.from('From: test@agentmail.dev\nTo: recipient@example.com\nSubject: Caf', 'latin1'),
+  Buffer.from([0xe9]),
+  Buffer.from('\nContent-Type: text/plain; charset=iso-8859-1\nContent-Transfer-Encoding: 8bit\n\nCaf', 'latin1'),
+  Buffer.from([0xe9]),
+  Buffer.from('\nvoil', 'latin1'),
+  Buffer.from([0xc3, 0xa0]),
+  Buffer.from('\n\n', 'latin1'),
+]);
+
+function report(overrides: Partial<DsnReport> = {}): DsnReport {
+  return {
+    action: 'failed',
+    reportingMta: 'smtp.test',
+    to: 'test@agentmail.dev',
+    queueId: 'q_1',
+    arrivalDate: new Date('2026-10-19T12:00:00Z'),
+    lastAttemptDate: new Date('2026-10-19T12:05:00Z'),
+    recipients: [{ address: 'recipient@example.com', orcpt: 'rfc822;Recipient@example.com' }],
+    result: { smtpCode: 550, enhancedCode: '5.1.1', message: 'Recipient not found', retryable: false },
+    originalHeaders: extractHeaderSection(ORIGINAL),
+    subject: 'Café',
+    ...overrides,
+  };
+}
+
+function boundaryOf(dsn: Buffer): string {
+  return /boundary="([^"]+)"/.exec(dsn.toString('latin1'))![1];
+}
+
+test('a failure DSN carries the explanation, one status block per recipient and the headers', async () => {
+  const dsn = buildDsn(report());
+  const text = dsn.toString('utf8');
+  assert.match(text, /^From: Mail Delivery System <MAILER-DAEMON@smtp\.test>\r\n/);
+  assert.match(text, /Your message "Café" could not be delivered to:/);
+  assert.match(text, /Original-Recipient: rfc822; Recipient@example\.com\r\nFinal-Recipient: rfc822; recipient@example\.com\r\nAction: failed\r\nStatus: 5\.1\.1/);
+  assert.match(text, /Content-Type: text\/rfc822-headers\r\n\r\nFrom: test@agentmail\.dev\r\nTo: recipient@example\.com\r\n/);
+  assert.ok(!text.includes('voil'));
+  assert.ok(text.endsWith(`\r\n\r\n--${boundaryOf(dsn)}--\r\n`));
+
+  const parsed = await simpleParser(dsn);
+  assert.equal(parsed.subject, 'Undelivered Mail Returned to Sender');
+});
+
+test('RET=FULL returns the original message byte for byte, with CRLF line endings', () => {
+  const dsn = buildDsn(report({ originalMessage: ORIGINAL }));
+  const boundary = boundaryOf(dsn);
+
+  const start = dsn.indexOf('Content-Type: message/rfc822\r\n\r\n') + 'Content-Type: message/rfc822\r\n\r\n'.length;
+  const end = dsn.indexOf(`\r\n\r\n--${boundary}--\r\n`);
+  assert.ok(start > 0 && end > start);
+  const expected = Buffer.from(ORIGINAL.toString('latin1').replace(/\n/g, '\r\n').replace(/(\r\n)+$/, ''), 'latin1');
+  assert.deepEqual(dsn.subarray(start, end), expected);
+  assert.deepEqual(dsn.subarray(end - 2, end), Buffer.from([0xc3, 0xa0]));
+});
+
+test('success and delay reports return the headers even when the message was kept', () => {
+  for (const action of ['relayed', 'delayed'] as const) {
+    const dsn = buildDsn(report({ action, originalMessage: ORIGINAL, willRetryUntil: new Date('2026-10-20T12:00:00Z') }));
+    const text = dsn.toString('utf8');
+    assert.match(text, new RegExp(`Action: ${action}`));
+    assert.match(text, /Content-Type: text\/rfc822-headers/);
+    assert.ok(!text.includes('message/rfc822'));
+  }
+});
@@ -0,0 +1,62 @@
+/**
+ * Header policy tests
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simpleParser } from 'mailparser';
+import { MAIL_PARSER_OPTIONS } from '../src/email/transformer';
+import { HeaderPolicy, InvalidHeaderFormat, applyHeaderPolicy } from '../src/email/header-policy';
+
+const POLICY: HeaderPolicy = {
+  allow: ['x-*', 'message-id', 'references', 'in-reply-to', 'reply-to', 'date', 'list-unsubscribe'],
+  deny: ['x-originating-ip'],
+  rewrite: { 'x-mailer': 'Gateway' }
+};
+
+async function forwarded(headers: string, policy: HeaderPolicy = POLICY) {
+  const parsed = await simpleParser(
+    `From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Hi\r\n${headers}\r\nBody\r\n`,
+    MAIL_PARSER_OPTIONS
+  );
+  return applyHeaderPolicy(parsed, policy);
+}
+
+test('allowed headers keep their original names; denied and unlisted ones are dropped', async () => {
+  const headers = await forwarded(
+    'X-Campaign-ID: 42\r\nX-Originating-IP: 10.0.0.1\r\nMessage-ID: <a@example.com>\r\nX-Mailer: Outlook\r\nKeywords: secret\r\n'
+  );
+
+  assert.deepEqual(headers, { 'X-Campaign-ID': '42', 'Message-ID': '<a@example.com>', 'X-Mailer': 'Gateway' });
+});
+
+test('structured values are serialized as header text', async () => {
+  const headers = await forwarded(
+    'Reply-To: Support <support@example.com>\r\nDate: Mon, 19 Oct 2026 09:00:00 +0200\r\n' +
+    'References: <a@example.com> <b@example.com>\r\nList-Unsubscribe: <mailto:u@example.com>\r\n'
+  );
+
+  assert.equal(headers?.['Reply-To'], '"Support" <support@example.com>');
+  assert.equal(headers?.Date, 'Mon, 19 Oct 2026 07:00:00 GMT');
+  assert.equal(headers?.References, '<a@example.com> <b@example.com>');
+  assert.equal(headers?.['List-Unsubscribe'], '<mailto:u@example.com>');
+  assert.doesNotMatch(Object.values(headers || {}).join(), /\[object Object\]/);
+});
+
+test('CR/LF smuggled in an encoded-word is rejected', async () => {
+  await assert.rejects(
+    forwarded('X-Note: =?UTF-8?B?b2sNCkJjYzogZXZpbEBleGFtcGxlLmNvbQ==?=\r\n'),
+    (error: unknown) => error instanceof InvalidHeaderFormat && error.header === 'X-Note'
+  );
+});
+
+test('overlong header is rejected', async () => {
+  await assert.rejects(forwarded(`X-Long: ${'a'.repeat(1000)}\r\n`), InvalidHeaderFormat);
+});
+
+test('only configured rewrites apply, not names inherited from Object.prototype', async () => {
+  const headers = await forwarded('Constructor: kept\r\nX-Mailer: Outlook\r\n', { ...POLICY, allow: [...POLICY.allow, 'constructor'] });
+  assert.deepEqual(headers, { Constructor: 'kept', 'X-Mailer': 'Gateway' });
+});
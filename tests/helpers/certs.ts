@@ -0,0 +1,35 @@
+/**
+ * TLS certificate test helpers
+ *
+ * Self-signed certificates made with the openssl CLI, and a handshake
+ * that reports which certificate a TLS server presented.
+ */
+
+import { execFileSync } from 'child_process';
+import tls from 'tls';
+
+/**
+ * Write a self-signed P-256 key/certificate pair for a common name.
+ */
+export function writeSelfSignedCertificate(keyPath: string, certPath: string, commonName: string): void {
+  execFileSync('openssl', [
+    'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:P-256', '-nodes',
+    '-keyout', keyPath, '-out', certPath, '-days', '1', '-subj', `/CN=${commonName}`
+  ], { stdio: 'ignore' });
+}
+
+/**
+ * Connect with an optional SNI server name.
+ *
+ * @returns The CN of the certificate the server presented
+ */
+export function presentedCommonName(port: number, servername?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({ host: '127.0.0.1', port, servername, rejectUnauthorized: false }, () => {
+      const commonName = socket.getPeerCertificate().subject.CN;
+      socket.end();
+      resolve(Array.isArray(commonName) ? commonName[0] : commonName);
+    });
+    socket.on('error', reject);
+  });
+}
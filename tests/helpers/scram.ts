@@ -0,0 +1,45 @@
+/**
+ * SCRAM-SHA-256 client test helpers
+ *
+ * The client side of RFC 5802, for driving ScramServerExchange and the
+ * SCRAM-SHA-256 SASL handler.
+ */
+
+import crypto from 'crypto';
+
+const hmac = (key: Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * client-first-message for an authcid (api_key_id) and authzid (inbox_id)
+ */
+export function scramClientFirst(username: string, authzid: string, clientNonce: string): { message: string; bare: string } {
+  const bare = `n=${username},r=${clientNonce}`;
+  return { message: `n,${authzid ? `a=${authzid}` : ''},${bare}`, bare };
+}
+
+/**
+ * client-final-message answering a server-first-message
+ *
+ * @returns The message and the server signature the server-final must carry
+ */
+export function scramClientFinal(
+  password: string,
+  clientFirst: { message: string; bare: string },
+  serverFirst: string
+): { message: string; serverSignature: string } {
+  const attributes = Object.fromEntries(serverFirst.split(',').map(part => [part[0], part.slice(2)]));
+  const salted = crypto.pbkdf2Sync(password, Buffer.from(attributes.s, 'base64'), parseInt(attributes.i), 32, 'sha256');
+  const clientKey = hmac(salted, 'Client Key');
+  const storedKey = crypto.createHash('sha256').update(clientKey).digest();
+
+  const gs2Header = clientFirst.message.slice(0, clientFirst.message.length - clientFirst.bare.length);
+  const withoutProof = `c=${Buffer.from(gs2Header).toString('base64')},r=${attributes.r}`;
+  const authMessage = `${clientFirst.bare},${serverFirst},${withoutProof}`;
+  const clientSignature = hmac(storedKey, authMessage);
+  const proof = Buffer.from(clientKey.map((byte, i) => byte ^ clientSignature[i]));
+
+  return {
+    message: `${withoutProof},p=${proof.toString('base64')}`,
+    serverSignature: hmac(hmac(salted, 'Server Key'), authMessage).toString('base64')
+  };
+}
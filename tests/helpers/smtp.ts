@@ -0,0 +1,202 @@
+/**
+ * SMTP test helpers
+ *
+ * A line-based SMTP/LMTP client for driving a real listener, and a way to
+ * run the gateway (src/server.ts) in a child process with its own
+ * environment, since the server starts its listeners on import.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { AddressInfo } from 'net';
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * One SMTP reply: the status code and its text lines
+ */
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpTestClient {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: Array<(reply: SmtpReply) => void> = [];
+  private pending: string[] = [];
+
+  private constructor(private socket: net.Socket) {
+    this.listen(socket);
+  }
+
+  /**
+   * Connect and wait for the greeting
+   *
+   * @param secure - Implicit TLS (SMTPS); any certificate is accepted
+   */
+  static async connect(port: number, secure = false): Promise<{ client: SmtpTestClient; greeting: SmtpReply }> {
+    const socket = secure
+      ? tls.connect({ host: '127.0.0.1', port, rejectUnauthorized: false })
+      : net.connect(port, '127.0.0.1');
+    await new Promise<void>((resolve, reject) => {
+      socket.once(secure ? 'secureConnect' : 'connect', resolve);
+      socket.once('error', reject);
+    });
+    const client = new SmtpTestClient(socket);
+    return { client, greeting: await client.read() };
+  }
+
+  /**
+   * Send a line and wait for its reply
+   */
+  async command(line: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  /**
+   * Send raw bytes (e.g. a DATA body ending in CRLF.CRLF) without waiting
+   */
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * Next reply from the server
+   */
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  /**
+   * STARTTLS and the TLS handshake on the same connection; any certificate
+   * is accepted. The client must send EHLO again afterwards.
+   *
+   * @returns The reply to STARTTLS (the socket is only upgraded on 220)
+   */
+  async startTls(): Promise<SmtpReply> {
+    const reply = await this.command('STARTTLS');
+    if (reply.code !== 220) {
+      return reply;
+    }
+    this.socket.removeAllListeners('data');
+    const socket = tls.connect({ socket: this.socket, rejectUnauthorized: false });
+    await new Promise<void>((resolve, reject) => {
+      socket.once('secureConnect', resolve);
+      socket.once('error', reject);
+    });
+    this.socket = socket;
+    this.listen(socket);
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private listen(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pending.push(line.slice(4));
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.pending };
+        this.pending = [];
+        const waiter = this.waiting.shift();
+        if (waiter) {
+          waiter(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * AUTH PLAIN initial response for a username and password
+ */
+export function plainCredentials(username: string, password: string): string {
+  return Buffer.from(`\0${username}\0${password}`).toString('base64');
+}
+
+// ============================================================================
+// GATEWAY PROCESS
+// ============================================================================
+
+/**
+ * A free TCP port on the loopback interface
+ */
+export async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+/**
+ * Run src/server.ts with extra environment variables until it has bound
+ * every listener.
+ *
+ * @returns The child process (stop it with stopGateway)
+ */
+export async function startGateway(env: Record<string, string>, timeoutMs = 30000): Promise<ChildProcess> {
+  const root = path.join(__dirname, '..', '..');
+  const child = spawn(process.execPath, ['--import', 'tsx', path.join(root, 'src', 'server.ts')], {
+    cwd: root,
+    env: { ...process.env, DEDUPE_WINDOW_MS: '0', ...env },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let output = '';
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Gateway did not start:\n${output}`));
+    }, timeoutMs);
+    child.stdout!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Server ready')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.stderr!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`Gateway exited with ${code}:\n${output}`));
+    });
+  });
+  return child;
+}
+
+export async function stopGateway(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) {
+    return;
+  }
+  const exited = new Promise(resolve => child.once('exit', resolve));
+  child.kill('SIGTERM');
+  // Shutdown waits for open connections; do not let a stuck one hang the run
+  const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+  await exited;
+  clearTimeout(timer);
+}
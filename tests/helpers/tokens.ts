@@ -0,0 +1,58 @@
+/**
+ * Bearer token test helpers
+ *
+ * Signs JWTs the way an issuer would (HS256 with a shared secret, RS256 or
+ * ES256 with a private key), for LocalJwtVerifier and XOAUTH2/OAUTHBEARER
+ * tests.
+ */
+
+import crypto from 'crypto';
+
+export type SigningKey =
+  | { alg: 'HS256'; secret: string }
+  | { alg: 'RS256' | 'ES256'; privateKey: crypto.KeyObject; kid: string };
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Claims of a token for org_abc with smtp:send, valid for an hour
+ */
+export function tokenClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    sub: 'agent-1',
+    org_id: 'org_abc',
+    scope: 'smtp:send',
+    jti: crypto.randomUUID(),
+    iat: now,
+    exp: now + 3600,
+    ...overrides
+  };
+}
+
+export function signJwt(key: SigningKey, claims: Record<string, unknown>): string {
+  const header = key.alg === 'HS256' ? { alg: key.alg, typ: 'JWT' } : { alg: key.alg, typ: 'JWT', kid: key.kid };
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = key.alg === 'HS256'
+    ? crypto.createHmac('sha256', key.secret).update(signingInput).digest()
+    : crypto.sign(
+        'sha256',
+        Buffer.from(signingInput),
+        key.alg === 'ES256' ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' } : key.privateKey
+      );
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * XOAUTH2 initial response: user=<user>^Aauth=Bearer <token>^A^A
+ */
+export function xoauth2Response(username: string, token: string): string {
+  return Buffer.from(`user=${username}\x01auth=Bearer ${token}\x01\x01`).toString('base64');
+}
+
+/**
+ * OAUTHBEARER initial response (RFC 7628): n,a=<authzid>,^Aauth=Bearer <token>^A^A
+ */
+export function oauthBearerResponse(authzid: string, token: string): string {
+  return Buffer.from(`n,${authzid ? `a=${authzid}` : ''},\x01auth=Bearer ${token}\x01\x01`).toString('base64');
+}
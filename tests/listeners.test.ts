@@ -0,0 +1,177 @@
+/**
+ * Listener configuration tests
+ *
+ * config.smtp.listeners under different environments (the SMTPS default
+ * port and per-listener AUTH methods), then one gateway serving the
+ * submission, SMTPS and LMTP listeners at once: each keeps its own
+ * banner, size limit and AUTH methods, and every session records the
+ * listener that accepted it.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { ChildProcess, execFileSync } from 'child_process';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { SmtpReply, SmtpTestClient, freePort, plainCredentials, startGateway, stopGateway } from './helpers/smtp';
+
+const INBOX_ID = 'inb_valid1234567890';
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+type ListenerSummary = [name: string, port: number, authMethods: string[]];
+
+/**
+ * config.smtp.listeners as loaded by a process with this environment
+ * (config is read once, on import)
+ */
+function listenersFor(env: Record<string, string>): ListenerSummary[] {
+  const inherited = Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => !/^(SMTPS?|LMTP|AUTH|OAUTH)_/.test(name))
+  );
+  const output = execFileSync(process.execPath, [
+    '--import', 'tsx', '-e',
+    "const { config } = require('./src/config'); " +
+    'console.log(JSON.stringify(config.smtp.listeners.map(listener => [listener.name, listener.port, listener.auth.methods])))'
+  ], { cwd: path.join(__dirname, '..'), env: { ...inherited, ...env }, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+  return JSON.parse(output.trim().split('\n').pop()!);
+}
+
+test('SMTPS listens on 465 once a TLS key and certificate are configured', () => {
+  assert.deepEqual(listenersFor({}).map(([name, port]) => [name, port]), [['submission', 2525]]);
+
+  const tls = { SMTP_TLS_KEY_PATH: '/etc/smtp/key.pem', SMTP_TLS_CERT_PATH: '/etc/smtp/cert.pem' };
+  assert.deepEqual(listenersFor(tls).map(([name, port]) => [name, port]), [['submission', 2525], ['smtps', 465]]);
+  assert.deepEqual(listenersFor({ SMTP_TLS_KEY_PATH: '/etc/smtp/key.pem' }).map(([name]) => name), ['submission']);
+  assert.deepEqual(listenersFor({ ...tls, SMTPS_PORT: '0' }).map(([name]) => name), ['submission']);
+  assert.deepEqual(listenersFor({ ...tls, SMTPS_PORT: '10465' }).map(([name, port]) => [name, port])[1], ['smtps', 10465]);
+});
+
+test('each listener offers its own AUTH methods, limited to the available ones', () => {
+  const listeners = listenersFor({
+    SMTPS_PORT: '10465',
+    LMTP_PORT: '10024',
+    SMTPS_AUTH_METHODS: 'plain, xoauth2',
+    LMTP_AUTH_METHODS: 'SCRAM-SHA-256,LOGIN'
+  });
+  assert.deepEqual(listeners, [
+    ['submission', 2525, ['PLAIN', 'LOGIN', 'SCRAM-SHA-256']],
+    ['smtps', 10465, ['PLAIN']],
+    ['lmtp', 10024, ['LOGIN', 'SCRAM-SHA-256']]
+  ]);
+
+  // SCRAM is not available with AUTH_MODE=api, and an empty list would let smtp-server fall back to PLAIN/LOGIN
+  assert.deepEqual(listenersFor({ AUTH_MODE: 'api', SMTP_AUTH_METHODS: 'SCRAM-SHA-256,PLAIN' })[0][2], ['PLAIN']);
+  assert.throws(() => listenersFor({ AUTH_MODE: 'api', SMTP_AUTH_METHODS: 'SCRAM-SHA-256' }), /SMTP_AUTH_METHODS names none of the available AUTH methods/);
+});
+
+// ============================================================================
+// GATEWAY
+// ============================================================================
+
+let api: MockAgentMailApi;
+let gateway: ChildProcess;
+let ports: { submission: number; smtps: number; lmtp: number };
+let gatewayLog = '';
+
+before(async () => {
+  api = new MockAgentMailApi();
+  const apiPort = await api.listen(0);
+  ports = { submission: await freePort(), smtps: await freePort(), lmtp: await freePort() };
+
+  // smtp-server's bundled self-signed certificate serves SMTPS and STARTTLS
+  gateway = await startGateway({
+    SMTP_PORT: String(ports.submission),
+    SMTP_AUTH_METHODS: 'PLAIN,LOGIN',
+    SMTP_REQUIRE_TLS_FOR_AUTH: 'false',
+    SMTPS_PORT: String(ports.smtps),
+    SMTPS_AUTH_METHODS: 'PLAIN',
+    SMTPS_MAX_MESSAGE_SIZE: '1048576',
+    LMTP_PORT: String(ports.lmtp),
+    AGENTMAIL_API_URL: `http://127.0.0.1:${apiPort}`
+  });
+  gateway.stdout!.on('data', (chunk: Buffer) => {
+    gatewayLog += chunk.toString();
+  });
+});
+
+after(async () => {
+  await stopGateway(gateway);
+  await api.close();
+});
+
+function extension(reply: SmtpReply, keyword: string): string | undefined {
+  return reply.lines.find(line => line.startsWith(keyword));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+test('one process serves every listener with its own banner, size limit and AUTH methods', async () => {
+  const submission = await SmtpTestClient.connect(ports.submission);
+  assert.match(submission.greeting.lines[0], /AgentMail SMTP Demo Server/);
+  const submissionEhlo = await submission.client.command('EHLO client.test');
+  assert.equal(extension(submissionEhlo, 'AUTH'), 'AUTH PLAIN LOGIN');
+  assert.equal(extension(submissionEhlo, 'SIZE'), 'SIZE 10485760');
+  assert.ok(extension(submissionEhlo, 'STARTTLS'));
+
+  const smtps = await SmtpTestClient.connect(ports.smtps, true);
+  assert.match(smtps.greeting.lines[0], /AgentMail SMTPS Demo Server/);
+  const smtpsEhlo = await smtps.client.command('EHLO client.test');
+  assert.equal(extension(smtpsEhlo, 'AUTH'), 'AUTH PLAIN');
+  assert.equal(extension(smtpsEhlo, 'SIZE'), 'SIZE 1048576');
+  assert.equal(extension(smtpsEhlo, 'STARTTLS'), undefined);
+  assert.equal((await smtps.client.command('AUTH LOGIN')).code, 504);
+
+  const lmtp = await SmtpTestClient.connect(ports.lmtp);
+  assert.match(lmtp.greeting.lines[0], /AgentMail LMTP Demo Server/);
+  assert.match(extension(await lmtp.client.command('LHLO client.test'), 'AUTH')!, /^AUTH PLAIN LOGIN SCRAM-SHA-256/);
+
+  for (const { client } of [submission, smtps, lmtp]) {
+    await client.command('QUIT');
+    client.close();
+  }
+});
+
+test('every session records the listener that accepted it, and sends through the same hooks', async () => {
+  // Sessions of earlier tests are deleted after their QUIT, so let them finish first
+  const count = (message: string) => gatewayLog.split(message).length - 1;
+  await waitFor(() => count('Session created') === count('Session deleted'));
+  const sessionsBefore = count('Session deleted');
+
+  for (const [port, secure] of [[ports.submission, false], [ports.smtps, true]] as const) {
+    const { client } = await SmtpTestClient.connect(port, secure);
+    await client.command('EHLO client.test');
+    assert.equal((await client.command(`AUTH PLAIN ${plainCredentials(INBOX_ID, API_KEY)}`)).code, 235);
+    assert.equal((await client.command('MAIL FROM:<test@agentmail.dev>')).code, 250);
+    assert.equal((await client.command('RCPT TO:<recipient@example.com>')).code, 250);
+    assert.equal((await client.command('DATA')).code, 354);
+    client.write(`From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Via ${port}\r\n\r\nHello\r\n.\r\n`);
+    assert.equal((await client.read()).code, 250);
+    await client.command('QUIT');
+    client.close();
+  }
+
+  const { client } = await SmtpTestClient.connect(ports.lmtp);
+  await client.command('LHLO client.test');
+  await client.command('QUIT');
+  client.close();
+
+  // Logged from the stored session as it is deleted
+  const deleted = () => Array.from(gatewayLog.matchAll(/Session deleted \[sessionId=[^,]+, listener=(\w+)/g)).slice(sessionsBefore);
+  await waitFor(() => deleted().length === 3);
+  assert.deepEqual(deleted().map(match => match[1]).sort(), ['lmtp', 'smtps', 'submission']);
+  assert.deepEqual(api.sentMessages.slice(-2).map(sent => sent.body.subject), [`Via ${ports.submission}`, `Via ${ports.smtps}`]);
+});
@@ -0,0 +1,74 @@
+/**
+ * LMTP listener tests
+ *
+ * Runs the gateway with only the LMTP listener against the fake AgentMail
+ * API and checks the per-recipient replies to DATA on the wire.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess } from 'child_process';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { SmtpTestClient, freePort, plainCredentials, startGateway, stopGateway } from './helpers/smtp';
+
+const INBOX_ID = 'inb_valid1234567890';
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+let api: MockAgentMailApi;
+let gateway: ChildProcess;
+let lmtpPort: number;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  const apiPort = await api.listen(0);
+  api.rejectRecipient('bad@example.com', 422, 'RecipientNotFound');
+
+  lmtpPort = await freePort();
+  gateway = await startGateway({
+    SMTP_PORT: '0',
+    LMTP_PORT: String(lmtpPort),
+    SMTP_REQUIRE_TLS_FOR_AUTH: 'false',
+    AGENTMAIL_API_URL: `http://127.0.0.1:${apiPort}`
+  });
+});
+
+after(async () => {
+  await stopGateway(gateway);
+  await api.close();
+});
+
+test('DATA gets one reply per envelope recipient, repeated RCPT TO included', async () => {
+  const { client, greeting } = await SmtpTestClient.connect(lmtpPort);
+  assert.equal(greeting.code, 220);
+  assert.equal((await client.command('LHLO client.test')).code, 250);
+  assert.equal((await client.command(`AUTH PLAIN ${plainCredentials(INBOX_ID, API_KEY)}`)).code, 235);
+  assert.equal((await client.command('MAIL FROM:<test@agentmail.dev>')).code, 250);
+  for (const recipient of ['ok@example.com', 'bad@example.com', 'OK@example.com']) {
+    assert.equal((await client.command(`RCPT TO:<${recipient}>`)).code, 250);
+  }
+  assert.equal((await client.command('DATA')).code, 354);
+
+  client.write([
+    'From: test@agentmail.dev',
+    'To: ok@example.com, bad@example.com',
+    'Subject: LMTP',
+    '',
+    'Hello',
+    '.',
+    ''
+  ].join('\r\n'));
+
+  // Two envelope recipients (the repeated ok@ replaces the first), so exactly two replies
+  const replies = [await client.read(), await client.read()];
+  assert.deepEqual(replies.map(reply => reply.code), [250, 556]);
+  assert.match(replies[1].lines[0], /5\.1\.1/);
+
+  // The next reply belongs to the next command: the client is still in sync
+  assert.equal((await client.command('NOOP')).code, 250);
+  assert.equal((await client.command('QUIT')).code, 221);
+  client.close();
+
+  assert.deepEqual(api.sentMessages.map(sent => sent.body.to), [['OK@example.com']]);
+});
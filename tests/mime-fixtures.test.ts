@@ -0,0 +1,82 @@
+/**
+ * MIME fixture tests for the email transformer
+ *
+ * Parses each .eml in tests/fixtures/mime the way the server does and
+ * checks the AgentMail request built from it.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { simpleParser } from 'mailparser';
+import { MAIL_PARSER_OPTIONS, TransformedMessage, transformToAgentMailFormat } from '../src/email/transformer';
+import { SMTPSession } from '../src/session/session-state';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'mime');
+
+async function transformFixture(name: string): Promise<TransformedMessage> {
+  const parsed = await simpleParser(fs.readFileSync(path.join(FIXTURES, name)), MAIL_PARSER_OPTIONS);
+  const session = {
+    sendingInbox: { inbox_id: 'inb_valid1234567890', email_address: 'test@agentmail.dev' },
+    rcptTo: [{ address: 'recipient@example.com', addedAt: new Date() }]
+  } as SMTPSession;
+
+  return transformToAgentMailFormat(parsed, session, {
+    senderPolicy: 'reject',
+    headerRecipientPolicy: 'reject',
+    headerPolicy: { allow: ['x-*', 'message-id'], deny: [], rewrite: {} }
+  });
+}
+
+test('inline image keeps its Content-ID and the cid: link', async () => {
+  const message = await transformFixture('inline-image.eml');
+
+  assert.match(message.html as string, /<img src="cid:logo@example\.com"/);
+  assert.equal(message.text?.trim(), 'Hello from the agent.');
+  assert.equal(message.attachments?.length, 1);
+
+  const [logo] = message.attachments!;
+  assert.equal(logo.filename, 'logo.png');
+  assert.equal(logo.contentType, 'image/png');
+  assert.equal(logo.contentId, 'logo@example.com');
+  assert.equal(logo.contentDisposition, 'inline');
+  assert.equal(Buffer.from(logo.content!, 'base64').subarray(1, 4).toString(), 'PNG');
+});
+
+test('calendar invite is carried as a UTF-8 calendar part with its method', async () => {
+  const message = await transformFixture('calendar-invite.eml');
+
+  assert.equal(message.subject, 'Café sync');
+  assert.equal(message.text?.trim(), 'You are invited to the café sync.');
+  assert.equal(message.attachments?.length, 1);
+
+  const [invite] = message.attachments!;
+  assert.equal(invite.filename, 'invite.ics');
+  assert.equal(invite.contentType, 'text/calendar; charset=UTF-8; method=REQUEST');
+  assert.equal(invite.contentDisposition, 'inline');
+
+  const ics = Buffer.from(invite.content!, 'base64').toString('utf8');
+  assert.match(ics, /^BEGIN:VCALENDAR/);
+  assert.match(ics, /SUMMARY:Café sync/);
+});
+
+test('latin-1 and windows-1252 bodies are decoded and the HTML charset updated', async () => {
+  const message = await transformFixture('latin1-html.eml');
+
+  assert.equal(message.text?.trim(), 'Café au lait: 3 €');
+  assert.match(message.html as string, /<p>Café au lait<\/p>/);
+  assert.match(message.html as string, /charset=utf-8/);
+  assert.doesNotMatch(message.html as string, /iso-8859-1/i);
+  assert.equal(message.attachments, undefined);
+});
+
+test('text-only message has no html field', async () => {
+  const message = await transformFixture('text-only.eml');
+
+  assert.equal(message.text?.trim(), 'Just text.');
+  assert.equal('html' in message, false);
+  assert.deepEqual(message.to, ['recipient@example.com']);
+});
@@ -0,0 +1,53 @@
+/**
+ * Raw MIME passthrough tests
+ *
+ * Header filtering of the original bytes before a raw send.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterRawHeaders } from '../src/email/raw-mime';
+import { HeaderPolicy } from '../src/email/header-policy';
+
+const POLICY: HeaderPolicy = {
+  allow: ['x-*'],
+  deny: ['x-originating-ip'],
+  rewrite: { 'x-mailer': 'Gateway' }
+};
+
+const BODY = '--b1\r\nContent-Type: text/plain\r\n\r\nBcc: not a header\r\n--b1--\r\n';
+
+test('Bcc: and denied headers are removed and rewrites applied, body untouched', () => {
+  const raw = Buffer.from(
+    'From: test@agentmail.dev\r\n' +
+    'To: a@example.com\r\n' +
+    'Bcc: hidden@example.com,\r\n\tother@example.com\r\n' +
+    'X-Originating-IP: 10.0.0.1\r\n' +
+    'X-Mailer: Outlook\r\n' +
+    'Subject: Signed\r\n' +
+    'Content-Type: multipart/signed; boundary="b1"\r\n' +
+    '\r\n' + BODY
+  );
+
+  assert.equal(
+    filterRawHeaders(raw, POLICY).toString(),
+    'From: test@agentmail.dev\r\n' +
+    'To: a@example.com\r\n' +
+    'X-Mailer: Gateway\r\n' +
+    'Subject: Signed\r\n' +
+    'Content-Type: multipart/signed; boundary="b1"\r\n' +
+    '\r\n' + BODY
+  );
+});
+
+test('a message the policy does not touch is passed on as is', () => {
+  const raw = Buffer.from('From: test@agentmail.dev\r\nSubject: Caf\xe9\r\n\r\nHello\r\n', 'latin1');
+  assert.equal(filterRawHeaders(raw, POLICY), raw);
+});
+
+test('8-bit header bytes survive filtering', () => {
+  const raw = Buffer.from('Subject: Caf\xe9\r\nBCC: hidden@example.com\r\n\r\nHello\r\n', 'latin1');
+  assert.deepEqual(filterRawHeaders(raw, POLICY), Buffer.from('Subject: Caf\xe9\r\n\r\nHello\r\n', 'latin1'));
+});
@@ -0,0 +1,64 @@
+/**
+ * Recipient-split delivery tests
+ *
+ * Per-recipient copies for the LMTP listener and the mapping of each
+ * recipient's API error to its own SMTP reply.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { forRecipient } from '../src/email/recipients';
+import { deliverMessage } from '../src/email/delivery';
+import { AgentMailAPIError, AgentMailClient } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { mapErrorName } from '../src/errors/mapping';
+import { TransformedMessage } from '../src/email/transformer';
+
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+const MESSAGE: TransformedMessage = {
+  inbox_id: 'inb_valid1234567890',
+  to: ['a@example.com', 'b@example.com'],
+  cc: ['c@example.com'],
+  bcc: ['d@example.com'],
+  subject: 'Split',
+  text: 'Hello'
+};
+
+test('each copy keeps the recipient in its own field only', () => {
+  const { cc: _cc, bcc: _bcc, ...rest } = MESSAGE;
+  assert.deepEqual(forRecipient(MESSAGE, 'B@example.com'), { ...rest, to: ['B@example.com'] });
+  const cc = forRecipient(MESSAGE, 'c@example.com');
+  assert.deepEqual([cc.to, cc.cc, cc.bcc], [undefined, ['c@example.com'], undefined]);
+  const bcc = forRecipient(MESSAGE, 'd@example.com');
+  assert.deepEqual([bcc.to, bcc.cc, bcc.bcc], [undefined, undefined, ['d@example.com']]);
+});
+
+test('API error names map through ERROR_MAPPINGS', () => {
+  const error = mapErrorName('RecipientNotFound');
+  assert.equal(error?.responseCode, 556);
+  assert.equal(error?.enhancedCode, '5.1.1');
+  assert.equal(mapErrorName('SomethingElse'), null);
+  assert.equal(mapErrorName('toString'), null);
+});
+
+test('one rejected recipient does not stop the others', async () => {
+  const api = new MockAgentMailApi();
+  const client = new AgentMailClient(API_KEY, 5, `http://127.0.0.1:${await api.listen(0)}`);
+  api.rejectRecipient('b@example.com', 422, 'RecipientNotFound');
+
+  const results = await Promise.allSettled(['a@example.com', 'b@example.com', 'c@example.com'].map(address =>
+    deliverMessage(client, { message: forRecipient(MESSAGE, address), replyTarget: null })
+  ));
+
+  assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+  const rejected = (results[1] as PromiseRejectedResult).reason;
+  assert.ok(rejected instanceof AgentMailAPIError);
+  assert.equal(rejected.httpStatus, 422);
+  assert.equal((rejected.apiBody as { name: string }).name, 'RecipientNotFound');
+  assert.deepEqual(api.sentMessages.map(sent => sent.body.to ?? sent.body.cc), [['a@example.com'], ['c@example.com']]);
+
+  await api.close();
+});
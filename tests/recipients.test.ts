@@ -0,0 +1,77 @@
+/**
+ * Envelope recipient tests
+ *
+ * resolveRecipients: the envelope decides who gets the message, the
+ * To/Cc headers only how each recipient is addressed, and header
+ * addresses missing from the envelope are ignored or rejected.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeaderRecipients, RecipientNotInEnvelope, resolveRecipients } from '../src/email/recipients';
+import { mapToSMTPError } from '../src/errors/mapping';
+
+function headers(to: string[], cc: string[] = [], bcc: string[] = []): HeaderRecipients {
+  return { to, cc, bcc };
+}
+
+test('envelope recipients are placed by the headers, the rest are Bcc', () => {
+  const resolved = resolveRecipients(
+    ['a@example.com', 'c@example.com', 'hidden@example.com', 'listed@example.com'],
+    headers(['a@example.com'], ['c@example.com'], ['listed@example.com']),
+    'ignore'
+  );
+  assert.deepEqual(resolved, {
+    to: ['a@example.com'],
+    cc: ['c@example.com'],
+    bcc: ['hidden@example.com', 'listed@example.com'],
+    headerOnly: []
+  });
+});
+
+test('header and envelope addresses match in any case, keeping the envelope spelling', () => {
+  const resolved = resolveRecipients(
+    ['Alice@Example.COM', 'bob@example.com'],
+    headers(['alice@example.com'], ['BOB@EXAMPLE.COM']),
+    'reject'
+  );
+  assert.deepEqual(resolved, { to: ['Alice@Example.COM'], cc: ['bob@example.com'], bcc: [], headerOnly: [] });
+});
+
+test('each recipient is delivered once, To winning over Cc', () => {
+  const resolved = resolveRecipients(
+    ['a@example.com', 'A@example.com', 'b@example.com', 'b@example.com'],
+    headers(['a@example.com', 'b@example.com'], ['a@example.com', 'b@example.com']),
+    'reject'
+  );
+  assert.deepEqual(resolved, { to: ['a@example.com', 'b@example.com'], cc: [], bcc: [], headerOnly: [] });
+});
+
+test('header-only recipients are left out and reported once under ignore', () => {
+  const resolved = resolveRecipients(
+    ['a@example.com'],
+    headers(['a@example.com', 'x@example.com'], ['X@example.com', 'y@example.com'], ['z@example.com']),
+    'ignore'
+  );
+  assert.deepEqual(resolved, {
+    to: ['a@example.com'],
+    cc: [],
+    bcc: [],
+    headerOnly: ['x@example.com', 'y@example.com', 'z@example.com']
+  });
+});
+
+test('header-only recipients reject the message under reject', () => {
+  assert.throws(
+    () => resolveRecipients(['a@example.com'], headers(['a@example.com'], ['y@example.com'], ['z@example.com']), 'reject'),
+    (error: unknown) => {
+      assert.ok(error instanceof RecipientNotInEnvelope);
+      assert.deepEqual(error.addresses, ['y@example.com', 'z@example.com']);
+      const smtp = mapToSMTPError(error);
+      assert.deepEqual([smtp.responseCode, smtp.enhancedCode], [554, '5.7.1']);
+      return true;
+    }
+  );
+});
@@ -0,0 +1,112 @@
+/**
+ * Redis session store tests
+ *
+ * RedisSessionStore against the in-process RESP server: round trips of
+ * every Date field, the key TTL, and the cross-instance index behind
+ * findExpired and countByState.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RedisSessionStore } from '../src/session/redis-session-store';
+import { SMTPSession, SMTPSessionState, createEmptySession } from '../src/session/session-state';
+import { MockRespServer } from '../src/mock/resp-server';
+import { RespClient } from '../src/redis/resp-client';
+
+const CONNECTION = { remoteAddress: '127.0.0.1', remotePort: 40000, tlsEnabled: false, listener: 'submission' };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let server: MockRespServer;
+let client: RespClient;
+
+before(async () => {
+  server = new MockRespServer();
+  client = new RespClient({ host: '127.0.0.1', port: await server.listen(0) });
+});
+
+after(async () => {
+  client.close();
+  await server.close();
+});
+
+function session(id: string, state = SMTPSessionState.INIT, lastActivityAt = new Date()): SMTPSession {
+  const created = createEmptySession(id, CONNECTION);
+  created.state = state;
+  created.timestamps.lastActivityAt = lastActivityAt;
+  return created;
+}
+
+test('a session is created, read back with its dates, updated and deleted', async () => {
+  const store = new RedisSessionStore(client, 'crud:');
+  const created = session('s1');
+  created.timestamps.authenticatedAt = new Date('2026-01-02T03:04:05Z');
+  created.rcptTo = [{ address: 'a@example.com', addedAt: new Date('2026-01-02T03:04:06Z'), notify: ['FAILURE'] }];
+  created.stateHistory = [{ from: SMTPSessionState.INIT, to: SMTPSessionState.HELLO, timestamp: new Date(), command: 'EHLO' }];
+  await store.create(created);
+
+  assert.deepEqual(await store.get('s1'), created);
+  assert.equal(await store.get('unknown'), null);
+
+  created.state = SMTPSessionState.AUTHENTICATED;
+  created.messageCount = 2;
+  await store.update(created);
+  const read = await store.get('s1');
+  assert.equal(read?.state, SMTPSessionState.AUTHENTICATED);
+  assert.equal(read?.messageCount, 2);
+  assert.ok(read?.timestamps.authenticatedAt instanceof Date);
+
+  assert.equal(await store.delete('s1'), true);
+  assert.equal(await store.delete('s1'), false);
+  assert.equal(await store.get('s1'), null);
+  assert.equal(await store.count(), 0);
+});
+
+test('a session key expires after the TTL, and every write renews it', async () => {
+  const store = new RedisSessionStore(client, 'ttl:', 600);
+  const created = session('s1');
+  await store.create(created);
+  assert.ok(Number(await client.command('PTTL', 'ttl:session:s1')) > 0);
+
+  await sleep(400);
+  created.timestamps.lastActivityAt = new Date();
+  await store.update(created);
+  await sleep(400);
+  assert.notEqual(await store.get('s1'), null);
+
+  await sleep(400);
+  assert.equal(await store.get('s1'), null);
+  // The index entry goes too, once it is past the TTL
+  assert.equal(await store.count(), 0);
+});
+
+test('findExpired lists sessions inactive for longer than the given age', async () => {
+  const store = new RedisSessionStore(client, 'expired:');
+  await store.create(session('old', SMTPSessionState.HELLO, new Date(Date.now() - 10 * 60 * 1000)));
+  await store.create(session('recent', SMTPSessionState.HELLO, new Date(Date.now() - 60 * 1000)));
+  await store.create(session('now'));
+
+  assert.deepEqual(await store.findExpired(5 * 60 * 1000), ['old']);
+  assert.deepEqual((await store.findExpired(30 * 1000)).sort(), ['old', 'recent']);
+  assert.deepEqual(await store.findExpired(60 * 60 * 1000), []);
+});
+
+test('countByState counts the live sessions of every instance', async () => {
+  const first = new RedisSessionStore(client, 'states:');
+  const second = new RedisSessionStore(client, 'states:');
+  await first.create(session('a', SMTPSessionState.AUTHENTICATED));
+  await second.create(session('b', SMTPSessionState.AUTHENTICATED));
+  await second.create(session('c', SMTPSessionState.DATA));
+
+  const counts = await first.countByState();
+  assert.equal(counts[SMTPSessionState.AUTHENTICATED], 2);
+  assert.equal(counts[SMTPSessionState.DATA], 1);
+  assert.equal(counts[SMTPSessionState.INIT], 0);
+  assert.equal(Object.keys(counts).length, Object.values(SMTPSessionState).length);
+  assert.equal(await first.count(), 3);
+
+  await second.clear();
+  assert.equal(await first.count(), 0);
+});
@@ -0,0 +1,187 @@
+/**
+ * SASL mechanism tests
+ *
+ * Runs XOAUTH2, OAUTHBEARER and SCRAM-SHA-256 through a real SMTPServer.
+ * The extra mechanisms hook into smtp-server internals (lib/sasl and the
+ * connection's _nextHandler/_server/send), so these tests are what tells
+ * whether a new smtp-server version still works with them.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { SMTPServer, SMTPServerAuthentication } from 'smtp-server';
+import { registerSaslMechanisms } from '../src/auth/sasl-mechanisms';
+import { SCRAM_MECHANISM, createScramCredential, parseScramCredential } from '../src/auth/scram';
+import { SmtpTestClient } from './helpers/smtp';
+import { oauthBearerResponse, xoauth2Response } from './helpers/tokens';
+import { scramClientFinal, scramClientFirst } from './helpers/scram';
+
+const API_KEY = 'am_validkey12345678901234567890123456';
+const API_KEY_ID = 'key_valid_1';
+const INBOX_ID = 'inb_valid1234567890';
+const TOKEN = 'good-token';
+
+const stored = createScramCredential(API_KEY);
+const auths: SMTPServerAuthentication[] = [];
+
+let server: SMTPServer;
+let port: number;
+
+before(async () => {
+  registerSaslMechanisms({
+    scramLookup: async username =>
+      username === API_KEY_ID ? parseScramCredential(stored.scram_sha256, stored.scram_sealed_key) : null
+  });
+
+  server = new SMTPServer({
+    authMethods: ['XOAUTH2', 'OAUTHBEARER', SCRAM_MECHANISM],
+    allowInsecureAuth: true,
+    disabledCommands: ['STARTTLS'],
+    logger: false,
+    onAuth(auth, _session, callback) {
+      auths.push(auth);
+      if (auth.method === 'XOAUTH2' || auth.method === 'OAUTHBEARER') {
+        return auth.accessToken === TOKEN
+          ? callback(null, { user: auth.username })
+          : callback(null, { data: { status: 'invalid_token' } } as never);
+      }
+      if (auth.password === API_KEY) {
+        return callback(null, { user: auth.username });
+      }
+      callback(Object.assign(new Error('5.7.8 Authentication credentials invalid'), { responseCode: 535 }));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.server.address() as AddressInfo).port;
+});
+
+after(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+async function connect(): Promise<SmtpTestClient> {
+  const { client } = await SmtpTestClient.connect(port);
+  const ehlo = await client.command('EHLO client.test');
+  assert.ok(ehlo.lines.includes(`AUTH XOAUTH2 OAUTHBEARER ${SCRAM_MECHANISM}`));
+  return client;
+}
+
+const base64 = (value: string) => Buffer.from(value).toString('base64');
+
+test('XOAUTH2 with a valid token is accepted', async () => {
+  const client = await connect();
+  assert.equal((await client.command(`AUTH XOAUTH2 ${xoauth2Response(INBOX_ID, TOKEN)}`)).code, 235);
+  assert.equal(auths.at(-1)!.username, INBOX_ID);
+  client.close();
+});
+
+test('OAUTHBEARER with a valid token is accepted, initial response or after 334', async () => {
+  let client = await connect();
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${oauthBearerResponse(INBOX_ID, TOKEN)}`)).code, 235);
+  assert.deepEqual(
+    { method: auths.at(-1)!.method, username: auths.at(-1)!.username, accessToken: auths.at(-1)!.accessToken },
+    { method: 'OAUTHBEARER', username: INBOX_ID, accessToken: TOKEN }
+  );
+  client.close();
+
+  client = await connect();
+  assert.equal((await client.command('AUTH OAUTHBEARER')).code, 334);
+  assert.equal((await client.command(oauthBearerResponse(INBOX_ID, TOKEN))).code, 235);
+  client.close();
+});
+
+test('OAUTHBEARER with a rejected token gets an error challenge, then 535', async () => {
+  const client = await connect();
+  const challenge = await client.command(`AUTH OAUTHBEARER ${oauthBearerResponse(INBOX_ID, 'bad-token')}`);
+  assert.equal(challenge.code, 334);
+  assert.deepEqual(JSON.parse(Buffer.from(challenge.lines[0], 'base64').toString()), { status: 'invalid_token' });
+
+  const reply = await client.command(base64('\x01'));
+  assert.equal(reply.code, 535);
+  assert.match(reply.lines[0], /5\.7\.8/);
+
+  // The session is usable again
+  assert.equal((await client.command('NOOP')).code, 250);
+  client.close();
+});
+
+test('malformed OAUTHBEARER responses are refused without calling onAuth', async () => {
+  const client = await connect();
+  const count = auths.length;
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${base64('auth=Bearer x\x01\x01')}`)).code, 500);
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${base64('n,,\x01\x01')}`)).code, 500);
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${base64(`n,,\x01auth=Basic ${TOKEN}\x01\x01`)}`)).code, 500);
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${base64(`x,,\x01auth=Bearer ${TOKEN}\x01\x01`)}`)).code, 500);
+  assert.equal((await client.command('AUTH OAUTHBEARER a b')).code, 501);
+  assert.equal(auths.length, count);
+  client.close();
+});
+
+test('OAUTHBEARER decodes an escaped authzid and allows none', async () => {
+  const client = await connect();
+  assert.equal((await client.command(`AUTH OAUTHBEARER ${oauthBearerResponse('a=3Db=2Cc', TOKEN)}`)).code, 235);
+  assert.equal(auths.at(-1)!.username, 'a=b,c');
+  client.close();
+
+  // Without an authzid the username is empty; the gateway then takes the inbox from the token
+  const second = await connect();
+  await second.command(`AUTH OAUTHBEARER ${oauthBearerResponse('', TOKEN)}`);
+  assert.deepEqual({ username: auths.at(-1)!.username, accessToken: auths.at(-1)!.accessToken }, { username: '', accessToken: TOKEN });
+  second.close();
+});
+
+test('XOAUTH2 with a rejected token gets an error challenge, then 535', async () => {
+  const client = await connect();
+  const challenge = await client.command(`AUTH XOAUTH2 ${xoauth2Response(INBOX_ID, 'bad-token')}`);
+  assert.equal(challenge.code, 334);
+  assert.equal((await client.command('')).code, 535);
+  client.close();
+});
+
+test('malformed XOAUTH2 responses are refused without calling onAuth', async () => {
+  const client = await connect();
+  const count = auths.length;
+  // No user, no Bearer token, a non-Bearer scheme
+  assert.equal((await client.command(`AUTH XOAUTH2 ${base64(`auth=Bearer ${TOKEN}\x01\x01`)}`)).code, 500);
+  assert.equal((await client.command(`AUTH XOAUTH2 ${base64(`user=${INBOX_ID}\x01\x01`)}`)).code, 500);
+  assert.equal((await client.command(`AUTH XOAUTH2 ${base64(`user=${INBOX_ID}\x01auth=Basic abc\x01\x01`)}`)).code, 500);
+  assert.equal(auths.length, count);
+  client.close();
+});
+
+test('SCRAM-SHA-256 logs in with the API key recovered from the proof', async () => {
+  const client = await connect();
+  const first = scramClientFirst(API_KEY_ID, INBOX_ID, 'rOprNGfwEbeRWgbNEkqO');
+  const serverFirst = await client.command(`AUTH ${SCRAM_MECHANISM} ${base64(first.message)}`);
+  assert.equal(serverFirst.code, 334);
+
+  const final = scramClientFinal(API_KEY, first, Buffer.from(serverFirst.lines[0], 'base64').toString());
+  const serverFinal = await client.command(base64(final.message));
+  assert.equal(serverFinal.code, 334);
+  assert.equal(Buffer.from(serverFinal.lines[0], 'base64').toString(), `v=${final.serverSignature}`);
+
+  assert.equal((await client.command('')).code, 235);
+  assert.deepEqual(
+    { method: auths.at(-1)!.method, username: auths.at(-1)!.username, password: auths.at(-1)!.password },
+    { method: SCRAM_MECHANISM, username: INBOX_ID, password: API_KEY }
+  );
+  client.close();
+});
+
+test('SCRAM-SHA-256 with the wrong key or an unknown key id gets 535', async () => {
+  for (const [username, password] of [[API_KEY_ID, 'am_wrongkey'], ['key_unknown', API_KEY]]) {
+    const client = await connect();
+    const first = scramClientFirst(username, INBOX_ID, 'fyko+d2lbbFgONRv9qkxdawL');
+    const serverFirst = await client.command(`AUTH ${SCRAM_MECHANISM} ${base64(first.message)}`);
+    assert.equal(serverFirst.code, 334);
+
+    const final = scramClientFinal(password, first, Buffer.from(serverFirst.lines[0], 'base64').toString());
+    const reply = await client.command(base64(final.message));
+    assert.equal(reply.code, 535);
+    assert.equal(auths.at(-1)!.password, '');
+    client.close();
+  }
+});
@@ -0,0 +1,92 @@
+/**
+ * SCRAM-SHA-256 tests
+ *
+ * ScramServerExchange replaying the RFC 7677 test vector, and rejecting
+ * client-final-messages whose proof, nonce or channel binding is wrong.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ScramServerExchange,
+  createDecoyCredential,
+  createScramCredential,
+  parseClientFirst,
+  parseScramCredential
+} from '../src/auth/scram';
+import { scramClientFinal, scramClientFirst } from './helpers/scram';
+
+// RFC 7677 section 3
+const RFC = {
+  password: 'pencil',
+  salt: 'W22ZaJ0SNY7soEsUEjb6gQ==',
+  serverNonce: '%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0',
+  clientFirst: 'n,,n=user,r=rOprNGfwEbeRWgbNEkqO',
+  serverFirst: 'r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096',
+  clientFinal: 'c=biws,r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,p=dHzbZapWIk4jUhN+Ute9ytag9zjfMHgsqmmiz7AndVQ=',
+  serverFinal: 'v=6rriTRBi23WpRR/wtup+mMhUZUn/dB5nLTJRsjl95G4='
+};
+
+function rfcExchange(): ScramServerExchange {
+  const stored = createScramCredential(RFC.password, Buffer.from(RFC.salt, 'base64'));
+  const credential = parseScramCredential(stored.scram_sha256, stored.scram_sealed_key);
+  assert.ok(credential);
+  const clientFirst = parseClientFirst(RFC.clientFirst);
+  assert.ok(clientFirst);
+  return new ScramServerExchange(clientFirst, credential, RFC.serverNonce);
+}
+
+test('the RFC 7677 exchange verifies and yields its server signature', () => {
+  const exchange = rfcExchange();
+  assert.equal(exchange.serverFirst(), RFC.serverFirst);
+  assert.deepEqual(exchange.verifyClientFinal(RFC.clientFinal), { apiKey: RFC.password, serverFinal: RFC.serverFinal });
+
+  // The test client computes the same proof
+  const final = scramClientFinal(RFC.password, scramClientFirst('user', '', 'rOprNGfwEbeRWgbNEkqO'), RFC.serverFirst);
+  assert.equal(final.message, RFC.clientFinal);
+  assert.equal(`v=${final.serverSignature}`, RFC.serverFinal);
+});
+
+test('a wrong proof, nonce or channel binding is rejected', () => {
+  const [withoutProof, proof] = RFC.clientFinal.split(',p=');
+  const flipped = Buffer.from(proof, 'base64');
+  flipped[0] ^= 1;
+
+  const rejected = [
+    `${withoutProof},p=${flipped.toString('base64')}`,
+    scramClientFinal('wrong', scramClientFirst('user', '', 'rOprNGfwEbeRWgbNEkqO'), RFC.serverFirst).message,
+    RFC.clientFinal.replace('$k0,', '$k1,'),
+    RFC.clientFinal.replace('c=biws', `c=${Buffer.from('y,,').toString('base64')}`),
+    `${withoutProof},p=${flipped.subarray(1).toString('base64')}`,
+    withoutProof
+  ];
+  for (const message of rejected) {
+    assert.equal(rfcExchange().verifyClientFinal(message), null, message);
+  }
+});
+
+test('a decoy credential never verifies', () => {
+  const secret = Buffer.from('decoy-secret');
+  const decoy = createDecoyCredential('key_unknown', secret);
+  assert.deepEqual(decoy.salt, createDecoyCredential('key_unknown', secret).salt);
+
+  const clientFirst = scramClientFirst('key_unknown', '', 'fyko+d2lbbFgONRv9qkxdawL');
+  const exchange = new ScramServerExchange(parseClientFirst(clientFirst.message)!, decoy);
+  const final = scramClientFinal(RFC.password, clientFirst, exchange.serverFirst());
+  assert.equal(exchange.verifyClientFinal(final.message), null);
+});
+
+test('malformed client-first-messages are refused', () => {
+  assert.deepEqual(parseClientFirst('n,a=inb=2Cx,n=key=3D1,r=abc'), {
+    gs2Header: 'n,a=inb=2Cx,',
+    authzid: 'inb,x',
+    username: 'key=1',
+    clientNonce: 'abc',
+    bare: 'n=key=3D1,r=abc'
+  });
+  for (const message of ['p=tls-unique,,n=user,r=abc', 'n,,r=abc,n=user', 'n,,n=user', 'n,,n=us=er,r=abc', 'n,,n=user,r=a,b']) {
+    assert.equal(parseClientFirst(message), null, message);
+  }
+});
@@ -0,0 +1,157 @@
+/**
+ * Sender policy tests
+ *
+ * Alignment and the reject, rewrite and sender policies, in the transformer
+ * and on the wire: MAIL FROM and the From: header after DATA.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess } from 'child_process';
+import { simpleParser } from 'mailparser';
+import { MAIL_PARSER_OPTIONS, TransformOptions, transformToAgentMailFormat } from '../src/email/transformer';
+import { SenderNotAuthorized, SenderPolicy, findMisalignedFrom, isAlignedSender } from '../src/email/sender-policy';
+import { createEmptySession } from '../src/session/session-state';
+import { mapToSMTPError } from '../src/errors/mapping';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { SmtpTestClient, freePort, plainCredentials, startGateway, stopGateway } from './helpers/smtp';
+
+const INBOX = { inbox_id: 'inb_valid1234567890', email_address: 'test@agentmail.dev' };
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+function parse(from: string) {
+  return simpleParser(`${from}To: recipient@example.com\r\nSubject: Hi\r\n\r\nBody\r\n`, MAIL_PARSER_OPTIONS);
+}
+
+async function transform(from: string, senderPolicy: SenderPolicy) {
+  const session = createEmptySession('s1', { remoteAddress: '127.0.0.1', remotePort: 40000, tlsEnabled: false, listener: 'submission' });
+  session.sendingInbox = INBOX;
+  session.rcptTo = [{ address: 'recipient@example.com', addedAt: new Date() }];
+  const options: TransformOptions = {
+    senderPolicy,
+    headerRecipientPolicy: 'ignore',
+    headerPolicy: { allow: [], deny: [], rewrite: {} }
+  };
+  return transformToAgentMailFormat(await parse(from), session, options);
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+test('the inbox address or inbox_id is aligned, in any case', async () => {
+  assert.equal(isAlignedSender('Test@AgentMail.dev', INBOX), true);
+  assert.equal(isAlignedSender('INB_valid1234567890', INBOX), true);
+  assert.equal(isAlignedSender('ceo@example.com', INBOX), false);
+
+  assert.equal(findMisalignedFrom(await parse('From: Test <TEST@agentmail.dev>\r\n'), INBOX), null);
+  assert.equal(findMisalignedFrom(await parse(''), INBOX), null);
+  assert.equal(findMisalignedFrom(await parse('From: test@agentmail.dev, ceo@example.com\r\n'), INBOX), 'ceo@example.com');
+});
+
+// ============================================================================
+// TRANSFORMER
+// ============================================================================
+
+test('reject refuses a misaligned From: with 553 5.7.1', async () => {
+  await assert.rejects(transform('From: CEO <ceo@example.com>\r\n', 'reject'), (error: unknown) => {
+    assert.ok(error instanceof SenderNotAuthorized);
+    assert.equal(error.address, 'ceo@example.com');
+    const smtpError = mapToSMTPError(error);
+    assert.deepEqual([smtpError.responseCode, smtpError.enhancedCode], [553, '5.7.1']);
+    return true;
+  });
+  assert.equal((await transform('From: test@agentmail.dev\r\n', 'reject')).headers, undefined);
+});
+
+test('rewrite sends from the inbox and drops the claimed From:', async () => {
+  const message = await transform('From: CEO <ceo@example.com>\r\n', 'rewrite');
+  assert.equal(message.inbox_id, INBOX.inbox_id);
+  assert.equal(message.headers, undefined);
+});
+
+test('sender keeps the claimed From: and adds the inbox as Sender:', async () => {
+  const message = await transform('From: CEO <ceo@example.com>\r\n', 'sender');
+  assert.deepEqual(message.headers, { From: '"CEO" <ceo@example.com>', Sender: 'test@agentmail.dev' });
+  assert.equal((await transform('From: test@agentmail.dev\r\n', 'sender')).headers, undefined);
+});
+
+// ============================================================================
+// ON THE WIRE
+// ============================================================================
+
+let api: MockAgentMailApi;
+const gateways = new Map<SenderPolicy, { child: ChildProcess; port: number }>();
+
+before(async () => {
+  api = new MockAgentMailApi();
+  const apiPort = await api.listen(0);
+  for (const policy of ['reject', 'sender'] as const) {
+    const port = await freePort();
+    const child = await startGateway({
+      SMTP_PORT: String(port),
+      SMTP_REQUIRE_TLS_FOR_AUTH: 'false',
+      SENDER_POLICY: policy,
+      AGENTMAIL_API_URL: `http://127.0.0.1:${apiPort}`
+    });
+    gateways.set(policy, { child, port });
+  }
+});
+
+after(async () => {
+  for (const { child } of gateways.values()) {
+    await stopGateway(child);
+  }
+  await api.close();
+});
+
+async function login(policy: SenderPolicy): Promise<SmtpTestClient> {
+  const { client } = await SmtpTestClient.connect(gateways.get(policy)!.port);
+  await client.command('EHLO client.test');
+  assert.equal((await client.command(`AUTH PLAIN ${plainCredentials(INBOX.inbox_id, API_KEY)}`)).code, 235);
+  return client;
+}
+
+async function send(client: SmtpTestClient, from: string) {
+  assert.equal((await client.command('RCPT TO:<recipient@example.com>')).code, 250);
+  assert.equal((await client.command('DATA')).code, 354);
+  client.write(`From: ${from}\r\nTo: recipient@example.com\r\nSubject: Policy\r\n\r\nHello\r\n.\r\n`);
+  return client.read();
+}
+
+test('reject refuses a misaligned MAIL FROM and From:, but not a null sender', async () => {
+  const client = await login('reject');
+  const mailFrom = await client.command('MAIL FROM:<ceo@example.com>');
+  assert.equal(mailFrom.code, 553);
+  assert.match(mailFrom.lines[0], /5\.7\.1/);
+
+  assert.equal((await client.command('MAIL FROM:<>')).code, 250);
+  const data = await send(client, 'ceo@example.com');
+  assert.equal(data.code, 553);
+  assert.match(data.lines[0], /5\.7\.1/);
+
+  await client.command('QUIT');
+  client.close();
+
+  const aligned = await login('reject');
+  assert.equal((await aligned.command('MAIL FROM:<TEST@agentmail.dev>')).code, 250);
+  assert.equal((await send(aligned, 'test@agentmail.dev')).code, 250);
+  await aligned.command('QUIT');
+  aligned.close();
+});
+
+test('sender accepts a misaligned MAIL FROM and sends with From: and Sender:', async () => {
+  const sent = api.sentMessages.length;
+  const client = await login('sender');
+  assert.equal((await client.command('MAIL FROM:<ceo@example.com>')).code, 250);
+  assert.equal((await send(client, 'ceo@example.com')).code, 250);
+  await client.command('QUIT');
+  client.close();
+
+  assert.equal(api.sentMessages.length, sent + 1);
+  const { headers } = api.sentMessages.at(-1)!.body as { headers?: Record<string, string> };
+  assert.equal(headers?.From, 'ceo@example.com');
+  assert.equal(headers?.Sender, 'test@agentmail.dev');
+});
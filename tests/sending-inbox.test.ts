@@ -0,0 +1,96 @@
+/**
+ * Sending inbox resolution tests
+ *
+ * findOrganizationInbox against the mock database and
+ * findOrganizationInboxLive against the fake AgentMail API.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findOrganizationInbox, findOrganizationInboxLive } from '../src/auth/sending-inbox';
+import { InMemoryCredentialProvider } from '../src/auth/credential-provider';
+import { createMockCredentialProvider, listMockInboxes } from '../src/mock/database';
+import { AgentMailClient, AgentMailAPIError } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+
+const VALID_KEY = 'am_validkey12345678901234567890123456';
+const WRONG_ORG_KEY = 'am_wrongorg45678901234567890123456789';
+
+// ============================================================================
+// CREDENTIAL PROVIDER
+// ============================================================================
+
+test('an address matches an active inbox of the organization by address or inbox_id, in any case', async () => {
+  // A copy of the mock inboxes, so the added one does not leak into the shared table
+  const provider = new InMemoryCredentialProvider(
+    Object.fromEntries(listMockInboxes().map(inbox => [inbox.inbox_id, { ...inbox }]))
+  );
+  provider.addInbox({
+    inbox_id: 'sales@example.com',
+    email_address: 'sales@example.com',
+    organization_id: 'org_abc',
+    status: 'active',
+    created_at: new Date().toISOString()
+  });
+
+  const expected = { inbox_id: 'inb_valid1234567890', email_address: 'test@agentmail.dev' };
+  assert.deepEqual(await findOrganizationInbox('org_abc', 'test@agentmail.dev', provider), expected);
+  assert.deepEqual(await findOrganizationInbox('org_abc', 'Test@AgentMail.dev', provider), expected);
+  assert.deepEqual(await findOrganizationInbox('org_abc', 'INB_valid1234567890', provider), expected);
+  assert.deepEqual(await findOrganizationInbox('org_abc', 'Sales@example.com', provider), {
+    inbox_id: 'sales@example.com',
+    email_address: 'sales@example.com'
+  });
+});
+
+test('another organization\'s, an unknown or an inactive inbox is not found', async () => {
+  const provider = createMockCredentialProvider();
+  assert.equal(await findOrganizationInbox('org_xyz', 'test@agentmail.dev', provider), null);
+  assert.equal(await findOrganizationInbox('org_abc', 'nobody@agentmail.dev', provider), null);
+  assert.equal(await findOrganizationInbox('org_abc', 'disabled@agentmail.dev', provider), null);
+  assert.equal(await findOrganizationInbox('org_abc', 'suspended@agentmail.dev', provider), null);
+});
+
+// ============================================================================
+// AGENTMAIL API
+// ============================================================================
+
+let api: MockAgentMailApi;
+let baseUrl: string;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  baseUrl = `http://127.0.0.1:${await api.listen(0)}`;
+});
+
+after(async () => {
+  await api.close();
+});
+
+const client = (apiKey: string) => new AgentMailClient(apiKey, 5, baseUrl);
+
+test('the API finds the key\'s own inbox', async () => {
+  assert.deepEqual(await findOrganizationInboxLive('inb_valid1234567890', client(VALID_KEY)), {
+    inbox_id: 'inb_valid1234567890',
+    email_address: 'test@agentmail.dev'
+  });
+});
+
+test('a 404 from the API means the organization does not own the address', async () => {
+  assert.equal(await findOrganizationInboxLive('inb_valid1234567890', client(WRONG_ORG_KEY)), null);
+  assert.equal(await findOrganizationInboxLive('nobody@agentmail.dev', client(VALID_KEY)), null);
+});
+
+test('any other API failure is thrown', async () => {
+  api.setFailure(503);
+  try {
+    await assert.rejects(
+      findOrganizationInboxLive('inb_valid1234567890', client(VALID_KEY)),
+      (error: unknown) => error instanceof AgentMailAPIError && error.httpStatus === 503
+    );
+  } finally {
+    api.setFailure(null);
+  }
+});
@@ -0,0 +1,130 @@
+/**
+ * Session manager tests
+ *
+ * SessionManager over MemorySessionStore: the command state machine,
+ * recipient limit, expiry and cleanup on a mocked clock, and every change
+ * being written through the store rather than shared with the caller.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionManager } from '../src/session/session-manager';
+import { MemorySessionStore } from '../src/session/session-store';
+import { MAX_RECIPIENTS, SESSION_TIMEOUT_MS, SMTPSessionState, SessionUser } from '../src/session/session-state';
+
+const CONNECTION = { remoteAddress: '127.0.0.1', remotePort: 40000, tlsEnabled: false, listener: 'submission' };
+
+const USER: SessionUser = {
+  scope: 'inbox',
+  inbox_id: 'inb_valid1234567890',
+  organization_id: 'org_abc',
+  email_address: 'test@agentmail.dev',
+  api_key_id: 'key_1',
+  api_key_handle: 'handle_1',
+  auth_method: 'PLAIN'
+};
+
+function createManager(store = new MemorySessionStore()): SessionManager {
+  const manager = new SessionManager(store);
+  manager.stopCleanupTimer();
+  return manager;
+}
+
+test('a session moves through EHLO, AUTH, MAIL, RCPT and DATA, then resets for the next message', async () => {
+  const manager = createManager();
+  assert.equal((await manager.createSession('s1', CONNECTION)).state, SMTPSessionState.INIT);
+  assert.equal(await manager.canExecuteCommand('s1', 'MAIL'), false);
+
+  assert.equal((await manager.handleHello('s1', 'client.example.com'))!.connection.clientHostname, 'client.example.com');
+  assert.equal((await manager.handleSecure('s1'))!.connection.tlsEnabled, true);
+  assert.equal((await manager.handleAuthentication('s1', USER))!.state, SMTPSessionState.AUTHENTICATED);
+
+  // Out of order commands are refused and leave the session as it was
+  assert.equal(await manager.handleRcptTo('s1', 'a@example.com'), null);
+  assert.equal(await manager.handleDataStart('s1'), null);
+
+  const sendingInbox = { inbox_id: USER.inbox_id!, email_address: USER.email_address! };
+  await manager.handleMailFrom('s1', 'test@agentmail.dev', sendingInbox, { ret: 'HDRS' });
+  await manager.handleRcptTo('s1', 'a@example.com', { notify: ['FAILURE'] });
+  const rcpt = await manager.handleRcptTo('s1', 'b@example.com');
+  assert.equal(rcpt!.state, SMTPSessionState.RCPT_TO);
+  assert.deepEqual(rcpt!.rcptTo.map(recipient => recipient.address), ['a@example.com', 'b@example.com']);
+  assert.deepEqual(rcpt!.rcptTo[0].notify, ['FAILURE']);
+
+  assert.equal((await manager.handleDataStart('s1'))!.state, SMTPSessionState.DATA);
+  const completed = await manager.handleDataComplete('s1', 'msg_1');
+  assert.equal(completed!.state, SMTPSessionState.COMPLETED);
+  assert.equal(completed!.messageCount, 1);
+  assert.deepEqual(completed!.stateHistory.map(transition => transition.command), ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'DATA_COMPLETE']);
+
+  await manager.resetForNewMessage('s1');
+  const reset = await manager.getSession('s1');
+  assert.equal(reset!.state, SMTPSessionState.AUTHENTICATED);
+  assert.deepEqual([reset!.mailFrom, reset!.sendingInbox, reset!.dsn, reset!.rcptTo], [undefined, undefined, undefined, []]);
+  assert.deepEqual([reset!.user, reset!.messageCount], [USER, 1]);
+  assert.equal((await manager.getStats()).byState[SMTPSessionState.AUTHENTICATED], 1);
+});
+
+test('recipients beyond MAX_RECIPIENTS are refused', async () => {
+  const manager = createManager();
+  await manager.createSession('s1', CONNECTION);
+  await manager.handleHello('s1');
+  await manager.handleMailFrom('s1', 'test@agentmail.dev');
+  for (let i = 0; i < MAX_RECIPIENTS; i++) {
+    assert.ok(await manager.handleRcptTo('s1', `r${i}@example.com`));
+  }
+  assert.equal(await manager.handleRcptTo('s1', 'one-too-many@example.com'), null);
+  assert.equal((await manager.getSession('s1'))!.rcptTo.length, MAX_RECIPIENTS);
+});
+
+test('sessions idle for longer than SESSION_TIMEOUT_MS are cleaned up', async t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const manager = createManager();
+  await manager.createSession('idle', CONNECTION);
+  await manager.createSession('active', CONNECTION);
+
+  t.mock.timers.tick(SESSION_TIMEOUT_MS);
+  await manager.updateActivity('active');
+  assert.equal(await manager.cleanupExpiredSessions(), 0);
+
+  t.mock.timers.tick(1);
+  assert.equal(await manager.cleanupExpiredSessions(), 1);
+  assert.equal(await manager.getSession('idle'), null);
+  assert.equal((await manager.getSessionDetails('active'))!.lastActivitySeconds, 0);
+  assert.equal(await manager.getSessionCount(), 1);
+
+  assert.equal(await manager.deleteSession('active'), true);
+  assert.equal(await manager.deleteSession('active'), false);
+  assert.equal(await manager.handleHello('active'), null);
+});
+
+test('changes reach other readers through the store, not through shared objects', async () => {
+  const store = new MemorySessionStore();
+  const manager = createManager(store);
+  // A second instance over the same store, as with Redis behind several gateways
+  const other = createManager(store);
+
+  const created = await manager.createSession('s1', CONNECTION);
+  const hello = await manager.handleHello('s1', 'client.example.com');
+  assert.equal((await other.getSession('s1'))!.state, SMTPSessionState.HELLO);
+
+  // Objects handed out are copies: editing them changes nothing stored
+  created.state = SMTPSessionState.COMPLETED;
+  hello!.rcptTo.push({ address: 'sneaky@example.com', addedAt: new Date() });
+  (await store.get('s1'))!.authenticated = true;
+  const stored = await other.getSession('s1');
+  assert.equal(stored!.state, SMTPSessionState.HELLO);
+  assert.deepEqual(stored!.rcptTo, []);
+  assert.equal(stored!.authenticated, false);
+
+  // Each handler persists its change before returning
+  await other.handleAuthentication('s1', USER);
+  await manager.handleMailFrom('s1', 'test@agentmail.dev');
+  const read = await store.get('s1');
+  assert.equal(read!.state, SMTPSessionState.MAIL_FROM);
+  assert.deepEqual(read!.user, USER);
+  assert.ok(read!.timestamps.mailFromAt instanceof Date);
+  assert.deepEqual(read!.stateHistory.map(transition => transition.command), ['EHLO', 'AUTH', 'MAIL']);
+});
@@ -0,0 +1,77 @@
+/**
+ * STARTTLS tests
+ *
+ * Runs the gateway with the submission listener requiring TLS for AUTH
+ * (the default) and smtp-server's bundled certificate: AUTH is refused
+ * with 538 until STARTTLS, then succeeds on the upgraded connection.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess } from 'child_process';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+import { SmtpTestClient, freePort, plainCredentials, startGateway, stopGateway } from './helpers/smtp';
+
+const INBOX_ID = 'inb_valid1234567890';
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+let api: MockAgentMailApi;
+let gateway: ChildProcess;
+let port: number;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  const apiPort = await api.listen(0);
+
+  port = await freePort();
+  gateway = await startGateway({
+    SMTP_PORT: String(port),
+    SMTP_REQUIRE_TLS_FOR_AUTH: 'true',
+    AGENTMAIL_API_URL: `http://127.0.0.1:${apiPort}`
+  });
+});
+
+after(async () => {
+  await stopGateway(gateway);
+  await api.close();
+});
+
+test('AUTH before STARTTLS gets 538 5.7.11, and succeeds once the connection is upgraded', async () => {
+  const { client } = await SmtpTestClient.connect(port);
+  const ehlo = await client.command('EHLO client.test');
+  assert.ok(ehlo.lines.includes('STARTTLS'));
+
+  const refused = await client.command(`AUTH PLAIN ${plainCredentials(INBOX_ID, API_KEY)}`);
+  assert.equal(refused.code, 538);
+  assert.match(refused.lines[0], /5\.7\.11/);
+  assert.equal((await client.command('MAIL FROM:<test@agentmail.dev>')).code, 530);
+
+  assert.equal((await client.startTls()).code, 220);
+  const secureEhlo = await client.command('EHLO client.test');
+  assert.equal(secureEhlo.code, 250);
+  assert.ok(!secureEhlo.lines.includes('STARTTLS'));
+
+  assert.equal((await client.command(`AUTH PLAIN ${plainCredentials(INBOX_ID, API_KEY)}`)).code, 235);
+  assert.equal((await client.command('MAIL FROM:<test@agentmail.dev>')).code, 250);
+  assert.equal((await client.command('RCPT TO:<recipient@example.com>')).code, 250);
+  assert.equal((await client.command('DATA')).code, 354);
+  client.write('From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Over TLS\r\n\r\nHello\r\n.\r\n');
+  assert.equal((await client.read()).code, 250);
+  assert.equal((await client.command('QUIT')).code, 221);
+  client.close();
+
+  assert.deepEqual(api.sentMessages.map(sent => sent.body.subject), ['Over TLS']);
+});
+
+test('a wrong key is still refused after STARTTLS', async () => {
+  const { client } = await SmtpTestClient.connect(port);
+  await client.command('EHLO client.test');
+  await client.startTls();
+  await client.command('EHLO client.test');
+
+  const refused = await client.command(`AUTH PLAIN ${plainCredentials(INBOX_ID, 'am_wrongkey12345678901234567890123456')}`);
+  assert.equal(refused.code, 535);
+  client.close();
+});
@@ -15,6 +15,7 @@
 #   ./tests/test-scenarios.sh auth      # Run all auth tests (1-5)
 #   ./tests/test-scenarios.sh mock      # Run all mock tests (6-10)
 #   ./tests/test-scenarios.sh send      # Run send test (11)
+#   ./tests/test-scenarios.sh tls       # Run TLS tests (17)
 #
 # =============================================================================
 
@@ -98,6 +99,7 @@ check_server() {
 test_1() {
     run_test "1. Valid credentials (success)" "235" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -107,6 +109,7 @@ test_1() {
 test_2() {
     run_test "2. Invalid API key format" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "am_short" \
@@ -116,6 +119,7 @@ test_2() {
 test_3() {
     run_test "3. API key not found" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "am_notexist12345678901234567890123456789012" \
@@ -125,6 +129,7 @@ test_3() {
 test_4() {
     run_test "4. Inbox not found" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "nonexistent@agentmail.to" \
         --auth-password "$VALID_API_KEY" \
@@ -134,6 +139,7 @@ test_4() {
 test_5() {
     run_test "5. Invalid inbox format" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "invalid-inbox" \
         --auth-password "$VALID_API_KEY" \
@@ -143,6 +149,7 @@ test_5() {
 test_6() {
     run_test "6. Organization mismatch" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "inb_valid1234567890" \
         --auth-password "am_wrongorg45678901234567890123456789" \
@@ -152,6 +159,7 @@ test_6() {
 test_7() {
     run_test "7. Revoked API key" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "inb_valid1234567890" \
         --auth-password "am_revoked78901234567890123456789012" \
@@ -161,6 +169,7 @@ test_7() {
 test_8() {
     run_test "8. Expired API key" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "inb_valid1234567890" \
         --auth-password "am_expired12345678901234567890123456" \
@@ -170,6 +179,7 @@ test_8() {
 test_9() {
     run_test "9. Insufficient permissions" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "inb_valid1234567890" \
         --auth-password "am_noscope12345678901234567890123456" \
@@ -179,6 +189,7 @@ test_9() {
 test_10() {
     run_test "10. Disabled inbox" "535" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "inb_disabled456789012" \
         --auth-password "am_validkey12345678901234567890123456" \
@@ -188,6 +199,7 @@ test_10() {
 test_11() {
     run_test "11. Send email to AgentMail inbox" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -200,6 +212,7 @@ test_11() {
 test_12() {
     run_test "12. Send HTML email" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -213,6 +226,7 @@ test_12() {
 test_13() {
     run_test "13. Send email with CC" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -226,6 +240,7 @@ test_13() {
 test_14() {
     run_test "14. Send email with attachment" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -240,6 +255,7 @@ test_14() {
 test_15() {
     run_test "15. Send email with Reply-To header" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -253,6 +269,7 @@ test_15() {
 test_16() {
     run_test "16. Send email with long body" "250" \
         --server "$SERVER" \
+        --tls \
         --auth PLAIN \
         --auth-user "$VALID_INBOX" \
         --auth-password "$VALID_API_KEY" \
@@ -262,6 +279,15 @@ test_16() {
         --body "$(printf 'This is line %d of the email body.\n' {1..100})"
 }
 
+test_17() {
+    run_test "17. AUTH without STARTTLS" "538" \
+        --server "$SERVER" \
+        --auth PLAIN \
+        --auth-user "$VALID_INBOX" \
+        --auth-password "$VALID_API_KEY" \
+        --quit-after AUTH
+}
+
 # =============================================================================
 # List Tests
 # =============================================================================
@@ -293,10 +319,14 @@ list_tests() {
     echo "    15 - Send email with Reply-To (expect 250)"
     echo "    16 - Send email with long body (expect 250)"
     echo ""
+    echo "  TLS Tests (17):"
+    echo "    17 - AUTH without STARTTLS (expect 538)"
+    echo ""
     echo "Groups:"
     echo "  auth - Run tests 1-5"
     echo "  mock - Run tests 6-10"
     echo "  send - Run tests 11-16"
+    echo "  tls  - Run test 17"
     echo "  all  - Run all tests (default)"
     echo ""
 }
@@ -324,6 +354,7 @@ run_tests() {
             14) test_14 ;;
             15) test_15 ;;
             16) test_16 ;;
+            17) test_17 ;;
             *)  echo -e "${RED}Unknown test: $test_num${NC}" ;;
         esac
     done
@@ -338,6 +369,9 @@ run_all() {
 
     print_header "Email Sending Tests"
     test_11; test_12; test_13; test_14; test_15; test_16
+
+    print_header "TLS Tests"
+    test_17
 }
 
 print_summary() {
@@ -395,6 +429,12 @@ case "${1:-}" in
         run_tests 11 12 13 14 15 16
         print_summary
         ;;
+    tls)
+        check_server
+        print_header "TLS Tests"
+        run_tests 17
+        print_summary
+        ;;
     *)
         # Run specific test numbers
         check_server
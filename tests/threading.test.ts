@@ -0,0 +1,92 @@
+/**
+ * Threaded reply tests
+ *
+ * findReplyTarget on parsed headers, and sendThreaded against the fake
+ * AgentMail API: replies to a message of the inbox join its thread,
+ * anything else starts a new one.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simpleParser } from 'mailparser';
+import { findReplyTarget, sendThreaded } from '../src/email/threading';
+import { MAIL_PARSER_OPTIONS, TransformedMessage } from '../src/email/transformer';
+import { AgentMailClient, AgentMailAPIError } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+
+const INBOX_ID = 'inb_valid1234567890';
+const API_KEY = 'am_validkey12345678901234567890123456';
+
+async function replyTarget(headers: string): Promise<string | null> {
+  const parsed = await simpleParser(
+    `From: test@agentmail.dev\r\nTo: recipient@example.com\r\nSubject: Re: Hi\r\n${headers}\r\nBody\r\n`,
+    MAIL_PARSER_OPTIONS
+  );
+  return findReplyTarget(parsed);
+}
+
+// ============================================================================
+// REPLY TARGET
+// ============================================================================
+
+test('In-Reply-To names the reply target, else the last References entry', async () => {
+  assert.equal(await replyTarget('In-Reply-To: <parent@example.com>\r\nReferences: <root@example.com> <other@example.com>\r\n'), '<parent@example.com>');
+  assert.equal(await replyTarget('In-Reply-To: Your message of Monday <parent@example.com>\r\n'), '<parent@example.com>');
+  assert.equal(await replyTarget('References: <root@example.com> <parent@example.com>\r\n'), '<parent@example.com>');
+  assert.equal(await replyTarget('References: <root@example.com>\r\n'), '<root@example.com>');
+  assert.equal(await replyTarget('In-Reply-To: no message id\r\nReferences: <root@example.com>\r\n'), '<root@example.com>');
+  assert.equal(await replyTarget(''), null);
+});
+
+// ============================================================================
+// SEND
+// ============================================================================
+
+let api: MockAgentMailApi;
+let client: AgentMailClient;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  client = new AgentMailClient(API_KEY, 5, `http://127.0.0.1:${await api.listen(0)}`);
+});
+
+after(async () => {
+  await api.close();
+});
+
+function message(to = 'recipient@example.com'): TransformedMessage {
+  return { inbox_id: INBOX_ID, to: [to], subject: 'Re: Hi', text: 'Body' };
+}
+
+test('a reply to a message of the inbox is sent with messages.reply, in its thread', async () => {
+  const original = await client.sendMessage(message());
+
+  const result = await sendThreaded(client, message(), original.messageId);
+  assert.equal(result.repliedTo, original.messageId);
+  assert.equal(result.response.threadId, original.threadId);
+  assert.equal(api.sentMessages.at(-1)!.inReplyTo, original.messageId);
+});
+
+test('without a target, or with one the inbox does not have, a new thread is started', async () => {
+  const threads = new Set(api.sentMessages.map(sent => sent.threadId));
+  for (const target of [null, '<unknown@example.com>']) {
+    const result = await sendThreaded(client, message(), target);
+    assert.equal(result.repliedTo, undefined);
+    assert.ok(!threads.has(result.response.threadId));
+    assert.equal(api.sentMessages.at(-1)!.inReplyTo, undefined);
+  }
+});
+
+test('a failed reply is thrown, not sent again as a new message', async () => {
+  const original = await client.sendMessage(message());
+  api.rejectRecipient('bad@example.com', 422, 'ValidationError');
+  const sent = api.sentMessages.length;
+
+  await assert.rejects(
+    sendThreaded(client, message('bad@example.com'), original.messageId, 'key-1'),
+    (error: unknown) => error instanceof AgentMailAPIError && error.httpStatus === 422
+  );
+  assert.equal(api.sentMessages.length, sent);
+});
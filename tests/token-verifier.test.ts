@@ -0,0 +1,162 @@
+/**
+ * Bearer token tests
+ *
+ * LocalJwtVerifier with HS256, RS256 and ES256 tokens, and the claim
+ * checks of validateSMTPBearerToken against the mock database.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { LocalJwtVerifier } from '../src/auth/token-verifier';
+import { validateSMTPBearerToken } from '../src/auth/validator';
+import { AuthErrorCode } from '../src/auth/errors';
+import { createMockCredentialProvider } from '../src/mock/database';
+import { SigningKey, signJwt, tokenClaims } from './helpers/tokens';
+
+const SECRET = 'test-secret';
+const HS256: SigningKey = { alg: 'HS256', secret: SECRET };
+
+const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const RS256: SigningKey = { alg: 'RS256', privateKey: rsa.privateKey, kid: 'rsa-1' };
+const ES256: SigningKey = { alg: 'ES256', privateKey: ec.privateKey, kid: 'ec-1' };
+
+const verifier = new LocalJwtVerifier({
+  hmacSecret: SECRET,
+  jwks: {
+    keys: [
+      { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' },
+      { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' }
+    ]
+  },
+  audience: 'smtp.agentmail.to'
+});
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = (overrides: Record<string, unknown> = {}) => tokenClaims({ aud: 'smtp.agentmail.to', ...overrides });
+
+async function assertRejected(token: string, code: AuthErrorCode, reason: RegExp): Promise<void> {
+  const verification = await verifier.verify(token);
+  assert.equal(verification.valid, false);
+  if (!verification.valid) {
+    assert.equal(verification.code, code);
+    assert.match(verification.reason, reason);
+  }
+}
+
+// ============================================================================
+// LOCAL JWT VERIFIER
+// ============================================================================
+
+test('HS256, RS256 and ES256 tokens are accepted and their claims extracted', async () => {
+  for (const key of [HS256, RS256, ES256]) {
+    const verification = await verifier.verify(signJwt(key, claims({ inbox_id: 'inb_valid1234567890', jti: 'tok_1' })));
+    assert.equal(verification.valid, true, key.alg);
+    if (verification.valid) {
+      assert.equal(verification.claims.organization_id, 'org_abc');
+      assert.equal(verification.claims.inbox_id, 'inb_valid1234567890');
+      assert.deepEqual(verification.claims.scopes, ['smtp:send']);
+      assert.equal(verification.claims.token_id, 'tok_1');
+    }
+  }
+});
+
+test('a bad signature is rejected', async () => {
+  const token = signJwt(HS256, claims());
+  const [header, , signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify(claims({ org_id: 'org_xyz' }))).toString('base64url');
+  await assertRejected(`${header}.${forged}.${signature}`, AuthErrorCode.API_KEY_NOT_FOUND, /Signature invalid/);
+
+  await assertRejected(signJwt({ alg: 'HS256', secret: 'other-secret' }, claims()), AuthErrorCode.API_KEY_NOT_FOUND, /Signature invalid/);
+  await assertRejected(signJwt({ ...RS256, kid: 'unknown' }, claims()), AuthErrorCode.API_KEY_NOT_FOUND, /kid=unknown/);
+  // An ES256 key named in an RS256 header
+  await assertRejected(signJwt({ ...ES256, alg: 'RS256' }, claims()), AuthErrorCode.API_KEY_NOT_FOUND, /Signature invalid/);
+});
+
+test('alg none and HS256 signed with a public key are rejected', async () => {
+  const unsigned = [
+    Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url'),
+    Buffer.from(JSON.stringify(claims())).toString('base64url'),
+    ''
+  ].join('.');
+  await assertRejected(unsigned, AuthErrorCode.API_KEY_NOT_FOUND, /alg=none/);
+
+  const publicPem = rsa.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const rsaOnly = new LocalJwtVerifier({ jwks: { keys: [{ ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' }] } });
+  const verification = await rsaOnly.verify(signJwt({ alg: 'HS256', secret: publicPem }, tokenClaims()));
+  assert.equal(verification.valid, false);
+});
+
+test('expired and not-yet-valid tokens are rejected, within the clock skew they are not', async () => {
+  await assertRejected(signJwt(HS256, claims({ exp: now() - 120 })), AuthErrorCode.API_KEY_EXPIRED, /expired/);
+  assert.equal((await verifier.verify(signJwt(HS256, claims({ exp: now() - 10 })))).valid, true);
+  await assertRejected(signJwt(HS256, claims({ nbf: now() + 120 })), AuthErrorCode.API_KEY_NOT_FOUND, /nbf/);
+
+  const { exp: _exp, ...withoutExp } = claims();
+  await assertRejected(signJwt(HS256, withoutExp), AuthErrorCode.API_KEY_NOT_FOUND, /no exp/);
+});
+
+test('a wrong audience or issuer, or a missing org_id, is rejected', async () => {
+  await assertRejected(signJwt(HS256, claims({ aud: 'other' })), AuthErrorCode.API_KEY_NOT_FOUND, /audience/);
+  assert.equal((await verifier.verify(signJwt(HS256, claims({ aud: ['other', 'smtp.agentmail.to'] })))).valid, true);
+
+  const withIssuer = new LocalJwtVerifier({ hmacSecret: SECRET, issuer: 'https://issuer.test' });
+  assert.equal((await withIssuer.verify(signJwt(HS256, tokenClaims({ iss: 'https://issuer.test' })))).valid, true);
+  const wrongIssuer = await withIssuer.verify(signJwt(HS256, tokenClaims({ iss: 'https://other.test' })));
+  assert.equal(wrongIssuer.valid, false);
+
+  await assertRejected(signJwt(HS256, claims({ org_id: '' })), AuthErrorCode.API_KEY_NOT_FOUND, /org_id/);
+});
+
+test('malformed tokens are rejected', async () => {
+  await assertRejected('not-a-jwt', AuthErrorCode.API_KEY_NOT_FOUND, /not a JWT/);
+  await assertRejected('a.b.c', AuthErrorCode.API_KEY_NOT_FOUND, /not JSON/);
+  await assertRejected('a.b.c.d', AuthErrorCode.API_KEY_NOT_FOUND, /not a JWT/);
+});
+
+// ============================================================================
+// BEARER TOKEN VALIDATION
+// ============================================================================
+
+test('a valid token authenticates for its inbox, or the inbox it names', async () => {
+  const provider = createMockCredentialProvider();
+  for (const username of ['inb_valid1234567890', '']) {
+    const token = signJwt(HS256, claims({ inbox_id: 'inb_valid1234567890', jti: 'tok_1' }));
+    const result = await validateSMTPBearerToken(username, token, verifier, provider);
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal(result.user.inbox_id, 'inb_valid1234567890');
+      assert.equal(result.user.api_key_id, 'token_tok_1');
+    }
+  }
+});
+
+test('a token without smtp:send, for another inbox or another organization gets 535', async () => {
+  const provider = createMockCredentialProvider();
+  const cases: Array<[Record<string, unknown>, AuthErrorCode]> = [
+    [{ scope: 'inbox:read' }, AuthErrorCode.INSUFFICIENT_PERMISSIONS],
+    [{ inbox_id: 'inb_disabled456789012' }, AuthErrorCode.INSUFFICIENT_PERMISSIONS],
+    [{ org_id: 'org_xyz' }, AuthErrorCode.INBOX_ORG_MISMATCH]
+  ];
+  for (const [overrides, code] of cases) {
+    const result = await validateSMTPBearerToken('inb_valid1234567890', signJwt(HS256, claims(overrides)), verifier, provider);
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.equal(result.error.code, code, JSON.stringify(overrides));
+      assert.equal(result.error.smtpCode, 535);
+    }
+  }
+});
+
+test('a verifier failure gets 454', async () => {
+  const failing = { verify: async () => { throw new Error('JWKS unreachable'); } };
+  const result = await validateSMTPBearerToken('inb_valid1234567890', 'token', failing, createMockCredentialProvider());
+  assert.equal(result.success, false);
+  if (!result.success) {
+    assert.equal(result.error.code, AuthErrorCode.SERVICE_UNAVAILABLE);
+    assert.equal(result.error.smtpCode, 454);
+  }
+});
@@ -0,0 +1,99 @@
+/**
+ * Live credential validation tests (AUTH_MODE=api)
+ *
+ * validateSMTPCredentialsLive against the fake AgentMail API, and against
+ * an API that never answers or keeps failing.
+ *
+ * Usage: npm run test:unit
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { validateSMTPCredentialsLive } from '../src/auth/validator';
+import { AuthErrorCode } from '../src/auth/errors';
+import { AgentMailClient } from '../src/api/agentmail-client';
+import { MockAgentMailApi } from '../src/mock/agentmail-api';
+
+const INBOX_ID = 'inb_valid1234567890';
+const VALID_KEY = 'am_validkey12345678901234567890123456';
+const REVOKED_KEY = 'am_revoked78901234567890123456789012';
+const WRONG_ORG_KEY = 'am_wrongorg45678901234567890123456789';
+
+let api: MockAgentMailApi;
+let baseUrl: string;
+
+before(async () => {
+  api = new MockAgentMailApi();
+  baseUrl = `http://127.0.0.1:${await api.listen(0)}`;
+});
+
+after(async () => {
+  await api.close();
+});
+
+function validate(inboxId: string, apiKey: string, url = baseUrl, timeoutSeconds = 5) {
+  return validateSMTPCredentialsLive(inboxId, apiKey, new AgentMailClient(apiKey, timeoutSeconds, url));
+}
+
+function assertFailure(result: Awaited<ReturnType<typeof validate>>, code: AuthErrorCode, smtpCode: number): void {
+  assert.equal(result.success, false);
+  if (!result.success) {
+    assert.equal(result.error.code, code);
+    assert.equal(result.error.smtpCode, smtpCode);
+  }
+}
+
+/**
+ * An API that answers every request with handler, on an ephemeral port
+ */
+async function withServer(handler: http.RequestListener, run: (url: string) => Promise<void>): Promise<void> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('a valid key for the inbox authenticates with the inbox and organization', async () => {
+  const result = await validate(INBOX_ID, VALID_KEY);
+  assert.equal(result.success, true);
+  if (result.success) {
+    assert.equal(result.user.inbox_id, INBOX_ID);
+    assert.equal(result.user.email_address, 'test@agentmail.dev');
+    assert.equal(result.user.organization_id, 'org_abc');
+    assert.match(result.user.api_key_id, /^live_/);
+  }
+});
+
+test('a revoked key gets 535', async () => {
+  assertFailure(await validate(INBOX_ID, REVOKED_KEY), AuthErrorCode.API_KEY_NOT_FOUND, 535);
+});
+
+test('a key that cannot see the inbox gets 535', async () => {
+  // Another organization's inbox is a 404, like a missing one
+  assertFailure(await validate(INBOX_ID, WRONG_ORG_KEY), AuthErrorCode.INBOX_NOT_FOUND, 535);
+  assertFailure(await validate('inb_missing1234567890', VALID_KEY), AuthErrorCode.INBOX_NOT_FOUND, 535);
+});
+
+test('an API that does not answer in time gets 454', async () => {
+  await withServer(() => {}, async url => {
+    assertFailure(await validate(INBOX_ID, VALID_KEY, url, 1), AuthErrorCode.SERVICE_UNAVAILABLE, 454);
+  });
+});
+
+test('a 5xx from the API gets 454', async () => {
+  let requests = 0;
+  await withServer((_req, res) => {
+    requests++;
+    res.writeHead(503, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ name: 'ServiceUnavailable', message: 'Try later' }));
+  }, async url => {
+    assertFailure(await validate(INBOX_ID, VALID_KEY, url), AuthErrorCode.SERVICE_UNAVAILABLE, 454);
+  });
+  assert.ok(requests >= 1);
+});